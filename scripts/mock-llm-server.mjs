@@ -0,0 +1,282 @@
+/**
+ * Mock LLM server - Azure OpenAI and Amazon Bedrock over local HTTP
+ *
+ * Serves just enough of both APIs to set the providers up and chat with
+ * them without cloud accounts: Azure deployment chat completions (plain
+ * and streamed) and Bedrock model listing, Converse and ConverseStream.
+ * Replies echo the deployment or model and the last user message.
+ *
+ *   npm run mock:llm
+ *
+ * Azure OpenAI: endpoint http://localhost:4010, key MOCK_LLM_API_KEY,
+ * deployments from MOCK_AZURE_DEPLOYMENTS. Amazon Bedrock: endpoint
+ * override http://localhost:4010, the same key, any region. The app needs
+ * ALLOW_PRIVATE_MODEL_ENDPOINTS=true to reach a local server.
+ */
+import http from 'http';
+
+const PORT = Number(process.env.MOCK_LLM_PORT) || 4010;
+const API_KEY = process.env.MOCK_LLM_API_KEY || 'mock-key';
+// Deployment names, each optionally "=model" for the model it serves
+const AZURE_DEPLOYMENTS = new Map(
+  (process.env.MOCK_AZURE_DEPLOYMENTS || 'gpt-4o,gpt-4o-mini')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [deployment, model] = entry.split('=');
+      return [deployment, model || deployment];
+    })
+);
+const BEDROCK_MODELS = [
+  {
+    modelId: 'anthropic.claude-3-haiku-20240307-v1:0',
+    modelName: 'Claude 3 Haiku',
+    providerName: 'Anthropic',
+  },
+  {
+    modelId: 'meta.llama3-8b-instruct-v1:0',
+    modelName: 'Llama 3 8B Instruct',
+    providerName: 'Meta',
+  },
+];
+const BEDROCK_PROFILES = [
+  {
+    inferenceProfileId: 'us.anthropic.claude-3-7-sonnet-20250219-v1:0',
+    inferenceProfileName: 'US Claude 3.7 Sonnet',
+    status: 'ACTIVE',
+  },
+];
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+}
+
+/**
+ * Text of the last user message, in OpenAI or Converse form
+ */
+function lastUserText(messages = []) {
+  const message = [...messages].reverse().find(m => m.role === 'user');
+  if (!message) return '';
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .map(block => block.text || '')
+    .join('')
+    .trim();
+}
+
+function replyWords(source, question) {
+  const reply = `Mock reply from ${source} to: ${question.slice(0, 80)}`;
+  return reply.split(/(?<= )/);
+}
+
+// CRC-32 as used by the AWS event stream encoding
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buffer) {
+  let crc = 0xffffffff;
+  for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * One binary event stream message carrying a ConverseStream event
+ */
+function encodeEvent(eventType, payload) {
+  const headers = Buffer.concat(
+    [
+      [':event-type', eventType],
+      [':content-type', 'application/json'],
+      [':message-type', 'event'],
+    ].map(([name, value]) => {
+      const nameBytes = Buffer.from(name);
+      const valueBytes = Buffer.from(value);
+      const header = Buffer.alloc(4 + nameBytes.length + valueBytes.length);
+      header.writeUInt8(nameBytes.length, 0);
+      nameBytes.copy(header, 1);
+      header.writeUInt8(7, 1 + nameBytes.length); // String value
+      header.writeUInt16BE(valueBytes.length, 2 + nameBytes.length);
+      valueBytes.copy(header, 4 + nameBytes.length);
+      return header;
+    })
+  );
+  const body = Buffer.from(JSON.stringify(payload));
+  const totalLength = 16 + headers.length + body.length;
+
+  const prelude = Buffer.alloc(12);
+  prelude.writeUInt32BE(totalLength, 0);
+  prelude.writeUInt32BE(headers.length, 4);
+  prelude.writeUInt32BE(crc32(prelude.subarray(0, 8)), 8);
+
+  const message = Buffer.concat([prelude, headers, body]);
+  const messageCrc = Buffer.alloc(4);
+  messageCrc.writeUInt32BE(crc32(message), 0);
+  return Buffer.concat([message, messageCrc]);
+}
+
+async function handleAzureChat(req, res, deployment) {
+  if (req.headers['api-key'] !== API_KEY) {
+    return sendJson(res, 401, {
+      error: { code: '401', message: 'Access denied due to invalid key.' },
+    });
+  }
+  const model = AZURE_DEPLOYMENTS.get(deployment);
+  if (!model) {
+    return sendJson(res, 404, {
+      error: {
+        code: 'DeploymentNotFound',
+        message: 'The API deployment for this resource does not exist.',
+      },
+    });
+  }
+
+  const body = await readBody(req);
+  const words = replyWords(deployment, lastUserText(body.messages));
+  const base = { id: 'chatcmpl-mock', created: 0, model };
+
+  if (!body.stream) {
+    return sendJson(res, 200, {
+      ...base,
+      object: 'chat.completion',
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: words.join('') },
+          finish_reason: 'stop',
+        },
+      ],
+      usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+    });
+  }
+
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  const chunk = (delta, finishReason = null) =>
+    `data: ${JSON.stringify({
+      ...base,
+      object: 'chat.completion.chunk',
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    })}\n\n`;
+  res.write(chunk({ role: 'assistant', content: '' }));
+  words.forEach(word => res.write(chunk({ content: word })));
+  res.write(chunk({}, 'stop'));
+  res.end('data: [DONE]\n\n');
+}
+
+async function handleBedrock(req, res, url) {
+  if (req.headers.authorization !== `Bearer ${API_KEY}`) {
+    return sendJson(res, 403, {
+      message: 'The security token included in the request is invalid.',
+    });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/foundation-models') {
+    return sendJson(res, 200, {
+      modelSummaries: BEDROCK_MODELS.map(model => ({
+        ...model,
+        responseStreamingSupported: true,
+        inferenceTypesSupported: ['ON_DEMAND'],
+        modelLifecycle: { status: 'ACTIVE' },
+      })),
+    });
+  }
+  if (req.method === 'GET' && url.pathname === '/inference-profiles') {
+    return sendJson(res, 200, {
+      inferenceProfileSummaries: BEDROCK_PROFILES,
+    });
+  }
+
+  const converse = url.pathname.match(/^\/model\/(.+)\/(converse(-stream)?)$/);
+  if (req.method !== 'POST' || !converse) {
+    return sendJson(res, 404, { message: 'Not found' });
+  }
+
+  const modelId = decodeURIComponent(converse[1]);
+  const known = [
+    ...BEDROCK_MODELS.map(model => model.modelId),
+    ...BEDROCK_PROFILES.map(profile => profile.inferenceProfileId),
+  ];
+  if (!known.includes(modelId)) {
+    return sendJson(res, 400, {
+      message: 'The provided model identifier is invalid.',
+    });
+  }
+
+  const body = await readBody(req);
+  const words = replyWords(modelId, lastUserText(body.messages));
+  const usage = { inputTokens: 1, outputTokens: 1, totalTokens: 2 };
+
+  if (!converse[3]) {
+    return sendJson(res, 200, {
+      output: {
+        message: { role: 'assistant', content: [{ text: words.join('') }] },
+      },
+      stopReason: 'end_turn',
+      usage,
+      metrics: { latencyMs: 1 },
+    });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'application/vnd.amazon.eventstream',
+  });
+  res.write(encodeEvent('messageStart', { role: 'assistant' }));
+  words.forEach(word =>
+    res.write(
+      encodeEvent('contentBlockDelta', {
+        contentBlockIndex: 0,
+        delta: { text: word },
+      })
+    )
+  );
+  res.write(encodeEvent('contentBlockStop', { contentBlockIndex: 0 }));
+  res.write(encodeEvent('messageStop', { stopReason: 'end_turn' }));
+  res.end(encodeEvent('metadata', { usage, metrics: { latencyMs: 1 } }));
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host}`);
+  console.log(`${req.method} ${url.pathname}`);
+
+  try {
+    const azure = url.pathname.match(
+      /^\/openai\/deployments\/([^/]+)\/chat\/completions$/
+    );
+    if (azure && req.method === 'POST') {
+      await handleAzureChat(req, res, decodeURIComponent(azure[1]));
+    } else {
+      await handleBedrock(req, res, url);
+    }
+  } catch (error) {
+    console.error(error);
+    sendJson(res, 400, { message: 'Malformed request' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(
+    `Mock Azure OpenAI and Bedrock server on http://localhost:${PORT}`
+  );
+  console.log(`API key: ${API_KEY}`);
+  console.log(
+    `Azure deployments: ${Array.from(AZURE_DEPLOYMENTS.keys()).join(', ')}`
+  );
+});
@@ -0,0 +1,36 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+
+import { getCacheMetrics } from '@/services/githubCacheService';
+import { authOptions } from '@/utils/auth';
+
+/**
+ * GitHub API cache hit/miss counters for this server instance
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const metrics = getCacheMetrics();
+    const requests = metrics.hits + metrics.revalidated + metrics.misses;
+
+    return NextResponse.json({
+      ...metrics,
+      hitRate:
+        requests > 0 ? (metrics.hits + metrics.revalidated) / requests : 0,
+    });
+  } catch (error) {
+    console.error('Cache metrics error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read cache metrics' },
+      { status: 500 }
+    );
+  }
+}
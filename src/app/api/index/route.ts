@@ -0,0 +1,168 @@
+import { getServerSession } from 'next-auth';
+import { NextRequest, NextResponse } from 'next/server';
+
+import { createEmbedder } from '@/services/embeddingService';
+import { getRepositoryToken } from '@/services/githubAppService';
+import { buildRepositoryIndex, getIndexStatus } from '@/services/indexService';
+import { resolveCommitSha } from '@/services/mcpService';
+import { LLMProvider } from '@/types/llm';
+import { authOptions } from '@/utils/auth';
+import { decryptApiKey } from '@/utils/encryption';
+import { parseGitHubUrl } from '@/utils/githubUtils';
+
+// Indexing fetches and embeds many files; allow it to run longer
+export const maxDuration = 300;
+
+/**
+ * Read the user's LLM provider and key, used to pick an embedder
+ */
+function getEmbedderConfig(
+  request: NextRequest
+): { provider: LLMProvider; apiKey: string } | null {
+  const llmConfigCookie = request.cookies.get('llm-config');
+  if (!llmConfigCookie) {
+    return null;
+  }
+
+  try {
+    const llmConfig = JSON.parse(llmConfigCookie.value);
+    return {
+      provider: llmConfig.provider,
+      apiKey: decryptApiKey(llmConfig.encryptedApiKey),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const repoInfo = parseGitHubUrl(searchParams.get('url') || '');
+    if (!repoInfo) {
+      return NextResponse.json(
+        { error: 'Invalid GitHub repository URL' },
+        { status: 400 }
+      );
+    }
+
+    const embedderConfig = getEmbedderConfig(request);
+    if (!embedderConfig) {
+      return NextResponse.json(
+        {
+          error:
+            'LLM configuration required. Please configure your AI provider first.',
+        },
+        { status: 400 }
+      );
+    }
+
+    const status = await getIndexStatus(
+      repoInfo.owner,
+      repoInfo.repo,
+      {
+        token: await getRepositoryToken(repoInfo.owner, repoInfo.repo, {
+          accessToken: session.accessToken,
+          login: session.login,
+        }),
+      },
+      createEmbedder(embedderConfig),
+      searchParams.get('ref') || undefined
+    );
+
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('Index status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read index status' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body: { repositoryUrl?: string; ref?: string } = await request.json();
+    const repoInfo = parseGitHubUrl(body.repositoryUrl || '');
+    if (!repoInfo) {
+      return NextResponse.json(
+        { error: 'Invalid GitHub repository URL' },
+        { status: 400 }
+      );
+    }
+
+    const embedderConfig = getEmbedderConfig(request);
+    if (!embedderConfig) {
+      return NextResponse.json(
+        {
+          error:
+            'LLM configuration required. Please configure your AI provider first.',
+        },
+        { status: 400 }
+      );
+    }
+
+    const githubConfig = {
+      token: await getRepositoryToken(repoInfo.owner, repoInfo.repo, {
+        accessToken: session.accessToken,
+        login: session.login,
+      }),
+    };
+    const sha = await resolveCommitSha(
+      repoInfo.owner,
+      repoInfo.repo,
+      body.ref || 'HEAD',
+      githubConfig
+    );
+    if (!sha) {
+      return NextResponse.json(
+        { error: 'Repository not found or not accessible' },
+        { status: 404 }
+      );
+    }
+
+    const index = await buildRepositoryIndex(
+      repoInfo.owner,
+      repoInfo.repo,
+      sha,
+      githubConfig,
+      createEmbedder(embedderConfig)
+    );
+
+    return NextResponse.json({
+      indexed: true,
+      stale: false,
+      sha: index.sha,
+      headSha: index.sha,
+      fileCount: index.fileCount,
+      chunkCount: index.chunks.length,
+      createdAt: index.createdAt,
+    });
+  } catch (error) {
+    console.error('Index build error:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to build index',
+      },
+      { status: 500 }
+    );
+  }
+}
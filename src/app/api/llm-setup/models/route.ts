@@ -2,16 +2,22 @@ import { getServerSession } from 'next-auth';
 import { NextRequest, NextResponse } from 'next/server';
 
 import {
-  fetchAnthropicModels,
-  fetchOpenAIModels,
-  fetchOpenRouterModels,
+  PRIVATE_MODEL_ENDPOINT_ERROR,
+  getLLMProvider,
+  isAllowedModelEndpoint,
+  listProviderModels,
+  resolveProviderBaseUrl,
+  resolveProviderSettings,
 } from '@/services/llmService';
-import { LLMModel, LLMProvider } from '@/types/llm';
+import { LLMModel, LLMProvider, ProviderSettings } from '@/types/llm';
 import { authOptions } from '@/utils/auth';
+import { decryptApiKey } from '@/utils/encryption';
 
 interface ModelsRequest {
   provider: LLMProvider;
-  apiKey: string;
+  apiKey?: string; // The saved key when neither key nor URL is given
+  baseUrl?: string; // Self-hosted server
+  settings?: ProviderSettings;
 }
 
 interface ModelsResponse {
@@ -33,38 +39,69 @@ export async function POST(request: NextRequest) {
     }
 
     const body: ModelsRequest = await request.json();
-    const { provider, apiKey } = body;
+    const { provider } = body;
+    let apiKey = body.apiKey || '';
+    let baseUrl = body.baseUrl;
+    let requestedSettings = body.settings;
 
     // Validate provider
-    if (!['openai', 'anthropic', 'openrouter'].includes(provider)) {
+    const definition = getLLMProvider(provider);
+    if (!definition) {
       return NextResponse.json<ModelsResponse>(
         { success: false, error: 'Invalid provider' },
         { status: 400 }
       );
     }
 
-    if (!apiKey) {
+    // Without a key or URL, list the models of the saved configuration
+    if (!apiKey && !baseUrl) {
+      const llmConfigCookie = request.cookies.get('llm-config');
+      const savedConfig = llmConfigCookie
+        ? JSON.parse(llmConfigCookie.value)
+        : null;
+      if (savedConfig?.provider === provider) {
+        baseUrl = savedConfig.baseUrl;
+        requestedSettings = savedConfig.settings;
+        apiKey = decryptApiKey(savedConfig.encryptedApiKey);
+      }
+    }
+
+    const serverUrl = resolveProviderBaseUrl(definition, baseUrl);
+    if (serverUrl === null) {
+      return NextResponse.json<ModelsResponse>(
+        { success: false, error: 'A valid http(s) server URL is required' },
+        { status: 400 }
+      );
+    }
+    if (!(await isAllowedModelEndpoint(serverUrl))) {
+      return NextResponse.json<ModelsResponse>(
+        { success: false, error: PRIVATE_MODEL_ENDPOINT_ERROR },
+        { status: 400 }
+      );
+    }
+    const { settings, missing } = resolveProviderSettings(
+      definition,
+      requestedSettings
+    );
+    if (missing) {
+      return NextResponse.json<ModelsResponse>(
+        { success: false, error: `${missing} is required` },
+        { status: 400 }
+      );
+    }
+    if (!apiKey && !definition.apiKeyOptional) {
       return NextResponse.json<ModelsResponse>(
         { success: false, error: 'API key is required' },
         { status: 400 }
       );
     }
 
-    // Fetch models based on provider
-    let models: LLMModel[] = [];
-
     try {
-      switch (provider as LLMProvider) {
-        case 'openai':
-          models = await fetchOpenAIModels(apiKey);
-          break;
-        case 'anthropic':
-          models = await fetchAnthropicModels(apiKey);
-          break;
-        case 'openrouter':
-          models = await fetchOpenRouterModels(apiKey);
-          break;
-      }
+      const models: LLMModel[] = await listProviderModels(provider, {
+        apiKey,
+        baseUrl: serverUrl,
+        settings,
+      });
 
       return NextResponse.json<ModelsResponse>({
         success: true,
@@ -0,0 +1,29 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+
+import { getLLMProviderInfo } from '@/services/llmService';
+import { authOptions } from '@/utils/auth';
+
+/**
+ * The AI providers users can set up, for the setup screens
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ providers: getLLMProviderInfo() });
+  } catch (error) {
+    console.error('LLM provider lookup error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
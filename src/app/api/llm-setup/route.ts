@@ -2,14 +2,16 @@ import { getServerSession } from 'next-auth';
 import { NextRequest, NextResponse } from 'next/server';
 
 import {
-  fetchAnthropicModels,
-  fetchOpenAIModels,
-  fetchOpenRouterModels,
-  getDefaultModel,
+  PRIVATE_MODEL_ENDPOINT_ERROR,
+  getLLMProvider,
+  isAllowedModelEndpoint,
+  listProviderModels,
+  resolveProviderBaseUrl,
+  resolveProviderSettings,
   validateApiKey,
   validateApiKeyFormat,
 } from '@/services/llmService';
-import { LLMProvider, LLMSetupRequest, LLMSetupResponse } from '@/types/llm';
+import { LLMSetupRequest, LLMSetupResponse } from '@/types/llm';
 import { authOptions } from '@/utils/auth';
 import { encryptApiKey } from '@/utils/encryption';
 
@@ -25,50 +27,73 @@ export async function POST(request: NextRequest) {
     }
 
     const body: LLMSetupRequest = await request.json();
-    const { provider, apiKey, model, baseUrl } = body;
+    const { provider, model, baseUrl } = body;
+    const apiKey = body.apiKey || '';
 
     // Validate provider
-    if (!['openai', 'anthropic', 'openrouter'].includes(provider)) {
+    const definition = getLLMProvider(provider);
+    if (!definition) {
       return NextResponse.json({ error: 'Invalid provider' }, { status: 400 });
     }
 
+    // Self-hosted servers need a URL; their key may be optional
+    const serverUrl = resolveProviderBaseUrl(definition, baseUrl);
+    if (serverUrl === null) {
+      return NextResponse.json(
+        { error: 'A valid http(s) server URL is required' },
+        { status: 400 }
+      );
+    }
+    if (!(await isAllowedModelEndpoint(serverUrl))) {
+      return NextResponse.json(
+        { error: PRIVATE_MODEL_ENDPOINT_ERROR },
+        { status: 400 }
+      );
+    }
+    const { settings, missing } = resolveProviderSettings(
+      definition,
+      body.settings
+    );
+    if (missing) {
+      return NextResponse.json(
+        { error: `${missing} is required` },
+        { status: 400 }
+      );
+    }
+    const connection = { apiKey, baseUrl: serverUrl, settings };
+
     // Validate API key format
-    if (!validateApiKeyFormat(provider as LLMProvider, apiKey)) {
+    if (!validateApiKeyFormat(provider, apiKey)) {
       return NextResponse.json({
         success: false,
         error: 'Invalid API key format',
         provider,
-        model: model || getDefaultModel(provider as LLMProvider),
+        model: model || definition.defaultModel,
         keyValid: false,
       } as LLMSetupResponse);
     }
 
     // Validate API key by making a test request
-    const keyValid = await validateApiKey(provider as LLMProvider, apiKey);
+    const keyValid = await validateApiKey(provider, connection);
 
     if (!keyValid) {
       return NextResponse.json({
         success: false,
-        error: 'Invalid API key - authentication failed',
+        error: definition.configurableBaseUrl
+          ? `Could not list models${serverUrl ? ` at ${serverUrl}` : ''}. Check the connection details and API key.`
+          : 'Invalid API key - authentication failed',
         provider,
-        model: model || getDefaultModel(provider as LLMProvider),
+        model: model || definition.defaultModel,
         keyValid: false,
       } as LLMSetupResponse);
     }
 
     // Fetch available models for all providers
-    let availableModels;
-    switch (provider) {
-      case 'openai':
-        availableModels = await fetchOpenAIModels(apiKey);
-        break;
-      case 'anthropic':
-        availableModels = await fetchAnthropicModels(apiKey);
-        break;
-      case 'openrouter':
-        availableModels = await fetchOpenRouterModels(apiKey);
-        break;
-    }
+    const availableModels = await listProviderModels(provider, connection);
+
+    // Providers without a default model use the first they serve
+    const selectedModel =
+      model || definition.defaultModel || availableModels[0]?.id || '';
 
     // Encrypt the API key
     const encryptedApiKey = encryptApiKey(apiKey);
@@ -78,16 +103,16 @@ export async function POST(request: NextRequest) {
     const llmConfig = {
       provider,
       encryptedApiKey,
-      model: model || getDefaultModel(provider as LLMProvider),
-      baseUrl:
-        provider === 'openrouter' ? 'https://openrouter.ai/api/v1' : baseUrl,
+      model: selectedModel,
+      baseUrl: serverUrl,
+      settings,
       configuredAt: new Date(),
     };
 
     const response = NextResponse.json({
       success: true,
       provider,
-      model: model || getDefaultModel(provider as LLMProvider),
+      model: selectedModel,
       keyValid: true,
       availableModels,
     } as LLMSetupResponse);
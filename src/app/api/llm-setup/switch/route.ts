@@ -1,7 +1,7 @@
 import { getServerSession } from 'next-auth';
 import { NextRequest, NextResponse } from 'next/server';
 
-import { LLMProvider, PROVIDER_CONFIGS } from '@/types/llm';
+import { getLLMProvider } from '@/services/llmService';
 import { authOptions } from '@/utils/auth';
 
 export async function POST(request: NextRequest) {
@@ -19,13 +19,18 @@ export async function POST(request: NextRequest) {
     const { provider, model } = body;
 
     // Validate provider
-    if (!['openai', 'anthropic', 'openrouter'].includes(provider)) {
+    const definition = getLLMProvider(provider);
+    if (!definition) {
       return NextResponse.json({ error: 'Invalid provider' }, { status: 400 });
     }
 
-    // Validate model for the provider
-    const providerConfig = PROVIDER_CONFIGS[provider as LLMProvider];
-    if (provider !== 'openrouter' && !providerConfig.models.includes(model)) {
+    // Validate model for the provider; models a provider lists through its
+    // API are not known here
+    if (
+      typeof model !== 'string' ||
+      !model ||
+      (!definition.discoversModels && !definition.models.includes(model))
+    ) {
       return NextResponse.json(
         { error: 'Invalid model for provider' },
         { status: 400 }
@@ -58,15 +63,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Providers needing a server or settings are set up, not switched to
+    const needsSetup =
+      definition.configurableBaseUrl || Boolean(definition.settings?.length);
+    if (needsSetup && currentConfig.provider !== provider) {
+      return NextResponse.json(
+        {
+          error: `Set up ${definition.name} with its connection details before switching to it.`,
+        },
+        { status: 400 }
+      );
+    }
+
     // Update the configuration with new provider and model
     const updatedConfig = {
       ...currentConfig,
       provider,
       model,
-      baseUrl:
-        provider === 'openrouter'
-          ? 'https://openrouter.ai/api/v1'
-          : currentConfig.baseUrl,
+      baseUrl: definition.configurableBaseUrl
+        ? currentConfig.baseUrl
+        : definition.baseUrl,
+      settings: needsSetup ? currentConfig.settings : undefined,
       configuredAt: new Date(),
     };
 
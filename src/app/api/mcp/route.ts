@@ -0,0 +1,31 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+
+import { getMcpServerStatus } from '@/services/mcpClientService';
+import { authOptions } from '@/utils/auth';
+
+/**
+ * Configured MCP servers, whether they could be reached and the tools
+ * they offer agent mode
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const servers = await getMcpServerStatus(session.accessToken);
+    return NextResponse.json({ servers });
+  } catch (error) {
+    console.error('MCP server lookup error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read MCP servers' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  handleMcpMessages,
+  readMcpAccessToken,
+} from '@/services/mcpServerService';
+
+/**
+ * MCP endpoint (Streamable HTTP, stateless, JSON responses) for editors
+ * and IDE agents. Authenticated with an access token from
+ * POST /api/mcp/token.
+ */
+export async function POST(request: NextRequest) {
+  const authorization = request.headers.get('authorization') || '';
+  const grant = authorization.startsWith('Bearer ')
+    ? await readMcpAccessToken(authorization.substring('Bearer '.length).trim())
+    : null;
+
+  if (!grant) {
+    return NextResponse.json(
+      { error: 'A valid access token is required' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32700, message: 'Parse error' },
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const responses = await handleMcpMessages(body, grant);
+    if (responses.length === 0) {
+      return new Response(null, { status: 202 });
+    }
+    return NextResponse.json(Array.isArray(body) ? responses : responses[0]);
+  } catch (error) {
+    console.error('MCP request error:', error);
+    return NextResponse.json(
+      {
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32600, message: 'Invalid request' },
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * No server-initiated stream: every response comes back on its POST
+ */
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405, headers: { Allow: 'POST' } }
+  );
+}
@@ -0,0 +1,89 @@
+import { getServerSession } from 'next-auth';
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  createMcpAccessToken,
+  revokeMcpAccessTokens,
+} from '@/services/mcpServerService';
+import { authOptions } from '@/utils/auth';
+import { decryptApiKey } from '@/utils/encryption';
+
+/**
+ * Issue an access token for the MCP endpoint, standing for the signed-in
+ * user's GitHub token and AI provider settings
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    // Tokens are revoked by login, so one is needed to issue them
+    if (!session?.accessToken || !session.login) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const llmConfigCookie = request.cookies.get('llm-config');
+    if (!llmConfigCookie) {
+      return NextResponse.json(
+        {
+          error:
+            'LLM configuration required. Please configure your AI provider first.',
+        },
+        { status: 400 }
+      );
+    }
+
+    const { provider, encryptedApiKey, model, baseUrl, settings } = JSON.parse(
+      llmConfigCookie.value
+    );
+    const { token, expiresAt } = await createMcpAccessToken({
+      accessToken: session.accessToken,
+      login: session.login,
+      llmConfig: {
+        provider,
+        apiKey: decryptApiKey(encryptedApiKey),
+        model,
+        baseUrl,
+        settings,
+      },
+    });
+
+    return NextResponse.json({
+      token,
+      expiresAt: new Date(expiresAt).toISOString(),
+    });
+  } catch (error) {
+    console.error('MCP token error:', error);
+    return NextResponse.json(
+      { error: 'Failed to issue access token' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Revoke all of the signed-in user's MCP access tokens
+ */
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.login) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const revoked = await revokeMcpAccessTokens(session.login);
+    return NextResponse.json({ revoked });
+  } catch (error) {
+    console.error('MCP token revocation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke access tokens' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,53 @@
 import { getServerSession } from 'next-auth';
 import { NextRequest, NextResponse } from 'next/server';
 
+import { sanitizeHistory } from '@/services/conversationService';
+import { getRepositoryToken } from '@/services/githubAppService';
+import { resolveDeepLink } from '@/services/mcpService';
+import { getRepositoryName } from '@/services/multiRepositoryService';
 import { processQuery } from '@/services/queryService';
-import { QueryRequest, QueryResponse } from '@/types/query';
+import { RepositoryFocus } from '@/types/github';
+import { ContextSource, QueryRequest, QueryResponse } from '@/types/query';
 import { authOptions } from '@/utils/auth';
 import { decryptApiKey } from '@/utils/encryption';
-import { parseGitHubUrl } from '@/utils/githubUtils';
+import {
+  GitHubRepo,
+  MAX_THREAD_REPOSITORIES,
+  parseGitHubUrl,
+} from '@/utils/githubUtils';
+
+const CONTEXT_SOURCES: ContextSource[] = [
+  'code',
+  'issues',
+  'pulls',
+  'discussions',
+];
+
+/**
+ * Validate a focus sent by the client
+ */
+function parseFocus(value: unknown): RepositoryFocus | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+
+  const { path, type, startLine, endLine } = value as Record<string, unknown>;
+  if (typeof path !== 'string' || (type !== 'file' && type !== 'directory')) {
+    return undefined;
+  }
+  const cleanPath = path.trim().replace(/^\/+|\/+$/g, '');
+  if (!cleanPath) return undefined;
+
+  const isLine = (line: unknown): line is number =>
+    typeof line === 'number' && Number.isInteger(line) && line > 0;
+  if (type === 'file' && isLine(startLine)) {
+    return {
+      path: cleanPath,
+      type,
+      startLine,
+      endLine: isLine(endLine) && endLine >= startLine ? endLine : startLine,
+    };
+  }
+  return { path: cleanPath, type };
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -20,6 +62,17 @@ export async function POST(request: NextRequest) {
 
     const body: QueryRequest = await request.json();
     const { repositoryUrl, query } = body;
+    const history = sanitizeHistory(body.history);
+    const mode = body.mode === 'agent' ? 'agent' : 'standard';
+    const maxSteps =
+      typeof body.maxSteps === 'number' ? body.maxSteps : undefined;
+    const requestedRef =
+      typeof body.ref === 'string' && body.ref.trim()
+        ? body.ref.trim()
+        : undefined;
+    const sources = Array.isArray(body.sources)
+      ? body.sources.filter(source => CONTEXT_SOURCES.includes(source))
+      : undefined;
 
     // Validate input
     if (!repositoryUrl || !query) {
@@ -38,6 +91,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Linked repositories, without duplicates or the thread's own repository
+    const seenRepositories = new Set([
+      getRepositoryName(repoInfo).toLowerCase(),
+    ]);
+    const linkedRepositories = (
+      Array.isArray(body.linkedRepositoryUrls) ? body.linkedRepositoryUrls : []
+    )
+      .map(url => (typeof url === 'string' ? parseGitHubUrl(url) : null))
+      .filter((linked): linked is GitHubRepo => {
+        if (!linked) return false;
+        const name = getRepositoryName(linked).toLowerCase();
+        if (seenRepositories.has(name)) return false;
+        seenRepositories.add(name);
+        return true;
+      })
+      .slice(0, MAX_THREAD_REPOSITORIES - 1)
+      .map(({ owner, repo }) => ({ owner, repo }));
+
+    const pullNumber =
+      typeof body.pullNumber === 'number' &&
+      Number.isInteger(body.pullNumber) &&
+      body.pullNumber > 0
+        ? body.pullNumber
+        : repoInfo.pullNumber;
+
     // Get LLM configuration from cookies
     const llmConfigCookie = request.cookies.get('llm-config');
     if (!llmConfigCookie) {
@@ -66,7 +144,39 @@ export async function POST(request: NextRequest) {
     }
 
     // Use the GitHub token from session
-    const githubToken = session.accessToken;
+    const user = { accessToken: session.accessToken, login: session.login };
+    const githubToken = await getRepositoryToken(
+      repoInfo.owner,
+      repoInfo.repo,
+      user
+    );
+    // Installation tokens are scoped to one repository
+    const linkedRepositoryTokens = await Promise.all(
+      linkedRepositories.map(async linked => ({
+        ...linked,
+        githubToken: await getRepositoryToken(linked.owner, linked.repo, user),
+      }))
+    );
+
+    // A /blob/ or /tree/ repository URL pins the ref and focus unless the
+    // request sets them
+    const deepLink =
+      repoInfo.ref && !requestedRef
+        ? await resolveDeepLink(
+            repoInfo.owner,
+            repoInfo.repo,
+            { ref: repoInfo.ref, focus: repoInfo.focus },
+            { token: githubToken }
+          )
+        : undefined;
+    if (deepLink === null) {
+      return NextResponse.json(
+        { error: `Branch, tag or commit "${repoInfo.ref}" was not found` },
+        { status: 404 }
+      );
+    }
+    const ref = requestedRef || deepLink?.ref;
+    const focus = parseFocus(body.focus) || deepLink?.focus;
 
     // Check if client wants streaming
     const isStreaming = request.headers.get('accept') === 'text/stream';
@@ -80,9 +190,17 @@ export async function POST(request: NextRequest) {
             // Process the query and get streaming response
             const result = await processQuery({
               repository: repoInfo,
+              linkedRepositories: linkedRepositoryTokens,
+              ref,
+              focus,
+              pullNumber,
               query,
+              history,
               githubToken,
               llmConfig,
+              mode,
+              maxSteps,
+              sources,
               streaming: true,
               onToken: (token: string) => {
                 const chunk = encoder.encode(
@@ -90,6 +208,12 @@ export async function POST(request: NextRequest) {
                 );
                 controller.enqueue(chunk);
               },
+              onToolEvent: toolEvent => {
+                const chunk = encoder.encode(
+                  `data: ${JSON.stringify({ toolEvent })}\n\n`
+                );
+                controller.enqueue(chunk);
+              },
             });
 
             if (!result.success) {
@@ -103,6 +227,9 @@ export async function POST(request: NextRequest) {
                 done: true,
                 sources: result.sources || [],
                 codeReferences: result.codeReferences || [],
+                issueReferences: result.issueReferences || [],
+                toolTrace: result.toolTrace || [],
+                contextReport: result.contextReport,
               };
               const finalChunk = encoder.encode(
                 `data: ${JSON.stringify(finalData)}\n\n`
@@ -132,9 +259,17 @@ export async function POST(request: NextRequest) {
     // Fallback to regular non-streaming response
     const result = await processQuery({
       repository: repoInfo,
+      linkedRepositories: linkedRepositoryTokens,
+      ref,
+      focus,
+      pullNumber,
       query,
+      history,
       githubToken,
       llmConfig,
+      mode,
+      maxSteps,
+      sources,
     });
 
     if (!result.success) {
@@ -145,6 +280,9 @@ export async function POST(request: NextRequest) {
       response: result.response || 'No response generated',
       sources: result.sources || [],
       codeReferences: result.codeReferences || [],
+      issueReferences: result.issueReferences || [],
+      toolTrace: result.toolTrace,
+      contextReport: result.contextReport,
     };
 
     return NextResponse.json(response);
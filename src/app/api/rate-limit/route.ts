@@ -0,0 +1,50 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+
+import { getRateLimits } from '@/services/mcpService';
+import {
+  getRateLimitStatus,
+  recordRateLimitSnapshot,
+} from '@/services/rateLimitService';
+import { authOptions } from '@/utils/auth';
+
+// Resources the app draws from, in display order
+const DISPLAYED_RESOURCES = ['core', 'search', 'code_search'];
+
+/**
+ * Current GitHub API quota for the signed-in user's token
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const result = await getRateLimits({ token: session.accessToken });
+    if (result.result) {
+      recordRateLimitSnapshot(session.accessToken, result.result.resources);
+    }
+
+    // Falls back to quota seen on recent responses if the lookup failed
+    const resources = getRateLimitStatus(session.accessToken)
+      .filter(state => DISPLAYED_RESOURCES.includes(state.resource))
+      .sort(
+        (a, b) =>
+          DISPLAYED_RESOURCES.indexOf(a.resource) -
+          DISPLAYED_RESOURCES.indexOf(b.resource)
+      );
+
+    return NextResponse.json({ resources });
+  } catch (error) {
+    console.error('Rate limit lookup error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read GitHub rate limits' },
+      { status: 500 }
+    );
+  }
+}
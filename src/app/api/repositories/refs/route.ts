@@ -0,0 +1,61 @@
+import { getServerSession } from 'next-auth';
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getRepositoryToken } from '@/services/githubAppService';
+import { listBranches, listTags } from '@/services/mcpService';
+import { authOptions } from '@/utils/auth';
+import { parseGitHubUrl } from '@/utils/githubUtils';
+
+/**
+ * List branches and tags a thread can be pinned to
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const repoInfo = parseGitHubUrl(searchParams.get('url') || '');
+    if (!repoInfo) {
+      return NextResponse.json(
+        { error: 'Invalid GitHub repository URL' },
+        { status: 400 }
+      );
+    }
+
+    const githubConfig = {
+      token: await getRepositoryToken(repoInfo.owner, repoInfo.repo, {
+        accessToken: session.accessToken,
+        login: session.login,
+      }),
+    };
+    const [branches, tags] = await Promise.all([
+      listBranches(repoInfo.owner, repoInfo.repo, githubConfig),
+      listTags(repoInfo.owner, repoInfo.repo, githubConfig),
+    ]);
+
+    if (branches.error) {
+      return NextResponse.json(
+        { error: branches.error.message },
+        { status: branches.error.code === 404 ? 404 : 500 }
+      );
+    }
+
+    return NextResponse.json({
+      branches: (branches.result || []).map(branch => branch.name),
+      tags: (tags.result || []).map(tag => tag.name),
+    });
+  } catch (error) {
+    console.error('Error listing repository refs:', error);
+    return NextResponse.json(
+      { error: 'Failed to list branches and tags' },
+      { status: 500 }
+    );
+  }
+}
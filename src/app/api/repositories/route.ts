@@ -1,7 +1,11 @@
 import { getServerSession } from 'next-auth';
 import { NextRequest, NextResponse } from 'next/server';
 
+import { getRepositoryToken } from '@/services/githubAppService';
+import { resolveDeepLink } from '@/services/mcpService';
+import { PullRequestSummary, RepositoryFocus } from '@/types/github';
 import { authOptions } from '@/utils/auth';
+import { getGitHubApiUrl } from '@/utils/githubHost';
 import { parseGitHubUrl } from '@/utils/githubUtils';
 
 export async function GET(request: NextRequest) {
@@ -34,11 +38,19 @@ export async function GET(request: NextRequest) {
     }
 
     // Fetch repository information from GitHub API
+    const githubToken = await getRepositoryToken(
+      repoInfo.owner,
+      repoInfo.repo,
+      {
+        accessToken: session.accessToken,
+        login: session.login,
+      }
+    );
     const response = await fetch(
-      `https://api.github.com/repos/${repoInfo.owner}/${repoInfo.repo}`,
+      `${getGitHubApiUrl()}/repos/${repoInfo.owner}/${repoInfo.repo}`,
       {
         headers: {
-          Authorization: `Bearer ${session.accessToken}`,
+          Authorization: `Bearer ${githubToken}`,
           Accept: 'application/vnd.github.v3+json',
           'User-Agent': 'GitHub-Developer-Wiki',
         },
@@ -63,6 +75,62 @@ export async function GET(request: NextRequest) {
 
     const repoData = await response.json();
 
+    // Pull request URLs start a review thread
+    let pullRequest: PullRequestSummary | undefined;
+    if (repoInfo.pullNumber) {
+      const pullResponse = await fetch(
+        `${getGitHubApiUrl()}/repos/${repoInfo.owner}/${repoInfo.repo}/pulls/${repoInfo.pullNumber}`,
+        {
+          headers: {
+            Authorization: `Bearer ${githubToken}`,
+            Accept: 'application/vnd.github.v3+json',
+            'User-Agent': 'GitHub-Developer-Wiki',
+          },
+        }
+      );
+      if (!pullResponse.ok) {
+        return NextResponse.json(
+          { error: `Pull request #${repoInfo.pullNumber} not found` },
+          { status: 404 }
+        );
+      }
+      const pullData = await pullResponse.json();
+      pullRequest = {
+        number: pullData.number,
+        title: pullData.title,
+        state: pullData.merged
+          ? 'merged'
+          : pullData.draft && pullData.state === 'open'
+            ? 'draft'
+            : pullData.state,
+        author: pullData.user?.login || 'ghost',
+        html_url: pullData.html_url,
+        base: pullData.base.ref,
+        head: pullData.head.ref,
+        changed_files: pullData.changed_files,
+        additions: pullData.additions,
+        deletions: pullData.deletions,
+      };
+    }
+
+    // Blob and tree links start a thread pinned to their ref and focused
+    // on their file or directory
+    let deepLink: { ref: string; focus?: RepositoryFocus } | null = null;
+    if (repoInfo.ref) {
+      deepLink = await resolveDeepLink(
+        repoInfo.owner,
+        repoInfo.repo,
+        { ref: repoInfo.ref, focus: repoInfo.focus },
+        { token: githubToken }
+      );
+      if (!deepLink) {
+        return NextResponse.json(
+          { error: `Branch, tag or commit "${repoInfo.ref}" not found` },
+          { status: 404 }
+        );
+      }
+    }
+
     // Return formatted repository information
     return NextResponse.json({
       id: repoData.id,
@@ -82,6 +150,9 @@ export async function GET(request: NextRequest) {
       open_issues_count: repoData.open_issues_count,
       default_branch: repoData.default_branch,
       topics: repoData.topics || [],
+      pull_request: pullRequest,
+      ref: deepLink?.ref,
+      focus: deepLink?.focus,
     });
   } catch (error) {
     console.error('Error fetching repository information:', error);
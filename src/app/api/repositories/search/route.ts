@@ -0,0 +1,126 @@
+import { getServerSession } from 'next-auth';
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  GitHubRepository,
+  listStarredRepositories,
+  listUserRepositories,
+  searchRepositories,
+} from '@/services/mcpService';
+import { RepositorySuggestion } from '@/types/github';
+import { authOptions } from '@/utils/auth';
+
+// Suggestions per group of the signed-in user's repositories
+const MAX_GROUP_SUGGESTIONS = 8;
+const MAX_SEARCH_RESULTS = 10;
+const MAX_QUERY_LENGTH = 100;
+
+/**
+ * Turn a typed name into a repository search, scoping "owner/name" to
+ * the owner
+ */
+function toSearchQuery(query: string): string {
+  const [owner, name] = query.split('/', 2);
+  if (name === undefined) return `${query} in:name`;
+  return name ? `${name} in:name user:${owner}` : `user:${owner}`;
+}
+
+function toSuggestion(
+  repository: GitHubRepository,
+  group: RepositorySuggestion['group']
+): RepositorySuggestion {
+  return {
+    full_name: repository.full_name,
+    description: repository.description,
+    html_url: repository.html_url,
+    private: repository.private,
+    language: repository.language,
+    stargazers_count: repository.stargazers_count,
+    updated_at: repository.updated_at,
+    owner_avatar_url: repository.owner.avatar_url,
+    group,
+  };
+}
+
+/**
+ * Suggest repositories for the input screen: the signed-in user's own,
+ * organization and starred repositories matching the query, followed by
+ * a name search across GitHub
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.accessToken) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '')
+      .trim()
+      .substring(0, MAX_QUERY_LENGTH);
+    const githubConfig = { token: session.accessToken };
+
+    const [owned, organization, starred, search] = await Promise.all([
+      listUserRepositories(githubConfig, 'owner'),
+      listUserRepositories(githubConfig, 'organization_member'),
+      listStarredRepositories(githubConfig),
+      query
+        ? searchRepositories(
+            toSearchQuery(query),
+            githubConfig,
+            MAX_SEARCH_RESULTS
+          )
+        : undefined,
+    ]);
+
+    const failed = [owned, organization, starred, search].find(
+      result => result?.error
+    );
+    if (failed?.error && !owned.result && !search?.result) {
+      return NextResponse.json(
+        { error: failed.error.message },
+        { status: failed.error.code === 401 ? 401 : 500 }
+      );
+    }
+
+    const needle = query.toLowerCase();
+    const seen = new Set<string>();
+    const repositories: RepositorySuggestion[] = [];
+
+    const addGroup = (
+      candidates: GitHubRepository[] = [],
+      group: RepositorySuggestion['group'],
+      limit: number
+    ) => {
+      candidates
+        .filter(
+          repository =>
+            !seen.has(repository.full_name) &&
+            (group === 'search' ||
+              repository.full_name.toLowerCase().includes(needle))
+        )
+        .slice(0, limit)
+        .forEach(repository => {
+          seen.add(repository.full_name);
+          repositories.push(toSuggestion(repository, group));
+        });
+    };
+
+    addGroup(owned.result, 'owned', MAX_GROUP_SUGGESTIONS);
+    addGroup(organization.result, 'organization', MAX_GROUP_SUGGESTIONS);
+    addGroup(starred.result, 'starred', MAX_GROUP_SUGGESTIONS);
+    addGroup(search?.result?.items, 'search', MAX_SEARCH_RESULTS);
+
+    return NextResponse.json({ repositories });
+  } catch (error) {
+    console.error('Error searching repositories:', error);
+    return NextResponse.json(
+      { error: 'Failed to search repositories' },
+      { status: 500 }
+    );
+  }
+}
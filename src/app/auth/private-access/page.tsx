@@ -0,0 +1,102 @@
+'use client';
+
+import { signIn, useSession } from 'next-auth/react';
+
+import { getGitHubAppInstallUrl } from '@/utils/githubHost';
+import {
+  PRIVATE_REPO_SCOPES,
+  hasPrivateRepoAccess,
+} from '@/utils/githubScopes';
+
+const GITHUB_APP_SLUG = process.env.NEXT_PUBLIC_GITHUB_APP_SLUG;
+
+export default function PrivateAccess() {
+  const { data: session } = useSession();
+  const alreadyGranted = hasPrivateRepoAccess(session?.scopes);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-lg w-full space-y-6 bg-white border border-gray-200 rounded-lg shadow-sm p-8">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">
+            Access private repositories
+          </h2>
+          <p className="mt-2 text-sm text-gray-600">
+            By default GitHub Developer Wiki can only read your profile and
+            public repositories. To ask questions about private repositories,
+            choose one of the options below.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="font-semibold text-gray-900">
+            Option 1: Grant the <code>repo</code> scope
+          </h3>
+          <ul className="text-sm text-gray-700 list-disc pl-5 space-y-1">
+            <li>
+              GitHub only offers private repository access as the full{' '}
+              <code>repo</code> scope, which includes write access to every
+              repository you can access.
+            </li>
+            <li>
+              This app only ever reads code, commits and metadata. It never
+              writes to your repositories.
+            </li>
+            <li>
+              You can revoke access at any time in your GitHub settings under
+              Applications → Authorized OAuth Apps.
+            </li>
+          </ul>
+          {alreadyGranted ? (
+            <p className="text-sm text-green-700">
+              ✓ Private repository access is already granted.
+            </p>
+          ) : (
+            <button
+              onClick={() =>
+                signIn(
+                  'github',
+                  { callbackUrl: '/chat' },
+                  { scope: PRIVATE_REPO_SCOPES.join(' ') }
+                )
+              }
+              className="w-full py-2 px-4 text-sm font-medium rounded-md text-white bg-gray-800 hover:bg-gray-700"
+            >
+              Grant private repository access
+            </button>
+          )}
+        </div>
+
+        {GITHUB_APP_SLUG && (
+          <div className="space-y-3 border-t border-gray-200 pt-6">
+            <h3 className="font-semibold text-gray-900">
+              Option 2: Install the GitHub App
+            </h3>
+            <p className="text-sm text-gray-700">
+              Organisation admins can install the app on selected repositories
+              instead. It only receives read access to the repositories chosen,
+              and members can use it without granting any extra scopes.
+            </p>
+            <a
+              href={getGitHubAppInstallUrl(GITHUB_APP_SLUG)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block w-full text-center py-2 px-4 text-sm font-medium rounded-md text-gray-800 border border-gray-300 hover:bg-gray-50"
+            >
+              Install on GitHub
+            </a>
+          </div>
+        )}
+
+        <div className="text-center">
+          <a
+            href="/chat"
+            className="text-sm text-gray-500 hover:text-gray-700 underline"
+          >
+            Back to chat
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
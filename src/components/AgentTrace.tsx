@@ -0,0 +1,94 @@
+'use client';
+
+import { useState } from 'react';
+
+import { ToolTraceEvent } from '@/types/query';
+
+interface AgentTraceProps {
+  events: ToolTraceEvent[];
+  isRunning?: boolean;
+}
+
+/**
+ * Collapse started/completed events into one entry per tool call
+ */
+function mergeEvents(events: ToolTraceEvent[]): ToolTraceEvent[] {
+  const merged: ToolTraceEvent[] = [];
+
+  events.forEach(event => {
+    const pendingIndex = merged.findIndex(
+      item =>
+        item.status === 'started' &&
+        item.step === event.step &&
+        item.tool === event.tool &&
+        JSON.stringify(item.input) === JSON.stringify(event.input)
+    );
+
+    if (event.status !== 'started' && pendingIndex >= 0) {
+      merged[pendingIndex] = event;
+    } else {
+      merged.push(event);
+    }
+  });
+
+  return merged;
+}
+
+function formatInput(input: Record<string, unknown>): string {
+  return Object.values(input)
+    .filter(value => value !== undefined && value !== '')
+    .map(value => String(value))
+    .join(', ');
+}
+
+export function AgentTrace({ events, isRunning = false }: AgentTraceProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (events.length === 0) {
+    return null;
+  }
+
+  const calls = mergeEvents(events);
+  const visibleCalls = isExpanded || isRunning ? calls : calls.slice(-3);
+
+  return (
+    <div className="mb-3 bg-gray-50 border border-gray-200 rounded-md p-2 text-xs text-gray-700">
+      <div className="flex items-center justify-between mb-1">
+        <span className="font-medium">
+          🔎 Explored repository ({calls.length} tool{' '}
+          {calls.length === 1 ? 'call' : 'calls'})
+        </span>
+        {!isRunning && calls.length > 3 && (
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="text-blue-600 hover:text-blue-700 underline"
+          >
+            {isExpanded ? 'Show less' : 'Show all'}
+          </button>
+        )}
+      </div>
+      <ul className="space-y-0.5 font-mono">
+        {visibleCalls.map((call, index) => (
+          <li
+            key={`${call.step}-${call.tool}-${index}`}
+            className="flex items-start space-x-2"
+          >
+            <span>
+              {call.status === 'started'
+                ? '⏳'
+                : call.status === 'failed'
+                  ? '⚠️'
+                  : '✓'}
+            </span>
+            <span className="truncate">
+              {call.tool}({formatInput(call.input)})
+              {call.summary && call.status === 'failed' && (
+                <span className="text-red-600"> — {call.summary}</span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -2,18 +2,30 @@
 
 import { useEffect, useState } from 'react';
 
-import { signOut, useSession } from 'next-auth/react';
+import { useSession } from 'next-auth/react';
+
+import { RepositoryFocus } from '@/types/github';
+import { ContextSource } from '@/types/query';
+import { signOutAndRevokeAccess } from '@/utils/signOut';
 
 import { ChatWindow } from './ChatWindow';
 import { LLMSetup } from './LLMSetup';
 import { LLMSwitcher } from './LLMSwitcher';
+import { McpAccessToken } from './McpAccessToken';
 import { ThreadSelector } from './ThreadSelector';
 
 export interface ChatThread {
   id: string;
   title: string;
   repository?: string;
+  linkedRepositories?: string[]; // owner/repo names searched alongside
+  ref?: string; // Branch, tag or commit SHA; unset means the default branch
+  pullRequest?: number; // Pull request under review
+  focus?: RepositoryFocus; // Deep-linked file or directory questions are scoped to
   lastMessage?: string;
+  agentMode?: boolean; // Let the LLM explore the repository with tools
+  agentMaxSteps?: number;
+  contextSources?: ContextSource[]; // Standard mode; code is always used
   createdAt: Date;
   updatedAt: Date;
 }
@@ -146,6 +158,8 @@ export function ChatInterface() {
               />
             )}
 
+            {llmConfigured && <McpAccessToken />}
+
             {llmConfigured && (
               <button
                 onClick={() => setShowLLMSetup(true)}
@@ -184,7 +198,7 @@ export function ChatInterface() {
             </div>
 
             <button
-              onClick={() => signOut()}
+              onClick={signOutAndRevokeAccess}
               className="text-gray-500 hover:text-gray-700 transition-colors"
             >
               <svg
@@ -2,12 +2,36 @@
 
 import { useEffect, useRef, useState } from 'react';
 
-import { Repository } from '@/types/github';
-
+import { useSession } from 'next-auth/react';
+
+import {
+  CodeReference,
+  IssueReference,
+  PullRequestSummary,
+  Repository,
+  RepositoryFocus,
+} from '@/types/github';
+import {
+  ContextReport,
+  ContextSource,
+  ConversationTurn,
+  ToolTraceEvent,
+} from '@/types/query';
+import { getGitHubWebUrl } from '@/utils/githubHost';
+import { hasPrivateRepoAccess } from '@/utils/githubScopes';
+import { MAX_THREAD_REPOSITORIES } from '@/utils/githubUtils';
+
+import { AgentTrace } from './AgentTrace';
 import { ChatThread } from './ChatInterface';
+import { ContextReportNote } from './ContextReportNote';
 import { ConversationHistory } from './ConversationHistory';
 import { ErrorDisplay } from './ErrorDisplay';
+import { IndexStatus } from './IndexStatus';
+import { LinkedRepositories } from './LinkedRepositories';
 import { MessageRenderer } from './MessageRenderer';
+import { PullRequestInfo } from './PullRequestInfo';
+import { RateLimitIndicator } from './RateLimitIndicator';
+import { RefSelector } from './RefSelector';
 import { RepositoryInfo } from './RepositoryInfo';
 import { RepositoryInput } from './RepositoryInput';
 import { StreamingMessage } from './StreamingMessage';
@@ -19,6 +43,11 @@ interface Message {
   timestamp: Date;
   repository?: string;
   isStreaming?: boolean;
+  kind?: 'status' | 'error'; // Not a conversation turn; never sent as history
+  toolTrace?: ToolTraceEvent[];
+  codeReferences?: CodeReference[];
+  issueReferences?: IssueReference[];
+  contextReport?: ContextReport;
 }
 
 interface ChatWindowProps {
@@ -34,6 +63,55 @@ interface RepositoryData extends Repository {
   open_issues_count?: number;
   default_branch?: string;
   topics?: string[];
+  pull_request?: PullRequestSummary;
+  ref?: string; // Resolved from a deep link
+  focus?: RepositoryFocus;
+}
+
+const AGENT_STEP_OPTIONS = [4, 8, 12, 20];
+const DEFAULT_AGENT_STEPS = 8;
+
+// Optional context sources; code is always searched
+const EXTRA_CONTEXT_SOURCES: Array<{ source: ContextSource; label: string }> = [
+  { source: 'issues', label: 'Issues' },
+  { source: 'pulls', label: 'Pull requests' },
+  { source: 'discussions', label: 'Discussions' },
+];
+
+/**
+ * Label a focus like a GitHub link, e.g. "src/x.ts#L20-L40" or "src/"
+ */
+function formatFocus(focus: RepositoryFocus): string {
+  if (focus.type === 'directory') return `${focus.path}/`;
+  if (!focus.startLine) return focus.path;
+  return focus.startLine === focus.endLine
+    ? `${focus.path}#L${focus.startLine}`
+    : `${focus.path}#L${focus.startLine}-L${focus.endLine}`;
+}
+
+function toggleContextSource(
+  sources: ContextSource[] = [],
+  source: ContextSource,
+  enabled: boolean
+): ContextSource[] {
+  const others = sources.filter(existing => existing !== source);
+  return enabled ? [...others, source] : others;
+}
+
+/**
+ * Earlier turns to send with a question. Status and error messages are
+ * left out, as are questions that only got an error back.
+ */
+function toConversationHistory(messages: Message[]): ConversationTurn[] {
+  return messages
+    .filter(
+      (msg, index) =>
+        !msg.isStreaming &&
+        !msg.kind &&
+        msg.content.trim() &&
+        !(msg.role === 'user' && messages[index + 1]?.kind === 'error')
+    )
+    .map(msg => ({ role: msg.role, content: msg.content }));
 }
 
 export function ChatWindow({
@@ -42,6 +120,7 @@ export function ChatWindow({
   llmConfigured,
   onShowLLMSetup,
 }: ChatWindowProps) {
+  const { data: session } = useSession();
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
 
@@ -52,11 +131,21 @@ export function ChatWindow({
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingRepo, setIsLoadingRepo] = useState(false);
   const [repoError, setRepoError] = useState('');
+  const [suggestPrivateAccess, setSuggestPrivateAccess] = useState(false);
   const [queryError, setQueryError] = useState('');
   const [showHistory, setShowHistory] = useState(false);
   const [lastQuery, setLastQuery] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  // The agent explores a single repository; linked ones need standard mode
+  const linkedRepositories = thread.pullRequest
+    ? []
+    : thread.linkedRepositories || [];
+  const agentMode = !!thread.agentMode && linkedRepositories.length === 0;
+  const linkedRepositoryUrls = linkedRepositories.map(
+    name => `${getGitHubWebUrl()}/${name}`
+  );
+
   // Load messages for this thread and reset all state
   useEffect(() => {
     const savedMessages = localStorage.getItem(`messages-${thread.id}`);
@@ -83,17 +172,18 @@ export function ChatWindow({
 
     // If thread has repository info, load it
     if (thread.repository) {
+      const threadUrl = `${getGitHubWebUrl()}/${thread.repository}${thread.pullRequest ? `/pull/${thread.pullRequest}` : ''}`;
       const loadRepositoryData = async () => {
         try {
           setIsLoadingRepo(true);
           const response = await fetch(
-            `/api/repositories?url=${encodeURIComponent(`https://github.com/${thread.repository}`)}`
+            `/api/repositories?url=${encodeURIComponent(threadUrl)}`
           );
           const data = await response.json();
 
           if (response.ok) {
             setRepositoryData(data);
-            setRepositoryUrl(`https://github.com/${thread.repository}`);
+            setRepositoryUrl(threadUrl);
           }
         } catch (error) {
           console.error('Error loading repository data for thread:', error);
@@ -104,7 +194,7 @@ export function ChatWindow({
 
       loadRepositoryData();
     }
-  }, [thread.id, thread.repository]);
+  }, [thread.id, thread.repository, thread.pullRequest]);
 
   // Save messages when they change
   useEffect(() => {
@@ -121,6 +211,7 @@ export function ChatWindow({
   const handleRepositorySubmit = async (url: string) => {
     setIsLoadingRepo(true);
     setRepoError('');
+    setSuggestPrivateAccess(false);
 
     try {
       const response = await fetch(
@@ -129,6 +220,13 @@ export function ChatWindow({
       const data = await response.json();
 
       if (!response.ok) {
+        // GitHub reports private repositories as missing without the repo scope
+        if (
+          (response.status === 404 || response.status === 403) &&
+          !hasPrivateRepoAccess(session?.scopes)
+        ) {
+          setSuggestPrivateAccess(true);
+        }
         throw new Error(data.error || 'Failed to fetch repository information');
       }
 
@@ -136,18 +234,31 @@ export function ChatWindow({
       setRepositoryUrl(url);
 
       const repoName = data.full_name;
+      const pullRequest: PullRequestSummary | undefined = data.pull_request;
+      const focus: RepositoryFocus | undefined = data.focus;
       onUpdateThread({
         repository: repoName,
-        title: `Chat about ${repoName}`,
+        linkedRepositories: undefined,
+        ref: data.ref,
+        focus,
+        pullRequest: pullRequest?.number,
+        title: pullRequest
+          ? `Review of ${repoName}#${pullRequest.number}`
+          : `Chat about ${repoName}`,
       });
 
       // Add system message
       const systemMessage: Message = {
         id: `msg-${Date.now()}`,
         role: 'assistant',
-        content: `🎯 Repository set to **${repoName}**. Repository information loaded successfully! You can now ask questions about this repository.`,
+        content: pullRequest
+          ? `🔍 Reviewing pull request **#${pullRequest.number}: ${pullRequest.title}** in **${repoName}**. Ask for a summary, a review of risky changes, or why something was changed.`
+          : focus
+            ? `🎯 Repository set to **${repoName}**${data.ref ? ` at \`${data.ref}\`` : ''}, focused on \`${formatFocus(focus)}\`. Questions are scoped to it until you clear the focus.`
+            : `🎯 Repository set to **${repoName}**. Repository information loaded successfully! You can now ask questions about this repository.`,
         timestamp: new Date(),
         repository: repoName,
+        kind: 'status',
       };
       setMessages(prev => [...prev, systemMessage]);
     } catch (error) {
@@ -203,6 +314,8 @@ export function ChatWindow({
       repository: thread.repository,
     };
 
+    const history = toConversationHistory(messages);
+
     setMessages(prev => [...prev, userMessage]);
     setLastQuery(input.trim());
     setInput('');
@@ -236,8 +349,16 @@ export function ChatWindow({
           Accept: 'text/stream',
         },
         body: JSON.stringify({
-          repositoryUrl: `https://github.com/${thread.repository}`,
+          repositoryUrl: `${getGitHubWebUrl()}/${thread.repository}`,
+          linkedRepositoryUrls,
           query: input.trim(),
+          history,
+          ref: thread.ref,
+          pullNumber: thread.pullRequest,
+          focus: thread.pullRequest ? undefined : thread.focus,
+          mode: agentMode ? 'agent' : 'standard',
+          maxSteps: thread.agentMaxSteps,
+          sources: thread.contextSources,
         }),
       });
 
@@ -256,35 +377,58 @@ export function ChatWindow({
 
             for (const line of lines) {
               if (line.startsWith('data: ')) {
+                let data;
                 try {
-                  const data = JSON.parse(line.slice(6));
-
-                  if (data.token) {
-                    accumulatedContent += data.token;
-                    setMessages(prev =>
-                      prev.map(msg =>
-                        msg.id === assistantMessageId
-                          ? { ...msg, content: accumulatedContent }
-                          : msg
-                      )
-                    );
-                  }
-
-                  if (data.done) {
-                    setMessages(prev =>
-                      prev.map(msg =>
-                        msg.id === assistantMessageId
-                          ? { ...msg, isStreaming: false }
-                          : msg
-                      )
-                    );
-                  }
-
-                  if (data.error) {
-                    throw new Error(data.error);
-                  }
+                  data = JSON.parse(line.slice(6));
                 } catch {
-                  // Ignore malformed JSON chunks
+                  continue; // Ignore malformed JSON chunks
+                }
+
+                if (data.error) {
+                  throw new Error(data.error);
+                }
+
+                if (data.toolEvent) {
+                  setMessages(prev =>
+                    prev.map(msg =>
+                      msg.id === assistantMessageId
+                        ? {
+                            ...msg,
+                            toolTrace: [
+                              ...(msg.toolTrace || []),
+                              data.toolEvent,
+                            ],
+                          }
+                        : msg
+                    )
+                  );
+                }
+
+                if (data.token) {
+                  accumulatedContent += data.token;
+                  setMessages(prev =>
+                    prev.map(msg =>
+                      msg.id === assistantMessageId
+                        ? { ...msg, content: accumulatedContent }
+                        : msg
+                    )
+                  );
+                }
+
+                if (data.done) {
+                  setMessages(prev =>
+                    prev.map(msg =>
+                      msg.id === assistantMessageId
+                        ? {
+                            ...msg,
+                            isStreaming: false,
+                            codeReferences: data.codeReferences,
+                            issueReferences: data.issueReferences,
+                            contextReport: data.contextReport,
+                          }
+                        : msg
+                    )
+                  );
                 }
               }
             }
@@ -327,6 +471,9 @@ export function ChatWindow({
               ? {
                   ...msg,
                   content: data.response || 'No response generated',
+                  codeReferences: data.codeReferences,
+                  issueReferences: data.issueReferences,
+                  contextReport: data.contextReport,
                   isStreaming: false,
                 }
               : msg
@@ -338,8 +485,9 @@ export function ChatWindow({
 
       let errorContent = '';
       if (error instanceof Error) {
-        // Check for network errors
-        if (error.message.includes('fetch') || error.name === 'TypeError') {
+        // fetch() rejects with a TypeError when the request never completes;
+        // server errors such as "Failed to fetch repository data" are shown
+        if (error.name === 'TypeError') {
           errorContent =
             '🌐 **Network error**\n\nPlease check your internet connection and try again.';
         } else {
@@ -354,7 +502,12 @@ export function ChatWindow({
       setMessages(prev =>
         prev.map(msg =>
           msg.id === assistantMessageId
-            ? { ...msg, content: errorContent, isStreaming: false }
+            ? {
+                ...msg,
+                content: errorContent,
+                isStreaming: false,
+                kind: 'error',
+              }
             : msg
         )
       );
@@ -422,6 +575,18 @@ export function ChatWindow({
               />
             </div>
           )}
+          {suggestPrivateAccess && (
+            <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-900">
+              Is this a private repository?{' '}
+              <a
+                href="/auth/private-access"
+                className="font-medium underline hover:text-blue-700"
+              >
+                Grant private repository access
+              </a>{' '}
+              to explore it.
+            </div>
+          )}
         </div>
       )}
 
@@ -429,11 +594,55 @@ export function ChatWindow({
       {thread.repository && repositoryData && (
         <div className="bg-white border-b border-gray-200 px-4 py-2">
           <RepositoryInfo repository={repositoryData} />
+          {repositoryData.pull_request ? (
+            <PullRequestInfo pullRequest={repositoryData.pull_request} />
+          ) : (
+            <>
+              <RefSelector
+                repository={thread.repository}
+                defaultBranch={repositoryData.default_branch}
+                value={thread.ref}
+                onChange={ref => onUpdateThread({ ref })}
+              />
+              <LinkedRepositories
+                repository={thread.repository}
+                value={linkedRepositories}
+                maxRepositories={MAX_THREAD_REPOSITORIES}
+                onChange={names =>
+                  onUpdateThread({
+                    linkedRepositories: names.length > 0 ? names : undefined,
+                  })
+                }
+              />
+              {thread.focus && (
+                <div className="flex items-center justify-center space-x-2 py-1 text-xs text-gray-500">
+                  <span>📍 Focused on:</span>
+                  <code className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded">
+                    {formatFocus(thread.focus)}
+                  </code>
+                  <button
+                    onClick={() => onUpdateThread({ focus: undefined })}
+                    className="text-blue-600 hover:text-blue-700 underline"
+                  >
+                    Clear
+                  </button>
+                </div>
+              )}
+              <IndexStatus repository={thread.repository} gitRef={thread.ref} />
+            </>
+          )}
+          <RateLimitIndicator
+            refreshKey={messages.filter(msg => !msg.isStreaming).length}
+          />
           <div className="text-center mt-1">
             <button
               onClick={() => {
                 onUpdateThread({
                   repository: undefined,
+                  linkedRepositories: undefined,
+                  ref: undefined,
+                  focus: undefined,
+                  pullRequest: undefined,
                   title: 'New Conversation',
                 });
                 setMessages([]);
@@ -466,6 +675,10 @@ export function ChatWindow({
               onClick={() => {
                 onUpdateThread({
                   repository: undefined,
+                  linkedRepositories: undefined,
+                  ref: undefined,
+                  focus: undefined,
+                  pullRequest: undefined,
                   title: 'New Conversation',
                 });
                 setMessages([]);
@@ -516,6 +729,12 @@ export function ChatWindow({
                     : 'bg-white text-gray-900 border border-gray-200 shadow-sm'
                 }`}
               >
+                {message.toolTrace && (
+                  <AgentTrace
+                    events={message.toolTrace}
+                    isRunning={message.isStreaming}
+                  />
+                )}
                 {message.role === 'user' ? (
                   <div className="whitespace-pre-wrap">{message.content}</div>
                 ) : message.isStreaming ? (
@@ -524,7 +743,14 @@ export function ChatWindow({
                     isStreaming={true}
                   />
                 ) : (
-                  <MessageRenderer content={message.content} />
+                  <MessageRenderer
+                    content={message.content}
+                    codeReferences={message.codeReferences}
+                    issueReferences={message.issueReferences}
+                  />
+                )}
+                {message.contextReport && (
+                  <ContextReportNote report={message.contextReport} />
                 )}
                 <div className="text-xs opacity-70 mt-2 text-right">
                   {message.timestamp.toLocaleTimeString()}
@@ -597,8 +823,16 @@ export function ChatWindow({
                         method: 'POST',
                         headers: { 'Content-Type': 'application/json' },
                         body: JSON.stringify({
-                          repositoryUrl: `https://github.com/${thread.repository}`,
+                          repositoryUrl: `${getGitHubWebUrl()}/${thread.repository}`,
+                          linkedRepositoryUrls,
                           query: lastQuery,
+                          history: toConversationHistory(messages),
+                          ref: thread.ref,
+                          pullNumber: thread.pullRequest,
+                          focus: thread.pullRequest ? undefined : thread.focus,
+                          mode: agentMode ? 'agent' : 'standard',
+                          maxSteps: thread.agentMaxSteps,
+                          sources: thread.contextSources,
                         }),
                       })
                         .then(async response => {
@@ -612,6 +846,9 @@ export function ChatWindow({
                             id: `msg-${Date.now() + 1}`,
                             role: 'assistant',
                             content: data.response || 'No response generated',
+                            codeReferences: data.codeReferences,
+                            issueReferences: data.issueReferences,
+                            contextReport: data.contextReport,
                             timestamp: new Date(),
                             repository: thread.repository,
                           };
@@ -624,6 +861,7 @@ export function ChatWindow({
                             content: `❌ Retry failed: ${error.message}`,
                             timestamp: new Date(),
                             repository: thread.repository,
+                            kind: 'error',
                           };
                           setMessages(prev => [...prev, errorMessage]);
                         })
@@ -637,6 +875,79 @@ export function ChatWindow({
           </div>
         )}
 
+        {/* Pull request reviews always use the diff, not the agent */}
+        <div
+          className={`flex flex-wrap items-center justify-end gap-3 mb-2 ${thread.pullRequest ? 'hidden' : ''}`}
+        >
+          {!agentMode && (
+            <div
+              className="flex items-center space-x-3 text-sm text-gray-700"
+              title="Also look for related threads when answering"
+            >
+              <span className="text-gray-500">Also search:</span>
+              {EXTRA_CONTEXT_SOURCES.map(({ source, label }) => (
+                <label
+                  key={source}
+                  className="flex items-center space-x-1 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={!!thread.contextSources?.includes(source)}
+                    onChange={e =>
+                      onUpdateThread({
+                        contextSources: toggleContextSource(
+                          thread.contextSources,
+                          source,
+                          e.target.checked
+                        ),
+                      })
+                    }
+                    disabled={!thread.repository || isLoading}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+          )}
+          <label
+            className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer"
+            title={
+              linkedRepositories.length > 0
+                ? 'Agent mode explores a single repository; unlink repositories to use it'
+                : 'Let the AI open files and search the repository step by step'
+            }
+          >
+            <input
+              type="checkbox"
+              checked={agentMode}
+              onChange={e => onUpdateThread({ agentMode: e.target.checked })}
+              disabled={
+                !thread.repository || isLoading || linkedRepositories.length > 0
+              }
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Agent mode</span>
+          </label>
+          {agentMode && (
+            <select
+              value={thread.agentMaxSteps || DEFAULT_AGENT_STEPS}
+              onChange={e =>
+                onUpdateThread({ agentMaxSteps: Number(e.target.value) })
+              }
+              disabled={isLoading}
+              className="ml-3 px-2 py-1 bg-white border border-gray-300 rounded-md text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="Maximum exploration steps"
+            >
+              {AGENT_STEP_OPTIONS.map(steps => (
+                <option key={steps} value={steps}>
+                  {steps} steps
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
         <div className="flex space-x-3">
           <textarea
             value={input}
@@ -647,7 +958,9 @@ export function ChatWindow({
                 ? 'Set a repository first to start asking questions...'
                 : !llmConfigured
                   ? 'Configure your AI provider to start chatting...'
-                  : 'Ask a question about the repository...'
+                  : thread.pullRequest
+                    ? 'Ask about this pull request...'
+                    : 'Ask a question about the repository...'
             }
             disabled={!thread.repository || !llmConfigured}
             className="flex-1 px-3 py-2 bg-white border border-gray-300 rounded-md text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
@@ -0,0 +1,49 @@
+'use client';
+
+import { useState } from 'react';
+
+import { ContextReport } from '@/types/query';
+
+interface ContextReportNoteProps {
+  report: ContextReport;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+}
+
+export function ContextReportNote({ report }: ContextReportNoteProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const omitted = report.truncated.length + report.dropped.length;
+
+  return (
+    <div className="mt-2 text-xs text-gray-500">
+      <span>
+        📦 {report.includedFiles} file{report.includedFiles === 1 ? '' : 's'} in
+        context (~{formatTokens(report.usedTokens)} of{' '}
+        {formatTokens(report.contextLength)} tokens)
+      </span>
+      {omitted > 0 && (
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="ml-2 text-amber-600 hover:text-amber-700 underline"
+        >
+          {report.truncated.length > 0 &&
+            `${report.truncated.length} truncated`}
+          {report.truncated.length > 0 && report.dropped.length > 0 && ', '}
+          {report.dropped.length > 0 && `${report.dropped.length} left out`}
+        </button>
+      )}
+      {isExpanded && (
+        <ul className="mt-1 font-mono space-y-0.5">
+          {report.truncated.map(path => (
+            <li key={`truncated-${path}`}>✂️ {path}</li>
+          ))}
+          {report.dropped.map(path => (
+            <li key={`dropped-${path}`}>⛔ {path}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
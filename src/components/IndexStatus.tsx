@@ -0,0 +1,99 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { getGitHubWebUrl } from '@/utils/githubHost';
+
+interface IndexStatusProps {
+  repository: string; // owner/repo
+  gitRef?: string; // Branch, tag or SHA; defaults to HEAD
+}
+
+interface IndexStatusData {
+  indexed: boolean;
+  stale: boolean;
+  sha?: string;
+  fileCount?: number;
+  chunkCount?: number;
+  createdAt?: string;
+}
+
+export function IndexStatus({ repository, gitRef }: IndexStatusProps) {
+  const [status, setStatus] = useState<IndexStatusData | null>(null);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [error, setError] = useState('');
+
+  const repositoryUrl = `${getGitHubWebUrl()}/${repository}`;
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/index?url=${encodeURIComponent(repositoryUrl)}${gitRef ? `&ref=${encodeURIComponent(gitRef)}` : ''}`
+      );
+      if (response.ok) {
+        setStatus(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch index status:', error);
+    }
+  }, [repositoryUrl, gitRef]);
+
+  useEffect(() => {
+    setStatus(null);
+    setError('');
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const handleBuild = async () => {
+    setIsBuilding(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/index', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ repositoryUrl, ref: gitRef }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to build index');
+      }
+      setStatus(data);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : 'Failed to build index'
+      );
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center space-x-2 text-xs text-gray-500">
+      {status?.indexed ? (
+        <span title={status.createdAt}>
+          📚 Semantic index: {status.fileCount} files, {status.chunkCount}{' '}
+          chunks @ {status.sha?.substring(0, 7)}
+          {status.stale && ' (outdated)'}
+        </span>
+      ) : (
+        <span>📚 No semantic index</span>
+      )}
+      {(!status?.indexed || status.stale) && (
+        <button
+          onClick={handleBuild}
+          disabled={isBuilding}
+          className="text-blue-600 hover:text-blue-700 underline disabled:text-gray-400 disabled:no-underline"
+        >
+          {isBuilding
+            ? 'Indexing...'
+            : status?.indexed
+              ? 'Rebuild'
+              : 'Build index'}
+        </button>
+      )}
+      {error && <span className="text-red-600">{error}</span>}
+    </div>
+  );
+}
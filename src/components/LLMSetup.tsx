@@ -5,9 +5,10 @@ import { useCallback, useEffect, useState } from 'react';
 import {
   LLMModel,
   LLMProvider,
-  OpenRouterModel,
-  PROVIDER_CONFIGS,
+  LLMProviderInfo,
+  ProviderSettings,
 } from '@/types/llm';
+import { formatModelOption, getLLMProviders } from '@/utils/llmConfig';
 
 interface LLMSetupProps {
   onComplete: () => void;
@@ -19,23 +20,59 @@ interface LLMConfig {
   apiKey: string;
   model: string;
   baseUrl?: string;
+  settings: ProviderSettings;
 }
 
 export function LLMSetup({ onComplete, onCancel }: LLMSetupProps) {
+  const [providers, setProviders] = useState<LLMProviderInfo[]>([]);
   const [config, setConfig] = useState<LLMConfig>({
-    provider: 'openai',
+    provider: '',
     apiKey: '',
-    model: PROVIDER_CONFIGS.openai.defaultModel,
+    model: '',
+    settings: {},
   });
-  const [openRouterModels, setOpenRouterModels] = useState<OpenRouterModel[]>(
-    []
-  );
+  // Models the provider listed for the key or server
+  const [models, setModels] = useState<LLMModel[]>([]);
   const [isValidating, setIsValidating] = useState(false);
   const [isLoadingModels, setIsLoadingModels] = useState(false);
   const [isKeyValid, setIsKeyValid] = useState(false);
   const [error, setError] = useState('');
 
-  const fetchOpenRouterModels = useCallback(async () => {
+  const currentProvider = providers.find(({ id }) => id === config.provider);
+  // Providers with a server or settings connect on request instead
+  const validatesOnKeyEntry =
+    currentProvider !== undefined &&
+    !currentProvider.configurableBaseUrl &&
+    !currentProvider.settings?.length;
+
+  const handleProviderChange = useCallback((provider: LLMProviderInfo) => {
+    setConfig({
+      provider: provider.id,
+      apiKey: '',
+      model: provider.defaultModel,
+      baseUrl: provider.baseUrl,
+      settings: Object.fromEntries(
+        (provider.settings || []).map(field => [
+          field.key,
+          field.defaultValue || '',
+        ])
+      ),
+    });
+    setModels([]);
+    setIsKeyValid(false);
+    setError('');
+  }, []);
+
+  useEffect(() => {
+    getLLMProviders().then(available => {
+      setProviders(available);
+      if (available.length > 0) {
+        handleProviderChange(available[0]);
+      }
+    });
+  }, [handleProviderChange]);
+
+  const validateKeyAndFetchModels = useCallback(async () => {
     if (!config.apiKey) return;
 
     setIsLoadingModels(true);
@@ -80,10 +117,7 @@ export function LLMSetup({ onComplete, onCancel }: LLMSetupProps) {
             error?: string;
           } = await modelsResponse.json();
           if (modelsData.success && modelsData.models) {
-            // Update the appropriate models state based on provider
-            if (config.provider === 'openrouter') {
-              setOpenRouterModels(modelsData.models as OpenRouterModel[]);
-            }
+            setModels(modelsData.models);
 
             // If the current model is not in the fetched models, set to first available
             if (
@@ -98,17 +132,13 @@ export function LLMSetup({ onComplete, onCancel }: LLMSetupProps) {
         setIsLoadingModels(false);
       } else {
         setIsKeyValid(false);
-        if (config.provider === 'openrouter') {
-          setOpenRouterModels([]);
-        }
+        setModels([]);
         setError(validateData.error || 'Invalid API key');
       }
     } catch {
       console.error(`Failed to validate ${config.provider} API key`);
       setIsKeyValid(false);
-      if (config.provider === 'openrouter') {
-        setOpenRouterModels([]);
-      }
+      setModels([]);
       setError(
         'Failed to validate API key. Please check your network connection.'
       );
@@ -119,32 +149,57 @@ export function LLMSetup({ onComplete, onCancel }: LLMSetupProps) {
 
   // Validate API key and fetch models when API key is provided
   useEffect(() => {
-    if (
-      config.provider === 'openrouter' &&
-      config.apiKey &&
-      config.apiKey.length > 10
-    ) {
-      fetchOpenRouterModels();
+    if (validatesOnKeyEntry && config.apiKey && config.apiKey.length > 10) {
+      validateKeyAndFetchModels();
     }
-  }, [config.provider, config.apiKey, fetchOpenRouterModels]);
+  }, [validatesOnKeyEntry, config.apiKey, validateKeyAndFetchModels]);
 
-  const handleProviderChange = (provider: LLMProvider) => {
-    setConfig({
-      provider,
-      apiKey: '',
-      model: PROVIDER_CONFIGS[provider].defaultModel,
-      baseUrl:
-        provider === 'openrouter'
-          ? PROVIDER_CONFIGS.openrouter.baseUrl
-          : undefined,
-    });
-    setOpenRouterModels([]);
-    setIsKeyValid(false);
+  // Check a self-hosted server is reachable by listing its models
+  const connectToServer = async () => {
+    setIsLoadingModels(true);
     setError('');
+    try {
+      const response = await fetch('/api/llm-setup/models', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          provider: config.provider,
+          apiKey: config.apiKey,
+          baseUrl: config.baseUrl,
+          settings: config.settings,
+        }),
+      });
+      const data: { success: boolean; models?: LLMModel[]; error?: string } =
+        await response.json();
+
+      const serverModels = data.models || [];
+      if (!data.success || serverModels.length === 0) {
+        setIsKeyValid(false);
+        setModels([]);
+        setError(
+          data.error ||
+            'No models found. Check the connection details, API key and that a model is available.'
+        );
+        return;
+      }
+
+      setModels(serverModels);
+      setIsKeyValid(true);
+      if (!serverModels.find(m => m.id === config.model)) {
+        setConfig(prev => ({ ...prev, model: serverModels[0].id }));
+      }
+    } catch {
+      setIsKeyValid(false);
+      setError('Failed to reach the server. Please check the URL.');
+    } finally {
+      setIsLoadingModels(false);
+    }
   };
 
   const validateAndSave = async () => {
-    if (!config.apiKey.trim()) {
+    if (!config.apiKey.trim() && !currentProvider?.apiKeyOptional) {
       setError('API key is required');
       return;
     }
@@ -175,7 +230,13 @@ export function LLMSetup({ onComplete, onCancel }: LLMSetupProps) {
     }
   };
 
-  const currentProvider = PROVIDER_CONFIGS[config.provider];
+  if (!currentProvider) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
@@ -210,70 +271,131 @@ export function LLMSetup({ onComplete, onCancel }: LLMSetupProps) {
             <label className="block text-sm font-medium text-gray-700 mb-3">
               Choose your AI provider
             </label>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-              {(Object.keys(PROVIDER_CONFIGS) as LLMProvider[]).map(
-                provider => {
-                  const info = PROVIDER_CONFIGS[provider];
-                  return (
-                    <button
-                      key={provider}
-                      onClick={() => handleProviderChange(provider)}
-                      className={`p-4 rounded-lg border-2 transition-all text-left ${
-                        config.provider === provider
-                          ? 'border-blue-500 bg-blue-50'
-                          : 'border-gray-300 bg-gray-50 hover:border-gray-400'
-                      }`}
-                    >
-                      <div className="font-medium text-gray-900 mb-1">
-                        {info.name}
-                      </div>
-                      <div className="text-sm text-gray-600">
-                        {provider === 'openai' &&
-                          'Most popular and reliable AI provider'}
-                        {provider === 'anthropic' &&
-                          'Advanced reasoning and safety-focused AI'}
-                        {provider === 'openrouter' &&
-                          'Access to 100+ models at competitive prices'}
-                      </div>
-                    </button>
-                  );
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {providers.map(provider => (
+                <button
+                  key={provider.id}
+                  onClick={() => handleProviderChange(provider)}
+                  className={`p-4 rounded-lg border-2 transition-all text-left ${
+                    config.provider === provider.id
+                      ? 'border-blue-500 bg-blue-50'
+                      : 'border-gray-300 bg-gray-50 hover:border-gray-400'
+                  }`}
+                >
+                  <div className="font-medium text-gray-900 mb-1">
+                    {provider.name}
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {provider.description}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Server URL Input */}
+          {currentProvider.configurableBaseUrl && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {currentProvider.baseUrlLabel || 'Server URL'}
+                {currentProvider.baseUrlOptional && ' (optional)'}
+              </label>
+              <input
+                type="url"
+                value={config.baseUrl || ''}
+                onChange={e => {
+                  setConfig(prev => ({ ...prev, baseUrl: e.target.value }));
+                  setIsKeyValid(false);
+                }}
+                placeholder={
+                  currentProvider.baseUrlPlaceholder || currentProvider.baseUrl
                 }
+                className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {currentProvider.baseUrlHelp && (
+                <p className="mt-1 text-sm text-gray-600">
+                  {currentProvider.baseUrlHelp}
+                </p>
               )}
             </div>
-          </div>
+          )}
+
+          {/* Provider Settings */}
+          {currentProvider.settings?.map(field => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {field.label}
+              </label>
+              <input
+                type="text"
+                value={config.settings[field.key] || ''}
+                onChange={e => {
+                  setConfig(prev => ({
+                    ...prev,
+                    settings: { ...prev.settings, [field.key]: e.target.value },
+                  }));
+                  setIsKeyValid(false);
+                }}
+                placeholder={field.placeholder}
+                className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {field.help && (
+                <p className="mt-1 text-sm text-gray-600">{field.help}</p>
+              )}
+            </div>
+          ))}
 
           {/* API Key Input */}
           <div>
             <div className="flex items-center justify-between mb-2">
               <label className="block text-sm font-medium text-gray-700">
                 {currentProvider.name} API Key
+                {currentProvider.apiKeyOptional && ' (optional)'}
               </label>
-              <a
-                href={
-                  config.provider === 'openai'
-                    ? 'https://platform.openai.com/signup'
-                    : config.provider === 'anthropic'
-                      ? 'https://console.anthropic.com/'
-                      : 'https://openrouter.ai/'
-                }
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-blue-400 hover:text-blue-300 text-sm underline"
-              >
-                Get API Key
-              </a>
+              {currentProvider.apiKeyUrl && (
+                <a
+                  href={currentProvider.apiKeyUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-400 hover:text-blue-300 text-sm underline"
+                >
+                  Get API Key
+                </a>
+              )}
             </div>
             <input
               type="password"
               value={config.apiKey}
-              onChange={e =>
-                setConfig(prev => ({ ...prev, apiKey: e.target.value }))
+              onChange={e => {
+                setConfig(prev => ({ ...prev, apiKey: e.target.value }));
+                if (!validatesOnKeyEntry) {
+                  setIsKeyValid(false);
+                }
+              }}
+              placeholder={
+                currentProvider.apiKeyOptional
+                  ? 'Only if the server requires one'
+                  : 'Enter your API key...'
               }
-              placeholder="Enter your API key..."
               className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
           </div>
 
+          {!validatesOnKeyEntry && !isKeyValid && (
+            <button
+              onClick={connectToServer}
+              disabled={
+                (currentProvider.configurableBaseUrl &&
+                  !currentProvider.baseUrlOptional &&
+                  !config.baseUrl?.trim()) ||
+                isLoadingModels
+              }
+              className="w-full bg-gray-800 hover:bg-gray-900 disabled:bg-gray-400 text-white py-2 px-4 rounded-md font-medium transition-colors"
+            >
+              {isLoadingModels ? 'Connecting...' : 'Connect and list models'}
+            </button>
+          )}
+
           {/* API Key Status */}
           {config.apiKey.length > 10 && (
             <div>
@@ -317,36 +439,26 @@ export function LLMSetup({ onComplete, onCancel }: LLMSetupProps) {
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Model
               </label>
-              {config.provider === 'openrouter' ? (
-                <select
-                  value={config.model}
-                  onChange={e =>
-                    setConfig(prev => ({ ...prev, model: e.target.value }))
-                  }
-                  className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                >
-                  {openRouterModels.map(model => (
-                    <option key={model.id} value={model.id}>
-                      {model.name} - ${model.pricing.prompt}/1K tokens
-                    </option>
-                  ))}
-                </select>
-              ) : (
-                <select
-                  value={config.model}
-                  onChange={e =>
-                    setConfig(prev => ({ ...prev, model: e.target.value }))
-                  }
-                  className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                >
-                  {currentProvider.models.map(model => (
-                    <option key={model} value={model}>
-                      {model}
-                    </option>
-                  ))}
-                </select>
-              )}
-              {config.provider === 'openrouter' && isLoadingModels && (
+              <select
+                value={config.model}
+                onChange={e =>
+                  setConfig(prev => ({ ...prev, model: e.target.value }))
+                }
+                className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {models.length > 0
+                  ? models.map(model => (
+                      <option key={model.id} value={model.id}>
+                        {formatModelOption(model)}
+                      </option>
+                    ))
+                  : currentProvider.models.map(model => (
+                      <option key={model} value={model}>
+                        {model}
+                      </option>
+                    ))}
+              </select>
+              {isLoadingModels && (
                 <p className="mt-1 text-sm text-gray-600">
                   Loading available models...
                 </p>
@@ -387,7 +499,7 @@ export function LLMSetup({ onComplete, onCancel }: LLMSetupProps) {
             <button
               onClick={validateAndSave}
               disabled={
-                !config.apiKey.trim() ||
+                (!config.apiKey.trim() && !currentProvider.apiKeyOptional) ||
                 isValidating ||
                 !isKeyValid ||
                 !config.model
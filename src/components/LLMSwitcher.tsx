@@ -2,7 +2,12 @@
 
 import { useCallback, useEffect, useRef, useState } from 'react';
 
-import { LLMProvider, OpenRouterModel, PROVIDER_CONFIGS } from '@/types/llm';
+import { LLMModel, LLMProvider, LLMProviderInfo } from '@/types/llm';
+import {
+  formatModelOption,
+  formatProviderName,
+  getLLMProviders,
+} from '@/utils/llmConfig';
 
 interface LLMSwitcherProps {
   onProviderChange?: (provider: LLMProvider, model: string) => void;
@@ -18,13 +23,12 @@ export function LLMSwitcher({ onProviderChange }: LLMSwitcherProps) {
   const [currentConfig, setCurrentConfig] = useState<CurrentConfig | null>(
     null
   );
+  const [providers, setProviders] = useState<LLMProviderInfo[]>([]);
   const [isOpen, setIsOpen] = useState(false);
-  const [selectedProvider, setSelectedProvider] =
-    useState<LLMProvider>('openai');
+  const [selectedProvider, setSelectedProvider] = useState<LLMProvider>('');
   const [selectedModel, setSelectedModel] = useState('');
-  const [openRouterModels, setOpenRouterModels] = useState<OpenRouterModel[]>(
-    []
-  );
+  // Models listed with the saved key, for the configured provider
+  const [models, setModels] = useState<LLMModel[]>([]);
   const [isLoadingModels, setIsLoadingModels] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -68,70 +72,48 @@ export function LLMSwitcher({ onProviderChange }: LLMSwitcherProps) {
     }
   }, []);
 
-  // Fetch OpenRouter models when needed
-  const fetchOpenRouterModels = useCallback(async () => {
-    if (selectedProvider !== 'openrouter') return;
-
+  // Models of the saved configuration, listed with its key or server
+  const fetchModels = useCallback(async (provider: LLMProvider) => {
     setIsLoadingModels(true);
     try {
-      // We need to get the API key from the current config to fetch models
-      // For now, we'll use a basic set of popular models
-      const popularModels: OpenRouterModel[] = [
-        {
-          id: 'openai/gpt-4',
-          name: 'GPT-4',
-          description: 'OpenAI GPT-4',
-          pricing: { prompt: 0.03, completion: 0.06 },
-          context_length: 8192,
-          architecture: { modality: 'text', tokenizer: 'cl100k_base' },
-        },
-        {
-          id: 'openai/gpt-3.5-turbo',
-          name: 'GPT-3.5 Turbo',
-          description: 'OpenAI GPT-3.5 Turbo',
-          pricing: { prompt: 0.001, completion: 0.002 },
-          context_length: 4096,
-          architecture: { modality: 'text', tokenizer: 'cl100k_base' },
-        },
-        {
-          id: 'anthropic/claude-3-sonnet',
-          name: 'Claude 3 Sonnet',
-          description: 'Anthropic Claude 3 Sonnet',
-          pricing: { prompt: 0.003, completion: 0.015 },
-          context_length: 200000,
-          architecture: { modality: 'text', tokenizer: 'claude' },
-        },
-        {
-          id: 'meta-llama/llama-2-70b-chat',
-          name: 'Llama 2 70B Chat',
-          description: 'Meta Llama 2 70B Chat',
-          pricing: { prompt: 0.0007, completion: 0.0009 },
-          context_length: 4096,
-          architecture: { modality: 'text', tokenizer: 'llama' },
+      const response = await fetch('/api/llm-setup/models', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
         },
-      ];
-      setOpenRouterModels(popularModels);
+        body: JSON.stringify({ provider }),
+      });
+      const data: { models?: LLMModel[] } = await response.json();
+      const listed = data.models || [];
+      setModels(listed);
+      setSelectedModel(prev => prev || listed[0]?.id || '');
     } catch (error) {
-      console.error('Failed to fetch OpenRouter models:', error);
+      console.error(`Failed to fetch ${provider} models:`, error);
     } finally {
       setIsLoadingModels(false);
     }
-  }, [selectedProvider]);
+  }, []);
 
   useEffect(() => {
     fetchCurrentConfig();
+    getLLMProviders().then(setProviders);
   }, [fetchCurrentConfig]);
 
+  // Only the configured provider's key is at hand to list models with;
+  // other providers offer their well-known models
+  const configuredProvider = currentConfig?.provider;
   useEffect(() => {
-    if (selectedProvider === 'openrouter') {
-      fetchOpenRouterModels();
+    if (selectedProvider && selectedProvider === configuredProvider) {
+      fetchModels(selectedProvider);
+    } else {
+      setModels([]);
     }
-  }, [selectedProvider, fetchOpenRouterModels]);
+  }, [selectedProvider, configuredProvider, fetchModels]);
 
   const handleProviderChange = (provider: LLMProvider) => {
+    const info = providers.find(({ id }) => id === provider);
     setSelectedProvider(provider);
-    const defaultModel = PROVIDER_CONFIGS[provider].defaultModel;
-    setSelectedModel(defaultModel);
+    setSelectedModel(info?.defaultModel || info?.models[0] || '');
   };
 
   const handleModelChange = (model: string) => {
@@ -176,18 +158,15 @@ export function LLMSwitcher({ onProviderChange }: LLMSwitcherProps) {
     return null;
   }
 
-  const getAvailableModels = () => {
-    if (selectedProvider === 'openrouter' && openRouterModels.length > 0) {
-      return openRouterModels;
+  const getModelOptions = () => {
+    if (models.length > 0) {
+      return models.map(model => ({
+        id: model.id,
+        label: formatModelOption(model),
+      }));
     }
-    return PROVIDER_CONFIGS[selectedProvider].models.map(model => ({
-      id: model,
-      name: model,
-      description: model,
-      pricing: { prompt: 0, completion: 0 },
-      context_length: 0,
-      architecture: { modality: 'text', tokenizer: '' },
-    }));
+    const info = providers.find(({ id }) => id === selectedProvider);
+    return (info?.models || []).map(model => ({ id: model, label: model }));
   };
 
   return (
@@ -200,7 +179,7 @@ export function LLMSwitcher({ onProviderChange }: LLMSwitcherProps) {
         <div className="flex items-center space-x-2">
           <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
           <span className="font-medium">
-            {PROVIDER_CONFIGS[currentConfig.provider].name}
+            {formatProviderName(currentConfig.provider, providers)}
           </span>
           <span className="text-gray-500">•</span>
           <span className="text-gray-600 truncate max-w-32">
@@ -242,9 +221,18 @@ export function LLMSwitcher({ onProviderChange }: LLMSwitcherProps) {
                 }
                 className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
-                {Object.entries(PROVIDER_CONFIGS).map(([key, config]) => (
-                  <option key={key} value={key}>
-                    {config.name}
+                {providers.map(provider => (
+                  <option
+                    key={provider.id}
+                    value={provider.id}
+                    // Providers with a server or settings are set up first
+                    disabled={
+                      (provider.configurableBaseUrl ||
+                        Boolean(provider.settings?.length)) &&
+                      provider.id !== currentConfig.provider
+                    }
+                  >
+                    {provider.name}
                   </option>
                 ))}
               </select>
@@ -261,12 +249,9 @@ export function LLMSwitcher({ onProviderChange }: LLMSwitcherProps) {
                 className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
                 disabled={isLoadingModels}
               >
-                {getAvailableModels().map(model => (
+                {getModelOptions().map(model => (
                   <option key={model.id} value={model.id}>
-                    {selectedProvider === 'openrouter' &&
-                    model.pricing.prompt > 0
-                      ? `${model.name} - $${model.pricing.prompt}/1K tokens`
-                      : model.name}
+                    {model.label}
                   </option>
                 ))}
               </select>
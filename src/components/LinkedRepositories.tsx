@@ -0,0 +1,102 @@
+'use client';
+
+import { useState } from 'react';
+
+interface LinkedRepositoriesProps {
+  repository: string; // owner/repo of the thread
+  value: string[]; // Linked owner/repo names
+  maxRepositories: number; // Including the thread's repository
+  onChange: (repositories: string[]) => void;
+}
+
+export function LinkedRepositories({
+  repository,
+  value,
+  maxRepositories,
+  onChange,
+}: LinkedRepositoriesProps) {
+  const [draft, setDraft] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState('');
+
+  const canAdd = value.length + 1 < maxRepositories;
+
+  const addRepository = async () => {
+    const url = draft.trim();
+    if (!url) return;
+
+    setIsChecking(true);
+    setError('');
+    try {
+      // Confirm the repository exists and is readable before linking it
+      const response = await fetch(
+        `/api/repositories?url=${encodeURIComponent(url)}`
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Repository not found');
+      }
+
+      const name: string = data.full_name;
+      const isLinked = [repository, ...value].some(
+        existing => existing.toLowerCase() === name.toLowerCase()
+      );
+      if (!isLinked) {
+        onChange([...value, name]);
+      }
+      setDraft('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Repository not found');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 py-1 text-xs text-gray-500">
+      <span title="Questions search these repositories alongside this one">
+        🔗 Linked:
+      </span>
+      {value.map(name => (
+        <span
+          key={name}
+          className="inline-flex items-center space-x-1 px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full font-mono"
+        >
+          <span>{name}</span>
+          <button
+            onClick={() => onChange(value.filter(linked => linked !== name))}
+            className="text-gray-400 hover:text-gray-700"
+            title={`Unlink ${name}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      {canAdd && (
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') {
+              addRepository();
+            }
+          }}
+          disabled={isChecking}
+          placeholder="owner/repo"
+          title="Link a related repository, e.g. a shared SDK or API"
+          className="w-40 px-2 py-0.5 border border-gray-300 rounded font-mono text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      )}
+      {canAdd && draft.trim() && (
+        <button
+          onClick={addRepository}
+          disabled={isChecking}
+          className="text-blue-600 hover:text-blue-700 underline"
+        >
+          {isChecking ? 'Checking...' : 'Link'}
+        </button>
+      )}
+      {error && <span className="text-red-600">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from 'react';
+
+/**
+ * Issue an access token for using the app from MCP clients such as IDE
+ * agents, and show how to connect
+ */
+export function McpAccessToken() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [token, setToken] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const endpoint =
+    typeof window === 'undefined'
+      ? '/api/mcp/server'
+      : `${window.location.origin}/api/mcp/server`;
+
+  const issueToken = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const response = await fetch('/api/mcp/token', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to issue access token');
+      }
+      setToken(data.token);
+      setExpiresAt(data.expiresAt);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : 'Failed to issue access token'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const revokeTokens = async () => {
+    setIsLoading(true);
+    setError('');
+    setNotice('');
+    try {
+      const response = await fetch('/api/mcp/token', { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke access tokens');
+      }
+      setToken('');
+      setExpiresAt('');
+      setNotice(
+        data.revoked === 1
+          ? 'Revoked 1 access token.'
+          : `Revoked ${data.revoked} access tokens.`
+      );
+    } catch (error) {
+      setError(
+        error instanceof Error
+          ? error.message
+          : 'Failed to revoke access tokens'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-sm text-gray-500 hover:text-gray-700 transition-colors"
+        title="Use this app from your editor or IDE agent over MCP"
+      >
+        Connect IDE
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 p-4 bg-white border border-gray-200 rounded-md shadow-lg z-20 text-sm text-gray-700 space-y-3">
+          <p>
+            Add this MCP server to your editor to ask questions about
+            repositories from your IDE agent.
+          </p>
+          <div>
+            <div className="text-xs text-gray-500 mb-1">Server URL</div>
+            <code className="block p-2 bg-gray-50 rounded font-mono text-xs break-all">
+              {endpoint}
+            </code>
+          </div>
+
+          {token ? (
+            <div>
+              <div className="text-xs text-gray-500 mb-1">
+                Bearer token, valid until{' '}
+                {new Date(expiresAt).toLocaleDateString()}
+              </div>
+              <code className="block p-2 bg-gray-50 rounded font-mono text-xs break-all max-h-24 overflow-y-auto">
+                {token}
+              </code>
+              <button
+                onClick={() => navigator.clipboard.writeText(token)}
+                className="mt-2 text-blue-600 hover:text-blue-700 underline"
+              >
+                Copy token
+              </button>
+              <p className="mt-2 text-xs text-gray-500">
+                The token acts as you on GitHub and uses your AI provider key.
+                Keep it secret. Signing out revokes it.
+              </p>
+            </div>
+          ) : (
+            <button
+              onClick={issueToken}
+              disabled={isLoading}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white px-3 py-1 rounded-md font-medium transition-colors"
+            >
+              {isLoading ? 'Issuing...' : 'Issue access token'}
+            </button>
+          )}
+
+          <button
+            onClick={revokeTokens}
+            disabled={isLoading}
+            className="block text-xs text-red-600 hover:text-red-700 underline disabled:text-gray-400"
+          >
+            Revoke all my access tokens
+          </button>
+
+          {notice && <p className="text-green-700">{notice}</p>}
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,17 +5,28 @@ import { useState } from 'react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
 
+import { CodeReference, IssueReference } from '@/types/github';
+import {
+  createCitationPattern,
+  findCitationReference,
+  formatLineAnchor,
+  parseCitations,
+} from '@/utils/citationUtils';
+
 interface MessageRendererProps {
   content: string;
+  codeReferences?: CodeReference[]; // Validated citations for the answer
+  issueReferences?: IssueReference[]; // Issues and discussions cited as #123
   className?: string;
 }
 
 interface CodeBlockProps {
   code: string;
   language?: string;
+  startLine?: number; // Number lines from here, for snippets of a file
 }
 
-function CodeBlock({ code, language }: CodeBlockProps) {
+function CodeBlock({ code, language, startLine }: CodeBlockProps) {
   const [copied, setCopied] = useState(false);
 
   const handleCopy = async () => {
@@ -107,7 +118,8 @@ function CodeBlock({ code, language }: CodeBlockProps) {
             fontSize: '14px',
             lineHeight: '1.5',
           }}
-          showLineNumbers={code.split('\n').length > 5}
+          showLineNumbers={!!startLine || code.split('\n').length > 5}
+          startingLineNumber={startLine || 1}
           lineNumberStyle={{
             color: '#6b7280',
             fontSize: '12px',
@@ -130,8 +142,75 @@ function InlineCode({ children }: { children: string }) {
   );
 }
 
+interface CitationProps {
+  label: string;
+  reference?: CodeReference;
+}
+
+function Citation({ label, reference }: CitationProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (!reference) {
+    // Not (yet) validated against the fetched files
+    return (
+      <span
+        className="bg-gray-100 text-gray-500 px-1.5 py-0.5 rounded text-xs font-mono"
+        title="This citation could not be verified"
+      >
+        {label}
+      </span>
+    );
+  }
+
+  const extension = reference.file.split('.').pop();
+
+  return (
+    <span className="inline">
+      <span className="inline-flex items-center bg-blue-50 border border-blue-200 rounded text-xs font-mono">
+        <a
+          href={reference.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="px-1.5 py-0.5 text-blue-700 hover:text-blue-900 hover:underline"
+          title={
+            reference.repository
+              ? `Open in ${reference.repository} on GitHub`
+              : 'Open on GitHub'
+          }
+        >
+          {label}
+        </a>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="px-1 py-0.5 border-l border-blue-200 text-blue-600 hover:bg-blue-100"
+          title={isExpanded ? 'Hide snippet' : 'Show snippet'}
+        >
+          {isExpanded ? '▾' : '▸'}
+        </button>
+      </span>
+      {isExpanded && (
+        <span className="block">
+          <CodeBlock
+            code={reference.content}
+            language={extension}
+            startLine={reference.startLine}
+          />
+        </span>
+      )}
+    </span>
+  );
+}
+
+const ISSUE_KIND_LABELS: Record<IssueReference['kind'], string> = {
+  issue: 'Issue',
+  pull: 'Pull request',
+  discussion: 'Discussion',
+};
+
 export function MessageRenderer({
   content,
+  codeReferences,
+  issueReferences,
   className = '',
 }: MessageRendererProps) {
   // Parse markdown-like content
@@ -214,10 +293,12 @@ export function MessageRenderer({
         parts.push(<br key={`br-${lineIndex}`} />);
       }
 
-      // Parse URLs and file paths
+      // Parse citations, URLs and file paths
+      const citationRegex = createCitationPattern();
       const urlRegex = /(https?:\/\/[^\s]+)/g;
       const filePathRegex = /(\w+\/[\w\/.-]+\.\w+)/g;
 
+      let citationMatch: RegExpExecArray | null;
       let urlMatch: RegExpExecArray | null;
       let fileMatch: RegExpExecArray | null;
       const specialParts: {
@@ -226,6 +307,28 @@ export function MessageRenderer({
         element: React.ReactNode;
       }[] = [];
 
+      // Find citations
+      while ((citationMatch = citationRegex.exec(line)) !== null) {
+        const [citation] = parseCitations(citationMatch[0]);
+        const reference = codeReferences
+          ? findCitationReference(citation, codeReferences)
+          : undefined;
+        specialParts.push({
+          index: citationMatch.index,
+          length: citationMatch[0].length,
+          element: (
+            <Citation
+              key={`cite-${lineIndex}-${citationMatch.index}`}
+              label={`${citation.path}${formatLineAnchor(
+                reference?.startLine ?? citation.startLine,
+                reference?.endLine ?? citation.endLine
+              )}`}
+              reference={reference}
+            />
+          ),
+        });
+      }
+
       // Find URLs
       while ((urlMatch = urlRegex.exec(line)) !== null) {
         specialParts.push({
@@ -245,7 +348,42 @@ export function MessageRenderer({
         });
       }
 
-      // Find file paths (only if no URLs overlap)
+      // Find issue citations (#123) among the threads the answer used
+      if (issueReferences?.length) {
+        const issueRegex = /(^|[^\w&/])#(\d+)\b/g;
+        let issueMatch: RegExpExecArray | null;
+        while ((issueMatch = issueRegex.exec(line)) !== null) {
+          const reference = issueReferences.find(
+            issue => issue.number === Number(issueMatch![2])
+          );
+          const index = issueMatch.index + issueMatch[1].length;
+          const length = issueMatch[0].length - issueMatch[1].length;
+          const overlaps = specialParts.some(
+            part =>
+              index < part.index + part.length && index + length > part.index
+          );
+          if (!reference || overlaps) continue;
+
+          specialParts.push({
+            index,
+            length,
+            element: (
+              <a
+                key={`issue-${lineIndex}-${index}`}
+                href={reference.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="bg-purple-50 border border-purple-200 text-purple-700 hover:text-purple-900 px-1.5 py-0.5 rounded text-xs font-mono"
+                title={`${ISSUE_KIND_LABELS[reference.kind]} (${reference.state}): ${reference.title}`}
+              >
+                #{reference.number}
+              </a>
+            ),
+          });
+        }
+      }
+
+      // Find file paths (only if no citations or URLs overlap)
       while ((fileMatch = filePathRegex.exec(line)) !== null) {
         const overlaps = specialParts.some(
           part =>
@@ -0,0 +1,49 @@
+'use client';
+
+import { PullRequestSummary } from '@/types/github';
+
+interface PullRequestInfoProps {
+  pullRequest: PullRequestSummary;
+}
+
+const STATE_STYLES: Record<PullRequestSummary['state'], string> = {
+  open: 'bg-green-100 text-green-800',
+  draft: 'bg-gray-100 text-gray-700',
+  merged: 'bg-purple-100 text-purple-800',
+  closed: 'bg-red-100 text-red-800',
+};
+
+export function PullRequestInfo({ pullRequest }: PullRequestInfoProps) {
+  return (
+    <div className="flex items-center justify-between py-1 text-xs">
+      <div className="flex items-center space-x-2 min-w-0">
+        <span
+          className={`px-2 py-0.5 rounded-full font-medium capitalize ${STATE_STYLES[pullRequest.state]}`}
+        >
+          {pullRequest.state}
+        </span>
+        <a
+          href={pullRequest.html_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="font-medium text-gray-900 hover:text-blue-600 truncate"
+        >
+          #{pullRequest.number} {pullRequest.title}
+        </a>
+      </div>
+      <div className="flex items-center space-x-3 text-gray-600 flex-shrink-0 ml-3">
+        <span>
+          {pullRequest.author} wants to merge{' '}
+          <code className="text-gray-800">{pullRequest.head}</code> into{' '}
+          <code className="text-gray-800">{pullRequest.base}</code>
+        </span>
+        <span>
+          {pullRequest.changed_files} file
+          {pullRequest.changed_files === 1 ? '' : 's'}
+        </span>
+        <span className="text-green-700">+{pullRequest.additions}</span>
+        <span className="text-red-700">-{pullRequest.deletions}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface RateLimitIndicatorProps {
+  refreshKey?: number; // Change to refetch, e.g. after each answer
+}
+
+interface ResourceQuota {
+  resource: string;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+const RESOURCE_LABELS: Record<string, string> = {
+  core: 'API',
+  search: 'search',
+  code_search: 'code search',
+};
+
+export function RateLimitIndicator({ refreshKey }: RateLimitIndicatorProps) {
+  const [resources, setResources] = useState<ResourceQuota[]>([]);
+
+  useEffect(() => {
+    const fetchRateLimits = async () => {
+      try {
+        const response = await fetch('/api/rate-limit');
+        if (response.ok) {
+          const data = await response.json();
+          setResources(data.resources || []);
+        }
+      } catch (error) {
+        console.error('Failed to fetch GitHub rate limits:', error);
+      }
+    };
+
+    fetchRateLimits();
+  }, [refreshKey]);
+
+  if (resources.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center justify-center space-x-3 text-xs text-gray-500">
+      <span>⏱️ GitHub quota:</span>
+      {resources.map(quota => {
+        const isLow = quota.limit > 0 && quota.remaining / quota.limit < 0.1;
+        return (
+          <span
+            key={quota.resource}
+            className={isLow ? 'text-amber-600 font-medium' : undefined}
+            title={`Resets at ${new Date(quota.resetAt).toLocaleTimeString()}`}
+          >
+            {RESOURCE_LABELS[quota.resource] || quota.resource}{' '}
+            {quota.remaining.toLocaleString()}/{quota.limit.toLocaleString()}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { getGitHubWebUrl } from '@/utils/githubHost';
+
+interface RefSelectorProps {
+  repository: string; // owner/repo
+  defaultBranch?: string;
+  value?: string;
+  onChange: (ref: string | undefined) => void;
+}
+
+export function RefSelector({
+  repository,
+  defaultBranch,
+  value,
+  onChange,
+}: RefSelectorProps) {
+  const [branches, setBranches] = useState<string[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [draft, setDraft] = useState(value || '');
+
+  useEffect(() => {
+    setDraft(value || '');
+  }, [value]);
+
+  useEffect(() => {
+    const fetchRefs = async () => {
+      try {
+        const repositoryUrl = `${getGitHubWebUrl()}/${repository}`;
+        const response = await fetch(
+          `/api/repositories/refs?url=${encodeURIComponent(repositoryUrl)}`
+        );
+        if (response.ok) {
+          const data = await response.json();
+          setBranches(data.branches || []);
+          setTags(data.tags || []);
+        }
+      } catch (error) {
+        console.error('Failed to fetch branches and tags:', error);
+      }
+    };
+
+    fetchRefs();
+  }, [repository]);
+
+  const commit = () => {
+    const ref = draft.trim();
+    // The default branch is what an unpinned thread uses anyway
+    const next = ref && ref !== defaultBranch ? ref : undefined;
+    if (next !== value) {
+      onChange(next);
+    }
+  };
+
+  const listId = `refs-${repository.replace('/', '-')}`;
+
+  return (
+    <div className="flex items-center justify-center space-x-2 text-xs text-gray-500">
+      <label htmlFor={`${listId}-input`}>🌿 Ref:</label>
+      <input
+        id={`${listId}-input`}
+        list={listId}
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => {
+          if (e.key === 'Enter') {
+            commit();
+          }
+        }}
+        placeholder={defaultBranch || 'default branch'}
+        title="Branch, tag or commit SHA to answer against"
+        className="w-40 px-2 py-0.5 border border-gray-300 rounded font-mono text-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+      />
+      <datalist id={listId}>
+        {branches.map(branch => (
+          <option key={`branch-${branch}`} value={branch}>
+            Branch
+          </option>
+        ))}
+        {tags.map(tag => (
+          <option key={`tag-${tag}`} value={tag}>
+            Tag
+          </option>
+        ))}
+      </datalist>
+      {value && (
+        <button
+          onClick={() => onChange(undefined)}
+          className="text-blue-600 hover:text-blue-700 underline"
+        >
+          Reset
+        </button>
+      )}
+    </div>
+  );
+}
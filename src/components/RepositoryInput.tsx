@@ -1,7 +1,9 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 
+import { RepositorySuggestion } from '@/types/github';
+import { getGitHubHost, getGitHubWebUrl } from '@/utils/githubHost';
 import { isValidGitHubUrl } from '@/utils/githubUtils';
 
 interface RepositoryInputProps {
@@ -10,6 +12,40 @@ interface RepositoryInputProps {
   error?: string;
 }
 
+const GROUP_LABELS: Record<RepositorySuggestion['group'], string> = {
+  owned: 'Your repositories',
+  organization: 'Your organizations',
+  starred: 'Starred',
+  search: `Search results on ${getGitHubHost()}`,
+};
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Whether the input is a pasted URL rather than a name to search for
+ */
+function isUrlInput(value: string): boolean {
+  return (
+    /^(https?:\/\/|git@)/i.test(value) || value.startsWith(getGitHubHost())
+  );
+}
+
+function formatUpdated(updatedAt: string): string {
+  const days = Math.floor(
+    (Date.now() - new Date(updatedAt).getTime()) / (1000 * 60 * 60 * 24)
+  );
+
+  if (days === 0) return 'Updated today';
+  if (days === 1) return 'Updated yesterday';
+  if (days < 30) return `Updated ${days} days ago`;
+  return `Updated ${new Date(updatedAt).toLocaleDateString()}`;
+}
+
+function formatStars(stars: number): string {
+  return stars >= 1000 ? `${(stars / 1000).toFixed(1)}k` : stars.toString();
+}
+
 export function RepositoryInput({
   onRepositorySubmit,
   isLoading = false,
@@ -17,6 +53,73 @@ export function RepositoryInput({
 }: RepositoryInputProps) {
   const [url, setUrl] = useState('');
   const [validationError, setValidationError] = useState('');
+  const [suggestions, setSuggestions] = useState<RepositorySuggestion[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Suggest repositories while a name is typed; pasted URLs are left alone
+  useEffect(() => {
+    const query = url.trim();
+    if (!showSuggestions || isUrlInput(query)) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const response = await fetch(
+          `/api/repositories/search?q=${encodeURIComponent(query)}`,
+          { signal: controller.signal }
+        );
+        if (response.ok) {
+          const data = await response.json();
+          setSuggestions(data.repositories || []);
+          setActiveIndex(-1);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Failed to search repositories:', error);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [url, showSuggestions]);
+
+  const selectSuggestion = (suggestion: RepositorySuggestion) => {
+    setUrl(suggestion.html_url);
+    setShowSuggestions(false);
+    setValidationError('');
+    onRepositorySubmit(suggestion.html_url);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions || suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index =>
+        index <= 0 ? suggestions.length - 1 : index - 1
+      );
+    } else if (e.key === 'Enter' && activeIndex >= 0) {
+      e.preventDefault();
+      selectSuggestion(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -32,12 +135,14 @@ export function RepositoryInput({
     }
 
     setValidationError('');
+    setShowSuggestions(false);
     onRepositorySubmit(url.trim());
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newUrl = e.target.value;
     setUrl(newUrl);
+    setShowSuggestions(true);
 
     // Clear validation error when user starts typing
     if (validationError) {
@@ -55,22 +160,101 @@ export function RepositoryInput({
             htmlFor="repository-url"
             className="block text-sm font-medium text-gray-300 mb-2"
           >
-            GitHub Repository URL
+            GitHub Repository URL or name
           </label>
           <div className="flex space-x-3">
-            <input
-              id="repository-url"
-              type="text"
-              value={url}
-              onChange={handleInputChange}
-              placeholder="https://github.com/owner/repository"
-              disabled={isLoading}
-              className={`flex-1 px-4 py-3 bg-gray-800 border rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 transition-colors ${
-                displayError
-                  ? 'border-red-500 focus:ring-red-500'
-                  : 'border-gray-600 focus:ring-blue-500'
-              } ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
-            />
+            <div className="relative flex-1">
+              <input
+                id="repository-url"
+                type="text"
+                value={url}
+                onChange={handleInputChange}
+                onFocus={() => setShowSuggestions(true)}
+                onBlur={() => setShowSuggestions(false)}
+                onKeyDown={handleKeyDown}
+                placeholder={`Search your repositories or paste ${getGitHubWebUrl()}/owner/repository`}
+                disabled={isLoading}
+                autoComplete="off"
+                role="combobox"
+                aria-expanded={showSuggestions && suggestions.length > 0}
+                aria-controls="repository-suggestions"
+                className={`w-full px-4 py-3 bg-gray-800 border rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 transition-colors ${
+                  displayError
+                    ? 'border-red-500 focus:ring-red-500'
+                    : 'border-gray-600 focus:ring-blue-500'
+                } ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+              />
+              {showSuggestions &&
+                !isUrlInput(url.trim()) &&
+                (suggestions.length > 0 || isSearching) && (
+                  <ul
+                    id="repository-suggestions"
+                    role="listbox"
+                    className="absolute z-20 mt-1 w-full max-h-96 overflow-y-auto bg-gray-800 border border-gray-600 rounded-lg shadow-lg text-left"
+                  >
+                    {isSearching && suggestions.length === 0 && (
+                      <li className="px-4 py-3 text-sm text-gray-400">
+                        Searching...
+                      </li>
+                    )}
+                    {suggestions.map((suggestion, index) => (
+                      <li
+                        key={suggestion.full_name}
+                        role="option"
+                        aria-selected={index === activeIndex}
+                      >
+                        {(index === 0 ||
+                          suggestions[index - 1].group !==
+                            suggestion.group) && (
+                          <div className="px-4 pt-2 pb-1 text-xs font-medium uppercase tracking-wide text-gray-500">
+                            {GROUP_LABELS[suggestion.group]}
+                          </div>
+                        )}
+                        <button
+                          type="button"
+                          // Select before the input's blur hides the list
+                          onMouseDown={e => {
+                            e.preventDefault();
+                            selectSuggestion(suggestion);
+                          }}
+                          onMouseEnter={() => setActiveIndex(index)}
+                          className={`w-full px-4 py-2 text-left ${
+                            index === activeIndex ? 'bg-gray-700' : ''
+                          }`}
+                        >
+                          <div className="flex items-center space-x-2">
+                            <span className="text-sm font-medium text-white truncate">
+                              {suggestion.full_name}
+                            </span>
+                            {suggestion.private && (
+                              <span className="px-1.5 py-0.5 text-xs border border-gray-500 text-gray-300 rounded-full">
+                                Private
+                              </span>
+                            )}
+                          </div>
+                          {suggestion.description && (
+                            <div className="text-xs text-gray-400 truncate">
+                              {suggestion.description}
+                            </div>
+                          )}
+                          <div className="flex items-center space-x-3 mt-0.5 text-xs text-gray-500">
+                            {suggestion.language && (
+                              <span className="flex items-center space-x-1">
+                                <span className="w-2 h-2 bg-blue-500 rounded-full"></span>
+                                <span>{suggestion.language}</span>
+                              </span>
+                            )}
+                            <span>
+                              ★ {formatStars(suggestion.stargazers_count)}
+                            </span>
+                            <span>{formatUpdated(suggestion.updated_at)}</span>
+                          </div>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+            </div>
             <button
               type="submit"
               disabled={isLoading || !url.trim()}
@@ -121,11 +305,18 @@ export function RepositoryInput({
         )}
 
         <div className="text-sm text-gray-400">
-          <p className="mb-2">Supported URL formats:</p>
+          <p className="mb-2">
+            Type a name to search your own, organization and starred
+            repositories and all of {getGitHubHost()}, or paste a URL:
+          </p>
           <ul className="space-y-1 text-xs">
-            <li>• https://github.com/owner/repository</li>
-            <li>• https://github.com/owner/repository.git</li>
-            <li>• git@github.com:owner/repository.git</li>
+            <li>• {getGitHubWebUrl()}/owner/repository</li>
+            <li>• {getGitHubWebUrl()}/owner/repository.git</li>
+            <li>
+              • {getGitHubWebUrl()}/owner/repository/pull/123 (review a pull
+              request)
+            </li>
+            <li>• git@{getGitHubHost()}:owner/repository.git</li>
           </ul>
         </div>
       </form>
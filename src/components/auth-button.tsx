@@ -1,6 +1,8 @@
 'use client';
 
-import { signIn, signOut, useSession } from 'next-auth/react';
+import { signIn, useSession } from 'next-auth/react';
+
+import { signOutAndRevokeAccess } from '@/utils/signOut';
 
 export function AuthButton() {
   const { data: session, status } = useSession();
@@ -32,7 +34,7 @@ export function AuthButton() {
           <span className="text-sm font-medium">{session.user?.name}</span>
         </div>
         <button
-          onClick={() => signOut()}
+          onClick={signOutAndRevokeAccess}
           className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
         >
           Sign out
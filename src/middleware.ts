@@ -16,6 +16,9 @@ export const config = {
   matcher: [
     '/dashboard/:path*',
     '/api/query/:path*',
+    '/api/index/:path*',
+    '/api/cache/:path*',
+    '/api/rate-limit/:path*',
     '/api/repositories/:path*',
   ],
 };
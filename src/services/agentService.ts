@@ -0,0 +1,550 @@
+/**
+ * Agent Service - Lets the LLM drive GitHub exploration through tool calls
+ *
+ * Instead of pre-fetching a fixed bundle of context, the model is given the
+ * GitHub service functions as LangChain tools and iteratively opens files,
+ * searches code and follows imports until it can answer.
+ */
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  SystemMessage,
+  ToolMessage,
+} from '@langchain/core/messages';
+import { StructuredToolInterface, tool } from '@langchain/core/tools';
+
+import { ToolTraceEvent } from '@/types/query';
+import { CITATION_INSTRUCTIONS, addLineNumbers } from '@/utils/citationUtils';
+import { truncateToTokens } from '@/utils/tokenUtils';
+
+import {
+  GitHubConfig,
+  getBlame,
+  getCommit,
+  getFileContents,
+  getIssue,
+  getPullRequestFiles,
+  getRepositoryTree,
+  listCommits,
+  listIssueComments,
+  searchCode,
+  searchIssues,
+} from './mcpService';
+
+export interface AgentOptions {
+  ref?: string; // Branch, tag or commit SHA to explore
+  maxSteps?: number;
+  extraTools?: StructuredToolInterface[]; // e.g. from connected MCP servers
+  onToolEvent?: (event: ToolTraceEvent) => void;
+  onToken?: (token: string) => void;
+}
+
+export interface AgentResult {
+  answer: string;
+  visitedFiles: Array<{ path: string; content: string; relevance: string }>;
+  trace: ToolTraceEvent[];
+}
+
+export const DEFAULT_AGENT_MAX_STEPS = 8;
+export const MAX_AGENT_STEPS = 20;
+
+const MAX_TOOL_OUTPUT_TOKENS = 3000;
+const MAX_TREE_ENTRIES = 400;
+
+/**
+ * Read a tool call's arguments, which arrive untyped from the model
+ */
+function readArgs(input: unknown): Record<string, unknown> {
+  return typeof input === 'object' && input !== null
+    ? (input as Record<string, unknown>)
+    : {};
+}
+
+function stringArg(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function numberArg(
+  args: Record<string, unknown>,
+  key: string
+): number | undefined {
+  const value = Number(args[key]);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : undefined;
+}
+
+/**
+ * Build the set of repository tools available to the agent
+ */
+export function createRepositoryTools(
+  owner: string,
+  repo: string,
+  config: GitHubConfig,
+  visitedFiles: Map<string, string>,
+  ref?: string
+): StructuredToolInterface[] {
+  const getFileContentsTool = tool(
+    async (input: unknown) => {
+      const args = readArgs(input);
+      const path = stringArg(args, 'path');
+      if (!path) return 'Error: "path" is required';
+
+      const result = await getFileContents(owner, repo, path, config, ref);
+      if (result.error || !result.result) {
+        return `Error: ${result.error?.message || 'File not found'}`;
+      }
+
+      if (result.result.skipped) {
+        return result.result.content;
+      }
+
+      visitedFiles.set(path, result.result.content);
+      return truncateToTokens(
+        addLineNumbers(result.result.content),
+        MAX_TOOL_OUTPUT_TOKENS
+      );
+    },
+    {
+      name: 'getFileContents',
+      description:
+        'Read the contents of a file in the repository, with line numbers. Use paths exactly as they appear in the tree or search results.',
+      schema: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'File path from repo root' },
+        },
+        required: ['path'],
+      },
+    }
+  );
+
+  const searchCodeTool = tool(
+    async (input: unknown) => {
+      const query = stringArg(readArgs(input), 'query');
+      if (!query) return 'Error: "query" is required';
+
+      const result = await searchCode(query, config, owner, repo);
+      if (result.error) return `Error: ${result.error.message}`;
+
+      const items = result.result?.items || [];
+      if (items.length === 0) return 'No matches found';
+      return items.map(item => `${item.path} (score ${item.score})`).join('\n');
+    },
+    {
+      name: 'searchCode',
+      description:
+        'Keyword search across the repository code. Returns matching file paths.',
+      schema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Keywords or identifiers' },
+        },
+        required: ['query'],
+      },
+    }
+  );
+
+  const getRepositoryTreeTool = tool(
+    async (input: unknown) => {
+      const prefix = stringArg(readArgs(input), 'pathPrefix');
+
+      const result = await getRepositoryTree(owner, repo, config, ref);
+      if (result.error) return `Error: ${result.error.message}`;
+
+      const entries = (result.result?.tree || []).filter(
+        item => !prefix || item.path.startsWith(prefix)
+      );
+      const listing = entries
+        .slice(0, MAX_TREE_ENTRIES)
+        .map(item => (item.type === 'tree' ? `${item.path}/` : item.path))
+        .join('\n');
+
+      return entries.length > MAX_TREE_ENTRIES
+        ? `${listing}\n... ${entries.length - MAX_TREE_ENTRIES} more entries (narrow with pathPrefix)`
+        : listing || 'No entries found';
+    },
+    {
+      name: 'getRepositoryTree',
+      description:
+        'List files and directories in the repository, optionally under a path prefix.',
+      schema: {
+        type: 'object',
+        properties: {
+          pathPrefix: {
+            type: 'string',
+            description: 'Only list entries under this path, e.g. "src/"',
+          },
+        },
+      },
+    }
+  );
+
+  const listCommitsTool = tool(
+    async (input: unknown) => {
+      const args = readArgs(input);
+      const result = await listCommits(owner, repo, config, {
+        sha: ref,
+        path: stringArg(args, 'path') || undefined,
+        per_page: Math.min(numberArg(args, 'limit') || 10, 30),
+      });
+      if (result.error) return `Error: ${result.error.message}`;
+
+      return (result.result || [])
+        .map(
+          commit =>
+            `${commit.sha.substring(0, 7)} ${commit.commit.author.date} ${commit.commit.author.name}: ${commit.commit.message.split('\n')[0]}`
+        )
+        .join('\n');
+    },
+    {
+      name: 'listCommits',
+      description:
+        'List recent commits, optionally limited to those touching a path.',
+      schema: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'File or directory path' },
+          limit: { type: 'number', description: 'Max commits (up to 30)' },
+        },
+      },
+    }
+  );
+
+  const getCommitTool = tool(
+    async (input: unknown) => {
+      const sha = stringArg(readArgs(input), 'sha');
+      if (!sha) return 'Error: "sha" is required';
+
+      const result = await getCommit(owner, repo, sha, config);
+      if (result.error || !result.result) {
+        return `Error: ${result.error?.message || 'Commit not found'}`;
+      }
+
+      const commit = result.result;
+      const files = (commit.files || [])
+        .map(
+          file =>
+            `--- ${file.filename} (${file.status}, +${file.additions}/-${file.deletions})\n${file.patch || ''}`
+        )
+        .join('\n');
+
+      return truncateToTokens(
+        `${commit.sha} by ${commit.commit.author.name} on ${commit.commit.author.date}\n${commit.commit.message}\n\n${files}`,
+        MAX_TOOL_OUTPUT_TOKENS
+      );
+    },
+    {
+      name: 'getCommit',
+      description: 'Show a commit message and its diff.',
+      schema: {
+        type: 'object',
+        properties: {
+          sha: { type: 'string', description: 'Commit SHA' },
+        },
+        required: ['sha'],
+      },
+    }
+  );
+
+  const getBlameTool = tool(
+    async (input: unknown) => {
+      const args = readArgs(input);
+      const path = stringArg(args, 'path');
+      if (!path) return 'Error: "path" is required';
+
+      const result = await getBlame(owner, repo, path, ref || 'HEAD', config);
+      if (result.error) return `Error: ${result.error.message}`;
+
+      const startLine = numberArg(args, 'startLine') || 1;
+      const endLine = numberArg(args, 'endLine') || Number.MAX_SAFE_INTEGER;
+      return truncateToTokens(
+        (result.result || [])
+          .filter(
+            range => range.endLine >= startLine && range.startLine <= endLine
+          )
+          .map(
+            range =>
+              `L${range.startLine}-L${range.endLine}: ${range.sha.substring(0, 7)} ${range.date} ${range.author}: ${range.message}`
+          )
+          .join('\n'),
+        MAX_TOOL_OUTPUT_TOKENS
+      );
+    },
+    {
+      name: 'getBlame',
+      description:
+        'Show which commit last changed each line range of a file, optionally limited to a range of lines.',
+      schema: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'File path from repo root' },
+          startLine: { type: 'number', description: 'First line of interest' },
+          endLine: { type: 'number', description: 'Last line of interest' },
+        },
+        required: ['path'],
+      },
+    }
+  );
+
+  const getPullRequestFilesTool = tool(
+    async (input: unknown) => {
+      const pullNumber = numberArg(readArgs(input), 'pullNumber');
+      if (!pullNumber) return 'Error: "pullNumber" is required';
+
+      const result = await getPullRequestFiles(owner, repo, pullNumber, config);
+      if (result.error) return `Error: ${result.error.message}`;
+
+      return truncateToTokens(
+        (result.result || [])
+          .map(
+            file =>
+              `--- ${file.filename} (${file.status}, +${file.additions}/-${file.deletions})\n${file.patch || ''}`
+          )
+          .join('\n'),
+        MAX_TOOL_OUTPUT_TOKENS
+      );
+    },
+    {
+      name: 'getPullRequestFiles',
+      description: 'Show the files and patches changed by a pull request.',
+      schema: {
+        type: 'object',
+        properties: {
+          pullNumber: { type: 'number', description: 'Pull request number' },
+        },
+        required: ['pullNumber'],
+      },
+    }
+  );
+
+  const searchIssuesTool = tool(
+    async (input: unknown) => {
+      const query = stringArg(readArgs(input), 'query');
+      if (!query) return 'Error: "query" is required';
+
+      const result = await searchIssues(owner, repo, query, config, {
+        per_page: 10,
+      });
+      if (result.error) return `Error: ${result.error.message}`;
+
+      const items = result.result?.items || [];
+      if (items.length === 0) return 'No matching issues or pull requests';
+      return items
+        .map(
+          issue =>
+            `#${issue.number} [${issue.pull_request ? 'pull request' : 'issue'}, ${issue.state}] ${issue.title}`
+        )
+        .join('\n');
+    },
+    {
+      name: 'searchIssues',
+      description:
+        'Search the issues and pull requests of the repository by keyword. Useful for finding why something was built or changed.',
+      schema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Keywords' },
+        },
+        required: ['query'],
+      },
+    }
+  );
+
+  const getIssueTool = tool(
+    async (input: unknown) => {
+      const issueNumber = numberArg(readArgs(input), 'number');
+      if (!issueNumber) return 'Error: "number" is required';
+
+      const [issue, comments] = await Promise.all([
+        getIssue(owner, repo, issueNumber, config),
+        listIssueComments(owner, repo, issueNumber, config),
+      ]);
+      if (issue.error || !issue.result) {
+        return `Error: ${issue.error?.message || 'Issue not found'}`;
+      }
+
+      const { title, state, body, user } = issue.result;
+      const thread = (comments.result || [])
+        .map(comment => `${comment.user?.login || 'ghost'}: ${comment.body}`)
+        .join('\n\n');
+      return truncateToTokens(
+        `#${issueNumber} (${state}) by ${user?.login || 'ghost'}: ${title}\n${body || ''}\n\n${thread}`,
+        MAX_TOOL_OUTPUT_TOKENS
+      );
+    },
+    {
+      name: 'getIssue',
+      description:
+        'Read an issue or pull request conversation, including its comments. Cite it in the answer as #number.',
+      schema: {
+        type: 'object',
+        properties: {
+          number: {
+            type: 'number',
+            description: 'Issue or pull request number',
+          },
+        },
+        required: ['number'],
+      },
+    }
+  );
+
+  return [
+    getFileContentsTool,
+    searchCodeTool,
+    getRepositoryTreeTool,
+    listCommitsTool,
+    getCommitTool,
+    getBlameTool,
+    getPullRequestFilesTool,
+    searchIssuesTool,
+    getIssueTool,
+  ];
+}
+
+/**
+ * Clamp a requested step limit into the supported range
+ */
+export function normalizeMaxSteps(maxSteps?: number): number {
+  if (!maxSteps || !Number.isFinite(maxSteps)) {
+    return DEFAULT_AGENT_MAX_STEPS;
+  }
+  return Math.min(Math.max(Math.floor(maxSteps), 1), MAX_AGENT_STEPS);
+}
+
+/**
+ * Run the tool-calling loop until the model answers or the step limit is hit
+ */
+export async function runRepositoryAgent(
+  query: string,
+  repository: { owner: string; repo: string },
+  historyMessages: BaseMessage[],
+  llm: BaseChatModel,
+  config: GitHubConfig,
+  options: AgentOptions = {}
+): Promise<AgentResult> {
+  if (!llm.bindTools) {
+    throw new Error('The configured model does not support tool calling');
+  }
+
+  const maxSteps = normalizeMaxSteps(options.maxSteps);
+  const visitedFiles = new Map<string, string>();
+  const tools = [
+    ...createRepositoryTools(
+      repository.owner,
+      repository.repo,
+      config,
+      visitedFiles,
+      options.ref
+    ),
+    ...(options.extraTools || []),
+  ];
+  const toolsByName = new Map(tools.map(t => [t.name, t]));
+  const llmWithTools = llm.bindTools(tools);
+  const trace: ToolTraceEvent[] = [];
+
+  const emit = (event: ToolTraceEvent) => {
+    trace.push(event);
+    options.onToolEvent?.(event);
+  };
+
+  const messages: BaseMessage[] = [
+    new SystemMessage(`You are an expert software developer exploring the GitHub repository "${repository.owner}/${repository.repo}".
+
+Use the available tools to find the code that answers the user's question. Start from the repository tree or a code search, open the most relevant files and follow imports as needed. For questions about when or why code changed, use the commit log, commit diffs and blame.${options.extraTools?.length ? ' Tools whose description starts with a [server] tag come from other services connected to this app; use them when the question goes beyond the repository.' : ''} Stop calling tools as soon as you have enough information.
+
+When answering:
+1. Reference specific files and line numbers
+2. Include short code snippets to illustrate points
+3. Only describe code you have actually read
+4. Name commits by short SHA, author and date when citing history
+
+${CITATION_INSTRUCTIONS}
+
+Format your response clearly with markdown.`),
+    ...historyMessages,
+    new HumanMessage(query),
+  ];
+
+  let answer = '';
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const response = (await llmWithTools.invoke(messages)) as AIMessage;
+    messages.push(response);
+
+    const toolCalls = response.tool_calls || [];
+    if (toolCalls.length === 0) {
+      answer = response.text;
+      break;
+    }
+
+    for (const call of toolCalls) {
+      const callId = call.id || `${call.name}-${step}`;
+      const selectedTool = toolsByName.get(call.name);
+
+      emit({ step, tool: call.name, input: call.args, status: 'started' });
+
+      let output: string;
+      try {
+        output = selectedTool
+          ? String(await selectedTool.invoke(call.args))
+          : `Error: Unknown tool "${call.name}"`;
+        emit({
+          step,
+          tool: call.name,
+          input: call.args,
+          status: output.startsWith('Error:') ? 'failed' : 'completed',
+          summary: output.split('\n')[0].substring(0, 120),
+        });
+      } catch (error) {
+        output = `Error: ${error instanceof Error ? error.message : 'Tool failed'}`;
+        emit({
+          step,
+          tool: call.name,
+          input: call.args,
+          status: 'failed',
+          summary: output,
+        });
+      }
+
+      messages.push(new ToolMessage({ content: output, tool_call_id: callId }));
+    }
+  }
+
+  if (answer) {
+    options.onToken?.(answer);
+  } else {
+    // Step limit reached: ask for a final answer without further tool use
+    messages.push(
+      new HumanMessage(
+        'You have reached the exploration step limit. Answer the original question now using only the information gathered so far, and mention anything you could not verify.'
+      )
+    );
+
+    // Tools stay bound because some providers reject tool history without them
+    if (options.onToken) {
+      const stream = await llmWithTools.stream(messages);
+      for await (const chunk of stream) {
+        const token = chunk.text;
+        if (token) {
+          answer += token;
+          options.onToken(token);
+        }
+      }
+    } else {
+      answer = (await llmWithTools.invoke(messages)).text;
+    }
+  }
+
+  return {
+    answer,
+    visitedFiles: Array.from(visitedFiles.entries()).map(([path, content]) => ({
+      path,
+      content,
+      relevance: 'Opened by agent',
+    })),
+    trace,
+  };
+}
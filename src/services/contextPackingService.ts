@@ -0,0 +1,212 @@
+/**
+ * Context Packing Service - Fits repository context into a model's window
+ *
+ * Renders the repository tree as a compact outline that is only expanded
+ * along the paths of relevant files, then fills the remaining token budget
+ * with the README and code files in relevance order. Anything truncated or
+ * left out is reported so the answer can say what it did not see.
+ */
+import { ContextReport } from '@/types/query';
+import { estimateTokens, truncateToTokens } from '@/utils/tokenUtils';
+
+export interface PackableFile {
+  path: string;
+  content: string;
+  relevance: string;
+}
+
+export interface PackedContext {
+  readme?: string;
+  outline?: string;
+  codeFiles: PackableFile[]; // Content may be truncated
+  report: ContextReport;
+}
+
+export interface PackingOptions {
+  contextLength: number; // Model context window in tokens
+  reservedTokens: number; // Prompt text, history and the response
+}
+
+type TreeEntry = { path: string; type: string; size?: number };
+
+interface OutlineNode {
+  name: string;
+  isDirectory: boolean;
+  fileCount: number;
+  children: Map<string, OutlineNode>;
+}
+
+// Shares of the available budget
+const OUTLINE_SHARE = 0.1;
+const README_SHARE = 0.15;
+const MAX_FILE_SHARE = 0.4;
+// Below this a truncated file is not worth including
+const MIN_FILE_TOKENS = 200;
+// Entries listed per directory before the rest are summarised
+const MAX_OUTLINE_CHILDREN = 25;
+
+function createNode(name: string, isDirectory: boolean): OutlineNode {
+  return { name, isDirectory, fileCount: 0, children: new Map() };
+}
+
+function buildOutlineTree(tree: TreeEntry[]): OutlineNode {
+  const root = createNode('', true);
+
+  tree
+    .filter(entry => entry.type === 'blob')
+    .forEach(entry => {
+      const parts = entry.path.split('/');
+      let node = root;
+      root.fileCount++;
+
+      parts.forEach((part, index) => {
+        const isDirectory = index < parts.length - 1;
+        let child = node.children.get(part);
+        if (!child) {
+          child = createNode(part, isDirectory);
+          node.children.set(part, child);
+        }
+        if (isDirectory) child.fileCount++;
+        node = child;
+      });
+    });
+
+  return root;
+}
+
+/**
+ * Render the tree as an indented outline. Top-level entries are always
+ * listed; deeper directories are only expanded on the way to a focus path
+ * and otherwise collapse to "dir/ (N files)".
+ */
+export function renderTreeOutline(
+  tree: TreeEntry[],
+  focusPaths: string[] = []
+): string {
+  const root = buildOutlineTree(tree);
+  const expanded = new Set<string>();
+  focusPaths.forEach(focusPath => {
+    const parts = focusPath.split('/');
+    for (let i = 1; i < parts.length; i++) {
+      expanded.add(parts.slice(0, i).join('/'));
+    }
+  });
+
+  const lines: string[] = [];
+
+  const renderNode = (node: OutlineNode, prefix: string, depth: number) => {
+    const children = Array.from(node.children.values()).sort((a, b) =>
+      a.isDirectory === b.isDirectory
+        ? a.name.localeCompare(b.name)
+        : a.isDirectory
+          ? -1
+          : 1
+    );
+    const indent = '  '.repeat(depth);
+
+    children.slice(0, MAX_OUTLINE_CHILDREN).forEach(child => {
+      const childPath = prefix ? `${prefix}/${child.name}` : child.name;
+      if (!child.isDirectory) {
+        lines.push(`${indent}${child.name}`);
+      } else if (expanded.has(childPath)) {
+        lines.push(`${indent}${child.name}/`);
+        renderNode(child, childPath, depth + 1);
+      } else {
+        lines.push(
+          `${indent}${child.name}/ (${child.fileCount} file${child.fileCount === 1 ? '' : 's'})`
+        );
+      }
+    });
+
+    if (children.length > MAX_OUTLINE_CHILDREN) {
+      lines.push(
+        `${indent}... ${children.length - MAX_OUTLINE_CHILDREN} more entries`
+      );
+    }
+  };
+
+  renderNode(root, '', 0);
+  return lines.join('\n');
+}
+
+/**
+ * Fit the README, tree outline and code files into the token budget left
+ * after the reserved tokens. Files are taken in the order given, which is
+ * expected to be most relevant first.
+ */
+export function packRepositoryContext(
+  context: {
+    readme?: string;
+    codeFiles: PackableFile[];
+    structure?: { tree: TreeEntry[] };
+  },
+  options: PackingOptions
+): PackedContext {
+  const budgetTokens = Math.max(
+    0,
+    options.contextLength - options.reservedTokens
+  );
+  let remaining = budgetTokens;
+  const truncated: string[] = [];
+  const dropped: string[] = [];
+
+  let outline: string | undefined;
+  if (context.structure?.tree?.length) {
+    outline = truncateToTokens(
+      renderTreeOutline(
+        context.structure.tree,
+        context.codeFiles.map(file => file.path)
+      ),
+      Math.floor(budgetTokens * OUTLINE_SHARE)
+    );
+    remaining -= estimateTokens(outline);
+  }
+
+  let readme: string | undefined;
+  if (context.readme) {
+    const readmeBudget = Math.min(
+      remaining,
+      Math.floor(budgetTokens * README_SHARE)
+    );
+    if (readmeBudget >= MIN_FILE_TOKENS) {
+      readme = truncateToTokens(context.readme, readmeBudget);
+      if (readme !== context.readme) truncated.push('README.md');
+      remaining -= estimateTokens(readme);
+    } else {
+      dropped.push('README.md');
+    }
+  }
+
+  const fileBudget = remaining;
+  const codeFiles: PackableFile[] = [];
+
+  context.codeFiles.forEach(file => {
+    const allowance = Math.min(
+      remaining,
+      Math.max(MIN_FILE_TOKENS, Math.floor(fileBudget * MAX_FILE_SHARE))
+    );
+    if (allowance < MIN_FILE_TOKENS) {
+      dropped.push(file.path);
+      return;
+    }
+
+    const content = truncateToTokens(file.content, allowance);
+    if (content !== file.content) truncated.push(file.path);
+    remaining -= estimateTokens(content);
+    codeFiles.push({ ...file, content });
+  });
+
+  return {
+    readme,
+    outline,
+    codeFiles,
+    report: {
+      contextLength: options.contextLength,
+      budgetTokens,
+      usedTokens: budgetTokens - remaining,
+      includedFiles: codeFiles.length,
+      truncated,
+      dropped,
+    },
+  };
+}
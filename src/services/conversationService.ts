@@ -0,0 +1,163 @@
+/**
+ * Conversation Service - Turns a thread's prior messages into chat history
+ *
+ * Recent turns are replayed verbatim. Older turns that no longer fit the
+ * token budget are condensed into a summary so long threads still fit the
+ * model's context window. History never contains system messages: callers
+ * lead with their own, and Anthropic and Gemini reject any after the first.
+ */
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  SystemMessage,
+} from '@langchain/core/messages';
+
+import { ConversationTurn } from '@/types/query';
+import { estimateTokens, truncateToTokens } from '@/utils/tokenUtils';
+
+export interface HistoryOptions {
+  tokenBudget?: number; // Budget for verbatim recent turns
+  summaryInputBudget?: number; // Budget for the turns sent to the summariser
+}
+
+const DEFAULT_HISTORY_TOKEN_BUDGET = 4000;
+const DEFAULT_SUMMARY_INPUT_BUDGET = 6000;
+const MAX_HISTORY_TURNS = 100;
+const MAX_TURN_TOKENS_IN_SUMMARY = 500;
+
+/**
+ * Validate untrusted history from a request body
+ */
+export function sanitizeHistory(history: unknown): ConversationTurn[] {
+  if (!Array.isArray(history)) {
+    return [];
+  }
+
+  return history
+    .filter(
+      (turn): turn is ConversationTurn =>
+        typeof turn === 'object' &&
+        turn !== null &&
+        (turn.role === 'user' || turn.role === 'assistant') &&
+        typeof turn.content === 'string' &&
+        turn.content.trim().length > 0
+    )
+    .slice(-MAX_HISTORY_TURNS)
+    .map(turn => ({ role: turn.role, content: turn.content }));
+}
+
+/**
+ * Split history into older turns (to summarise) and recent turns that fit
+ * within the token budget, walking backwards from the latest turn
+ */
+export function splitHistoryByBudget(
+  history: ConversationTurn[],
+  tokenBudget: number
+): { older: ConversationTurn[]; recent: ConversationTurn[] } {
+  let usedTokens = 0;
+  let splitIndex = history.length;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const turnTokens = estimateTokens(history[i].content);
+    if (usedTokens + turnTokens > tokenBudget) {
+      break;
+    }
+    usedTokens += turnTokens;
+    splitIndex = i;
+  }
+
+  return {
+    older: history.slice(0, splitIndex),
+    recent: history.slice(splitIndex),
+  };
+}
+
+/**
+ * Condense older turns into a short summary using the configured LLM
+ */
+export async function summarizeTurns(
+  turns: ConversationTurn[],
+  llm: BaseChatModel,
+  inputBudget: number = DEFAULT_SUMMARY_INPUT_BUDGET
+): Promise<string> {
+  // Keep the most recent of the older turns when they exceed the input budget
+  const { recent: summarisable } = splitHistoryByBudget(
+    turns.map(turn => ({
+      ...turn,
+      content: truncateToTokens(turn.content, MAX_TURN_TOKENS_IN_SUMMARY),
+    })),
+    inputBudget
+  );
+
+  const transcript = summarisable
+    .map(
+      turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`
+    )
+    .join('\n\n');
+
+  const response = await llm.invoke([
+    new SystemMessage(
+      'Summarise the following conversation about a code repository. Keep file paths, function names, decisions and open questions. Respond with the summary only, in under 200 words.'
+    ),
+    new HumanMessage(transcript),
+  ]);
+
+  return typeof response.content === 'string' ? response.content.trim() : '';
+}
+
+/**
+ * Build LangChain chat history from a thread's prior turns. The summary of
+ * older turns is replayed as the assistant's answer to a request for one.
+ */
+export async function buildConversationMessages(
+  history: ConversationTurn[],
+  llm: BaseChatModel,
+  options: HistoryOptions = {}
+): Promise<BaseMessage[]> {
+  if (history.length === 0) {
+    return [];
+  }
+
+  const { older, recent } = splitHistoryByBudget(
+    history,
+    options.tokenBudget ?? DEFAULT_HISTORY_TOKEN_BUDGET
+  );
+
+  // Summarise replies cut off from their question so roles keep alternating
+  while (older.length > 0 && recent[0]?.role === 'assistant') {
+    older.push(recent.shift() as ConversationTurn);
+  }
+
+  const messages: BaseMessage[] = [];
+
+  if (older.length > 0) {
+    try {
+      const summary = await summarizeTurns(
+        older,
+        llm,
+        options.summaryInputBudget
+      );
+      if (summary) {
+        messages.push(
+          new HumanMessage('Summarise our earlier conversation.'),
+          new AIMessage(`Summary of earlier conversation:\n${summary}`)
+        );
+      }
+    } catch (error) {
+      // Losing old context is better than failing the whole question
+      console.warn('Failed to summarise earlier conversation:', error);
+    }
+  }
+
+  recent.forEach(turn => {
+    messages.push(
+      turn.role === 'user'
+        ? new HumanMessage(turn.content)
+        : new AIMessage(turn.content)
+    );
+  });
+
+  return messages;
+}
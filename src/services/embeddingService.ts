@@ -0,0 +1,129 @@
+/**
+ * Embedding Service - Turns code chunks and queries into vectors
+ *
+ * Uses the configured provider's embedding API where one exists and falls
+ * back to a deterministic local embedder, which also makes indexing
+ * testable offline (set EMBEDDINGS_PROVIDER=local).
+ */
+import { OpenAIEmbeddings } from '@langchain/openai';
+
+import { LLMProvider } from '@/types/llm';
+
+export interface Embedder {
+  id: string; // Stored with the index so vectors are only compared within one model
+  embedDocuments: (texts: string[]) => Promise<number[][]>;
+  embedQuery: (text: string) => Promise<number[]>;
+}
+
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+const LOCAL_EMBEDDING_DIMENSIONS = 512;
+
+/**
+ * Split source text into lowercase identifier parts
+ * (camelCase, snake_case and kebab-case are broken up)
+ */
+export function tokenizeCode(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1);
+}
+
+/**
+ * FNV-1a string hash
+ */
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+/**
+ * Embed text with the hashing trick: each identifier part is hashed into a
+ * fixed-size bucket. No network access required.
+ */
+export function embedLocally(
+  text: string,
+  dimensions: number = LOCAL_EMBEDDING_DIMENSIONS
+): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+
+  tokenizeCode(text).forEach(token => {
+    const hash = hashToken(token);
+    const sign = hash & 1 ? 1 : -1;
+    vector[hash % dimensions] += sign;
+  });
+
+  return normalizeVector(vector);
+}
+
+export function createLocalEmbedder(
+  dimensions: number = LOCAL_EMBEDDING_DIMENSIONS
+): Embedder {
+  return {
+    id: `local-hash-${dimensions}`,
+    embedDocuments: async texts =>
+      texts.map(text => embedLocally(text, dimensions)),
+    embedQuery: async text => embedLocally(text, dimensions),
+  };
+}
+
+export function createOpenAIEmbedder(apiKey: string): Embedder {
+  const embeddings = new OpenAIEmbeddings({
+    apiKey,
+    model: OPENAI_EMBEDDING_MODEL,
+  });
+
+  return {
+    id: `openai-${OPENAI_EMBEDDING_MODEL}`,
+    embedDocuments: texts => embeddings.embedDocuments(texts),
+    embedQuery: text => embeddings.embedQuery(text),
+  };
+}
+
+/**
+ * Pick an embedder for the user's configured provider
+ */
+export function createEmbedder(llmConfig: {
+  provider: LLMProvider;
+  apiKey: string;
+}): Embedder {
+  if (process.env.EMBEDDINGS_PROVIDER === 'local') {
+    return createLocalEmbedder();
+  }
+
+  switch (llmConfig.provider) {
+    case 'openai':
+      return createOpenAIEmbedder(llmConfig.apiKey);
+    default:
+      // Anthropic and OpenRouter do not offer an embeddings API, and
+      // self-hosted servers may not serve an embedding model
+      return createLocalEmbedder();
+  }
+}
+
+/**
+ * Cosine similarity of two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
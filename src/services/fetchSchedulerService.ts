@@ -0,0 +1,114 @@
+/**
+ * Fetch Scheduler Service - Bounded concurrency with per-request deadlines
+ *
+ * GitHub requests made while gathering context run in parallel, but only a
+ * few at a time per token so one question cannot trigger GitHub's abuse
+ * limits. Each request is aborted once its deadline passes, so a single
+ * slow file does not hold up the answer.
+ *
+ * GITHUB_FETCH_CONCURRENCY and GITHUB_FETCH_TIMEOUT_MS override the
+ * defaults.
+ */
+import { getTokenScope } from './rateLimitService';
+
+export interface FetchScheduler {
+  run: <T>(
+    task: (signal: AbortSignal) => Promise<T>,
+    deadlineMs?: number
+  ) => Promise<T>;
+  stats: () => { active: number; queued: number };
+}
+
+const DEFAULT_CONCURRENCY = 6;
+const DEFAULT_DEADLINE_MS = 15_000;
+
+const DEADLINE_ERROR_NAME = 'DeadlineExceededError';
+
+// One scheduler per token, so users do not queue behind each other
+const schedulers = new Map<string, FetchScheduler>();
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getDefaultDeadlineMs(): number {
+  return readPositiveInt(
+    process.env.GITHUB_FETCH_TIMEOUT_MS,
+    DEFAULT_DEADLINE_MS
+  );
+}
+
+/**
+ * Whether an error came from a task running past its deadline
+ */
+export function isDeadlineExceeded(error: unknown): boolean {
+  return error instanceof Error && error.name === DEADLINE_ERROR_NAME;
+}
+
+export function createFetchScheduler(
+  concurrency: number = DEFAULT_CONCURRENCY
+): FetchScheduler {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const acquire = (): Promise<void> => {
+    if (active < concurrency) {
+      active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve =>
+      queue.push(() => {
+        active++;
+        resolve();
+      })
+    );
+  };
+
+  const release = () => {
+    active--;
+    queue.shift()?.();
+  };
+
+  return {
+    run: async (task, deadlineMs = getDefaultDeadlineMs()) => {
+      await acquire();
+
+      // The deadline starts when the task runs, not while it is queued
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), deadlineMs);
+
+      try {
+        return await task(controller.signal);
+      } catch (error) {
+        if (controller.signal.aborted) {
+          const deadlineError = new Error(
+            `Request exceeded its ${Math.round(deadlineMs / 1000)}s deadline`
+          );
+          deadlineError.name = DEADLINE_ERROR_NAME;
+          throw deadlineError;
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+        release();
+      }
+    },
+    stats: () => ({ active, queued: queue.length }),
+  };
+}
+
+/**
+ * The shared scheduler for a token
+ */
+export function getFetchScheduler(token: string): FetchScheduler {
+  const scope = getTokenScope(token);
+  let scheduler = schedulers.get(scope);
+  if (!scheduler) {
+    scheduler = createFetchScheduler(
+      readPositiveInt(process.env.GITHUB_FETCH_CONCURRENCY, DEFAULT_CONCURRENCY)
+    );
+    schedulers.set(scope, scheduler);
+  }
+  return scheduler;
+}
@@ -0,0 +1,231 @@
+/**
+ * GitHub App Service - Installation tokens for organisation repositories
+ *
+ * Organisations can install the GitHub App on selected repositories instead
+ * of users granting the broad `repo` OAuth scope. For an installed
+ * repository, a short-lived, read-only installation token is used, but
+ * only after checking that the signed-in user is a collaborator, so the
+ * app never exposes a repository to someone who could not see it anyway.
+ *
+ * Configure with GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY (PEM).
+ */
+import { createSign } from 'crypto';
+
+import { getGitHubApiUrl } from '@/utils/githubHost';
+
+interface InstallationToken {
+  token: string;
+  expiresAt: number; // Epoch ms
+}
+
+interface Installation {
+  id: number;
+  permissions: Record<string, string>; // Granted to the app, e.g. issues: 'read'
+}
+
+interface CachedCheck<T> {
+  value: T;
+  checkedAt: number;
+}
+
+// Refresh installation tokens this long before GitHub expires them
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// How long installation and collaborator lookups are trusted
+const CHECK_TTL_MS = 10 * 60 * 1000;
+// Read access the app is asked for: code, plus pull requests for review
+// mode and issues, pull requests and discussions as context sources
+const READ_PERMISSIONS = [
+  'contents',
+  'metadata',
+  'pull_requests',
+  'issues',
+  'discussions',
+];
+
+const installations = new Map<string, CachedCheck<Installation | null>>();
+const installationTokens = new Map<string, InstallationToken>();
+const collaboratorChecks = new Map<string, CachedCheck<boolean>>();
+
+export function isGitHubAppConfigured(): boolean {
+  return !!process.env.GITHUB_APP_ID && !!process.env.GITHUB_APP_PRIVATE_KEY;
+}
+
+function base64Url(input: string | Buffer): string {
+  return Buffer.from(input)
+    .toString('base64')
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_');
+}
+
+/**
+ * Sign a short-lived JWT that authenticates as the app itself
+ */
+export function createAppJwt(now: number = Date.now()): string {
+  const issuedAt = Math.floor(now / 1000) - 60; // Allow for clock drift
+  const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const payload = base64Url(
+    JSON.stringify({
+      iat: issuedAt,
+      exp: issuedAt + 9 * 60,
+      iss: process.env.GITHUB_APP_ID,
+    })
+  );
+
+  // Keys stored in env files often have escaped newlines
+  const privateKey = (process.env.GITHUB_APP_PRIVATE_KEY || '').replace(
+    /\\n/g,
+    '\n'
+  );
+  const signature = createSign('RSA-SHA256')
+    .update(`${header}.${payload}`)
+    .sign(privateKey);
+
+  return `${header}.${payload}.${base64Url(signature)}`;
+}
+
+async function githubRequest<T>(
+  path: string,
+  token: string,
+  init: RequestInit = {}
+): Promise<{ status: number; data?: T }> {
+  const response = await fetch(`${getGitHubApiUrl()}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      Accept: 'application/vnd.github+json',
+      'User-Agent': 'GitHub-Developer-Wiki',
+      ...init.headers,
+    },
+  });
+
+  if (!response.ok) {
+    return { status: response.status };
+  }
+  return {
+    status: response.status,
+    data: response.status === 204 ? undefined : ((await response.json()) as T),
+  };
+}
+
+function isFresh<T>(
+  check: CachedCheck<T> | undefined
+): check is CachedCheck<T> {
+  return !!check && Date.now() - check.checkedAt < CHECK_TTL_MS;
+}
+
+/**
+ * Find the app installation covering a repository, if any
+ */
+async function getInstallation(
+  owner: string,
+  repo: string
+): Promise<Installation | null> {
+  const key = `${owner}/${repo}`.toLowerCase();
+  const cached = installations.get(key);
+  if (isFresh(cached)) return cached.value;
+
+  const { data } = await githubRequest<Installation>(
+    `/repos/${owner}/${repo}/installation`,
+    createAppJwt()
+  );
+  const installation = data
+    ? { id: data.id, permissions: data.permissions || {} }
+    : null;
+  installations.set(key, { value: installation, checkedAt: Date.now() });
+  return installation;
+}
+
+/**
+ * Read-only installation token scoped to a single repository. Only
+ * permissions the installation was granted are requested, as GitHub
+ * refuses the token if any other is asked for.
+ */
+async function getInstallationToken(
+  installation: Installation,
+  repo: string
+): Promise<string | null> {
+  const key = `${installation.id}/${repo}`.toLowerCase();
+  const cached = installationTokens.get(key);
+  if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+    return cached.token;
+  }
+
+  const { data } = await githubRequest<{ token: string; expires_at: string }>(
+    `/app/installations/${installation.id}/access_tokens`,
+    createAppJwt(),
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        repositories: [repo],
+        permissions: Object.fromEntries(
+          READ_PERMISSIONS.filter(
+            permission => installation.permissions[permission]
+          ).map(permission => [permission, 'read'])
+        ),
+      }),
+    }
+  );
+  if (!data) return null;
+
+  installationTokens.set(key, {
+    token: data.token,
+    expiresAt: new Date(data.expires_at).getTime(),
+  });
+  return data.token;
+}
+
+/**
+ * Whether a user can see a repository (directly, via a team or as an
+ * organisation member)
+ */
+async function isCollaborator(
+  installationToken: string,
+  owner: string,
+  repo: string,
+  login: string
+): Promise<boolean> {
+  const key = `${owner}/${repo}/${login}`.toLowerCase();
+  const cached = collaboratorChecks.get(key);
+  if (isFresh(cached)) return cached.value;
+
+  const { status } = await githubRequest(
+    `/repos/${owner}/${repo}/collaborators/${encodeURIComponent(login)}`,
+    installationToken
+  );
+  const allowed = status === 204;
+  collaboratorChecks.set(key, { value: allowed, checkedAt: Date.now() });
+  return allowed;
+}
+
+/**
+ * Pick the token to read a repository with: an installation token when the
+ * app is installed on it and the user is a collaborator, otherwise the
+ * user's own OAuth token
+ */
+export async function getRepositoryToken(
+  owner: string,
+  repo: string,
+  user: { accessToken: string; login?: string }
+): Promise<string> {
+  if (!isGitHubAppConfigured() || !user.login) {
+    return user.accessToken;
+  }
+
+  try {
+    const installation = await getInstallation(owner, repo);
+    if (!installation) return user.accessToken;
+
+    const installationToken = await getInstallationToken(installation, repo);
+    if (
+      installationToken &&
+      (await isCollaborator(installationToken, owner, repo, user.login))
+    ) {
+      return installationToken;
+    }
+  } catch (error) {
+    console.warn(`GitHub App token unavailable for ${owner}/${repo}:`, error);
+  }
+
+  return user.accessToken;
+}
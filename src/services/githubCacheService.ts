@@ -0,0 +1,191 @@
+/**
+ * GitHub Cache Service - Server-side cache for GitHub API responses
+ *
+ * Entries are keyed by endpoint and a hash of the token (so one user's
+ * private data is never served to another). Endpoints pinned to a commit
+ * SHA never change and are served straight from the cache; everything
+ * else is revalidated with If-None-Match, and 304 responses do not count
+ * against GitHub's rate limit.
+ *
+ * GITHUB_CACHE_BACKEND selects "memory" (default), "filesystem" or "none".
+ */
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { getTokenScope } from './rateLimitService';
+
+export interface CacheEntry {
+  etag?: string;
+  data: unknown;
+  storedAt: number;
+}
+
+export interface CacheBackend {
+  name: string;
+  get: (key: string) => Promise<CacheEntry | undefined>;
+  set: (key: string, entry: CacheEntry) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export interface CacheMetrics {
+  backend: string;
+  hits: number; // Served without a request
+  revalidated: number; // 304 Not Modified
+  misses: number;
+  stores: number;
+}
+
+const DEFAULT_MEMORY_ENTRIES = 500;
+
+// A full 40-character SHA in the path or query means immutable content
+const COMMIT_SHA_PATTERN = /(^|[/=])[0-9a-f]{40}([/?&]|$)/i;
+
+/**
+ * In-memory cache evicting the least recently used entry
+ */
+export function createMemoryCacheBackend(
+  maxEntries: number = DEFAULT_MEMORY_ENTRIES
+): CacheBackend {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    name: 'memory',
+    get: async key => {
+      const entry = entries.get(key);
+      if (entry) {
+        // Re-insert to mark as most recently used
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set: async (key, entry) => {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+    delete: async key => {
+      entries.delete(key);
+    },
+    clear: async () => {
+      entries.clear();
+    },
+  };
+}
+
+/**
+ * Filesystem cache that survives restarts, one JSON file per entry
+ */
+export function createFileCacheBackend(
+  dir: string = process.env.GITHUB_CACHE_DIR ||
+    path.join(os.tmpdir(), 'githubpedia-cache')
+): CacheBackend {
+  const filePath = (key: string) => path.join(dir, `${key}.json`);
+
+  return {
+    name: 'filesystem',
+    get: async key => {
+      try {
+        return JSON.parse(
+          await fs.readFile(filePath(key), 'utf8')
+        ) as CacheEntry;
+      } catch {
+        return undefined;
+      }
+    },
+    set: async (key, entry) => {
+      try {
+        await fs.mkdir(dir, { recursive: true });
+        await fs.writeFile(filePath(key), JSON.stringify(entry));
+      } catch (error) {
+        console.warn('Failed to write GitHub cache entry:', error);
+      }
+    },
+    delete: async key => {
+      await fs.rm(filePath(key), { force: true });
+    },
+    clear: async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+function createBackendFromEnv(): CacheBackend | null {
+  switch (process.env.GITHUB_CACHE_BACKEND) {
+    case 'none':
+      return null;
+    case 'filesystem':
+      return createFileCacheBackend();
+    default:
+      return createMemoryCacheBackend();
+  }
+}
+
+let backend: CacheBackend | null | undefined;
+const metrics = { hits: 0, revalidated: 0, misses: 0, stores: 0 };
+
+/**
+ * The active cache backend, or null when caching is disabled
+ */
+export function getCacheBackend(): CacheBackend | null {
+  if (backend === undefined) {
+    backend = createBackendFromEnv();
+  }
+  return backend;
+}
+
+/**
+ * Replace the cache backend (null disables caching)
+ */
+export function setCacheBackend(next: CacheBackend | null): void {
+  backend = next;
+}
+
+/**
+ * Cache key for an endpoint as seen by a given token
+ */
+export function createCacheKey(endpoint: string, token: string): string {
+  return createHash('sha256')
+    .update(`${getTokenScope(token)}:${endpoint}`)
+    .digest('hex');
+}
+
+/**
+ * Whether a response can be reused without revalidation
+ */
+export function isImmutableEndpoint(endpoint: string): boolean {
+  return COMMIT_SHA_PATTERN.test(endpoint);
+}
+
+export function recordCacheEvent(
+  event: 'hit' | 'revalidated' | 'miss' | 'store'
+): void {
+  switch (event) {
+    case 'hit':
+      metrics.hits++;
+      break;
+    case 'revalidated':
+      metrics.revalidated++;
+      break;
+    case 'miss':
+      metrics.misses++;
+      break;
+    case 'store':
+      metrics.stores++;
+      break;
+  }
+}
+
+export function getCacheMetrics(): CacheMetrics {
+  return {
+    backend: getCacheBackend()?.name || 'none',
+    ...metrics,
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * History Service - Commit history and blame for "when" and "why" questions
+ *
+ * Questions about how code changed over time cannot be answered from the
+ * current files alone. For those, the commit log of the relevant paths,
+ * the diffs of the most recent commits and blame ranges are fetched so the
+ * answer can cite commits by SHA and author.
+ */
+import { truncateToTokens } from '@/utils/tokenUtils';
+
+import {
+  BlameRange,
+  GitHubConfig,
+  getBlame,
+  getCommit,
+  listCommits,
+} from './mcpService';
+
+export interface HistoryCommit {
+  sha: string;
+  author: string;
+  date: string;
+  message: string;
+  url: string;
+  patches: Array<{ filename: string; patch: string }>; // Relevant paths only
+}
+
+export interface HistoryContext {
+  commits: HistoryCommit[];
+  blame: Array<{ path: string; ranges: BlameRange[] }>;
+}
+
+// Paths whose history is looked up, most relevant first
+const MAX_HISTORY_PATHS = 3;
+const COMMITS_PER_PATH = 5;
+const MAX_COMMITS = 8;
+// Commits whose diffs are fetched
+const MAX_COMMIT_DIFFS = 4;
+const MAX_PATCH_TOKENS = 600;
+const MAX_BLAME_PATHS = 2;
+const MAX_BLAME_RANGES = 40;
+
+const HISTORY_QUESTION_PATTERNS = [
+  /\bwhen (was|were|did|has|have)\b/i,
+  /\bwhy (was|were|did|is|does)\b.*\b(change|add|remov|introduc|rewr|refactor|renam|switch|replac)/i,
+  /\bhistory\b/i,
+  /\b(who|which commit)\b.*\b(wrote|added|changed|introduced|removed|broke)\b/i,
+  /\bblame\b/i,
+  /\b(last|recent(ly)?|latest)\b.*\b(change|commit|update|modif)/i,
+  /\b(changed|introduced|regress(ed|ion)?)\b.*\b(since|over time|recently)\b/i,
+  /\bcommits?\b/i,
+];
+
+/**
+ * Whether a question is about how the code changed over time
+ */
+export function isHistoryQuestion(query: string): boolean {
+  return HISTORY_QUESTION_PATTERNS.some(pattern => pattern.test(query));
+}
+
+/**
+ * Merge adjacent ranges last changed by the same commit
+ */
+function mergeBlameRanges(ranges: BlameRange[]): BlameRange[] {
+  return ranges.reduce<BlameRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && last.sha === range.sha && last.endLine + 1 >= range.startLine) {
+      last.endLine = Math.max(last.endLine, range.endLine);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Fetch the commit log, recent diffs and blame for the given paths
+ */
+export async function getHistoryContext(
+  owner: string,
+  repo: string,
+  paths: string[],
+  config: GitHubConfig,
+  ref: string
+): Promise<HistoryContext> {
+  const historyPaths = paths.slice(0, MAX_HISTORY_PATHS);
+  // Without relevant files, fall back to the repository-wide log
+  const logPaths = historyPaths.length > 0 ? historyPaths : [undefined];
+
+  const [logs, blame] = await Promise.all([
+    Promise.all(
+      logPaths.map(path =>
+        listCommits(owner, repo, config, {
+          sha: ref,
+          path,
+          per_page: COMMITS_PER_PATH,
+        })
+      )
+    ),
+    Promise.all(
+      historyPaths.slice(0, MAX_BLAME_PATHS).map(async path => {
+        const result = await getBlame(owner, repo, path, ref, config);
+        // Keep the most recently changed ranges, in line order
+        const ranges = mergeBlameRanges(result.result || [])
+          .sort((a, b) => b.date.localeCompare(a.date))
+          .slice(0, MAX_BLAME_RANGES)
+          .sort((a, b) => a.startLine - b.startLine);
+        return { path, ranges };
+      })
+    ),
+  ]);
+
+  // One log per path; keep each commit once, newest first
+  const uniqueCommits = new Map(
+    logs
+      .flatMap(log => log.result || [])
+      .map(commit => [commit.sha, commit] as const)
+  );
+  const recentCommits = Array.from(uniqueCommits.values())
+    .sort((a, b) => b.commit.author.date.localeCompare(a.commit.author.date))
+    .slice(0, MAX_COMMITS);
+
+  const details = await Promise.all(
+    recentCommits
+      .slice(0, MAX_COMMIT_DIFFS)
+      .map(commit => getCommit(owner, repo, commit.sha, config))
+  );
+
+  const commits = recentCommits.map((commit, index) => ({
+    sha: commit.sha,
+    author: commit.commit.author.name,
+    date: commit.commit.author.date,
+    message: commit.commit.message,
+    url: commit.html_url,
+    patches: (details[index]?.result?.files || [])
+      .filter(
+        file =>
+          file.patch &&
+          (historyPaths.length === 0 || historyPaths.includes(file.filename))
+      )
+      .map(file => ({
+        filename: file.filename,
+        patch: truncateToTokens(file.patch!, MAX_PATCH_TOKENS),
+      })),
+  }));
+
+  return {
+    commits,
+    blame: blame.filter(file => file.ranges.length > 0),
+  };
+}
+
+/**
+ * Render the history for the prompt, within a token budget
+ */
+export function formatHistoryContext(
+  history: HistoryContext,
+  maxTokens: number
+): string {
+  const commits = history.commits
+    .map(commit => {
+      const diffs = commit.patches
+        .map(file => `--- ${file.filename}\n${file.patch}`)
+        .join('\n');
+      return `Commit ${commit.sha.substring(0, 7)} by ${commit.author} on ${commit.date.substring(0, 10)}
+${commit.message.trim()}${diffs ? `\n\`\`\`diff\n${diffs}\n\`\`\`` : ''}`;
+    })
+    .join('\n\n');
+
+  const blame = history.blame
+    .map(
+      file =>
+        `Blame for ${file.path}:\n${file.ranges
+          .map(
+            range =>
+              `L${range.startLine}-L${range.endLine}: ${range.sha.substring(0, 7)} ${range.author} ${range.date.substring(0, 10)} "${range.message}"`
+          )
+          .join('\n')}`
+    )
+    .join('\n\n');
+
+  return truncateToTokens(
+    [
+      commits && `Recent commits touching the relevant files:\n\n${commits}`,
+      blame,
+    ]
+      .filter(Boolean)
+      .join('\n\n'),
+    maxTokens
+  );
+}
@@ -0,0 +1,432 @@
+/**
+ * Index Service - Persistent per-commit code index for semantic retrieval
+ *
+ * Source files are chunked, embedded and stored on the local filesystem,
+ * keyed by repository, commit SHA and embedder. Queries are embedded with
+ * the same embedder and ranked by cosine similarity.
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { getSkipReasonForPath } from '@/utils/fileUtils';
+
+import { Embedder, cosineSimilarity } from './embeddingService';
+import {
+  GitHubConfig,
+  SemanticMatch,
+  getFileContents,
+  getRepositoryTree,
+  resolveCommitSha,
+} from './mcpService';
+
+export interface IndexedChunk {
+  path: string;
+  startLine: number;
+  endLine: number;
+  vector: number[];
+}
+
+export interface CodeIndex {
+  owner: string;
+  repo: string;
+  sha: string;
+  embedderId: string;
+  createdAt: string;
+  fileCount: number;
+  chunks: IndexedChunk[];
+}
+
+export interface CodeChunk {
+  path: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+}
+
+export interface IndexBuildOptions {
+  maxFiles?: number;
+  maxFileSize?: number;
+  chunkLines?: number;
+  chunkOverlap?: number;
+}
+
+const DEFAULT_MAX_FILES = 300;
+const DEFAULT_MAX_FILE_SIZE = 100_000;
+const DEFAULT_CHUNK_LINES = 60;
+const DEFAULT_CHUNK_OVERLAP = 10;
+const EMBEDDING_BATCH_SIZE = 64;
+
+const INDEXABLE_EXTENSIONS = [
+  '.ts',
+  '.tsx',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+  '.py',
+  '.go',
+  '.rs',
+  '.java',
+  '.kt',
+  '.rb',
+  '.php',
+  '.cs',
+  '.c',
+  '.h',
+  '.cpp',
+  '.hpp',
+  '.swift',
+  '.scala',
+  '.vue',
+  '.svelte',
+  '.md',
+];
+
+const EXCLUDED_PATH_PARTS = [
+  'node_modules/',
+  'vendor/',
+  'dist/',
+  'build/',
+  '.min.',
+];
+
+// Loaded indexes, keyed by file path
+const indexCache = new Map<string, CodeIndex>();
+
+function getIndexRoot(): string {
+  return (
+    process.env.CODE_INDEX_DIR || path.join(os.tmpdir(), 'githubpedia-index')
+  );
+}
+
+function sanitizeSegment(value: string): string {
+  return value.replace(/[^a-zA-Z0-9._-]/g, '_');
+}
+
+function getRepositoryIndexDir(owner: string, repo: string): string {
+  return path.join(
+    getIndexRoot(),
+    `${sanitizeSegment(owner)}__${sanitizeSegment(repo)}`
+  );
+}
+
+function getIndexFilePath(
+  owner: string,
+  repo: string,
+  sha: string,
+  embedderId: string
+): string {
+  return path.join(
+    getRepositoryIndexDir(owner, repo),
+    `${sanitizeSegment(sha)}__${sanitizeSegment(embedderId)}.json`
+  );
+}
+
+/**
+ * Decide whether a tree entry is worth indexing
+ */
+export function isIndexablePath(
+  filePath: string,
+  size: number = 0,
+  maxFileSize: number = DEFAULT_MAX_FILE_SIZE
+): boolean {
+  const lowerPath = filePath.toLowerCase();
+  return (
+    size <= maxFileSize &&
+    INDEXABLE_EXTENSIONS.some(ext => lowerPath.endsWith(ext)) &&
+    !EXCLUDED_PATH_PARTS.some(part => lowerPath.includes(part)) &&
+    !getSkipReasonForPath(filePath)
+  );
+}
+
+/**
+ * Split a file into overlapping line-based chunks
+ */
+export function chunkFile(
+  filePath: string,
+  content: string,
+  chunkLines: number = DEFAULT_CHUNK_LINES,
+  overlap: number = DEFAULT_CHUNK_OVERLAP
+): CodeChunk[] {
+  const lines = content.split('\n');
+  const chunks: CodeChunk[] = [];
+  const stride = Math.max(1, chunkLines - overlap);
+
+  for (let start = 0; start < lines.length; start += stride) {
+    const end = Math.min(start + chunkLines, lines.length);
+    const chunkContent = lines.slice(start, end).join('\n');
+
+    if (chunkContent.trim()) {
+      chunks.push({
+        path: filePath,
+        startLine: start + 1,
+        endLine: end,
+        // Prefix the path so file names contribute to the embedding
+        content: `${filePath}\n${chunkContent}`,
+      });
+    }
+
+    if (end >= lines.length) break;
+  }
+
+  return chunks;
+}
+
+export async function saveIndex(index: CodeIndex): Promise<void> {
+  const filePath = getIndexFilePath(
+    index.owner,
+    index.repo,
+    index.sha,
+    index.embedderId
+  );
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(index));
+  indexCache.set(filePath, index);
+}
+
+async function readIndexFile(filePath: string): Promise<CodeIndex | null> {
+  const cached = indexCache.get(filePath);
+  if (cached) return cached;
+
+  try {
+    const index = JSON.parse(await fs.readFile(filePath, 'utf8')) as CodeIndex;
+    indexCache.set(filePath, index);
+    return index;
+  } catch {
+    return null;
+  }
+}
+
+export async function loadIndex(
+  owner: string,
+  repo: string,
+  sha: string,
+  embedderId: string
+): Promise<CodeIndex | null> {
+  return readIndexFile(getIndexFilePath(owner, repo, sha, embedderId));
+}
+
+/**
+ * Find the most recently built index for a repository and embedder,
+ * regardless of commit
+ */
+export async function findLatestIndex(
+  owner: string,
+  repo: string,
+  embedderId: string
+): Promise<CodeIndex | null> {
+  const dir = getRepositoryIndexDir(owner, repo);
+  const suffix = `__${sanitizeSegment(embedderId)}.json`;
+
+  try {
+    const entries = await fs.readdir(dir);
+    const candidates = await Promise.all(
+      entries
+        .filter(entry => entry.endsWith(suffix))
+        .map(async entry => {
+          const stat = await fs.stat(path.join(dir, entry));
+          return { entry, mtime: stat.mtimeMs };
+        })
+    );
+
+    const latest = candidates.sort((a, b) => b.mtime - a.mtime)[0];
+    return latest ? readIndexFile(path.join(dir, latest.entry)) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch, chunk and embed a repository at a specific commit
+ */
+export async function buildRepositoryIndex(
+  owner: string,
+  repo: string,
+  sha: string,
+  config: GitHubConfig,
+  embedder: Embedder,
+  options: IndexBuildOptions = {}
+): Promise<CodeIndex> {
+  const treeResult = await getRepositoryTree(owner, repo, config, sha);
+  if (treeResult.error || !treeResult.result) {
+    throw new Error(
+      `Failed to read repository tree: ${treeResult.error?.message || 'empty tree'}`
+    );
+  }
+
+  const files = treeResult.result.tree
+    .filter(
+      item =>
+        item.type === 'blob' &&
+        isIndexablePath(item.path, item.size, options.maxFileSize)
+    )
+    .slice(0, options.maxFiles ?? DEFAULT_MAX_FILES);
+
+  const chunks: CodeChunk[] = [];
+  let fileCount = 0;
+
+  for (const file of files) {
+    const fileResult = await getFileContents(
+      owner,
+      repo,
+      file.path,
+      config,
+      sha
+    );
+    if (fileResult.error || !fileResult.result || fileResult.result.skipped) {
+      console.warn(`Skipping ${file.path} while indexing`);
+      continue;
+    }
+    fileCount++;
+    chunks.push(
+      ...chunkFile(
+        file.path,
+        fileResult.result.content,
+        options.chunkLines,
+        options.chunkOverlap
+      )
+    );
+  }
+
+  const indexedChunks: IndexedChunk[] = [];
+  for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const vectors = await embedder.embedDocuments(
+      batch.map(chunk => chunk.content)
+    );
+    batch.forEach((chunk, j) => {
+      indexedChunks.push({
+        path: chunk.path,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        vector: vectors[j],
+      });
+    });
+  }
+
+  const index: CodeIndex = {
+    owner,
+    repo,
+    sha,
+    embedderId: embedder.id,
+    createdAt: new Date().toISOString(),
+    fileCount,
+    chunks: indexedChunks,
+  };
+
+  await saveIndex(index);
+  console.log(
+    `📚 [Index] Built ${owner}/${repo}@${sha.substring(0, 7)}: ${fileCount} files, ${indexedChunks.length} chunks`
+  );
+
+  return index;
+}
+
+/**
+ * Rank index chunks against a query, keeping the best chunk per file
+ */
+export async function searchIndex(
+  index: CodeIndex,
+  query: string,
+  embedder: Embedder,
+  topK: number = 10
+): Promise<SemanticMatch[]> {
+  const queryVector = await embedder.embedQuery(query);
+  const bestByPath = new Map<string, SemanticMatch>();
+
+  index.chunks.forEach(chunk => {
+    const score = cosineSimilarity(queryVector, chunk.vector);
+    const current = bestByPath.get(chunk.path);
+    if (!current || score > current.score) {
+      bestByPath.set(chunk.path, {
+        path: chunk.path,
+        score,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+      });
+    }
+  });
+
+  return Array.from(bestByPath.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+/**
+ * Create a semantic search function for a repository if an index exists.
+ * Prefers an index for the requested commit, falling back to the most
+ * recent (possibly stale) index. Indexes are shared between users, so none
+ * is used unless the caller's token can resolve the ref.
+ */
+export async function createSemanticSearch(
+  owner: string,
+  repo: string,
+  config: GitHubConfig,
+  embedder: Embedder,
+  ref: string = 'HEAD'
+): Promise<((query: string) => Promise<SemanticMatch[]>) | undefined> {
+  const sha = await resolveCommitSha(owner, repo, ref, config);
+  if (!sha) {
+    return undefined;
+  }
+
+  const index =
+    (await loadIndex(owner, repo, sha, embedder.id)) ||
+    (await findLatestIndex(owner, repo, embedder.id));
+
+  if (!index) {
+    return undefined;
+  }
+
+  if (index.sha !== sha) {
+    console.warn(
+      `📚 [Index] Using stale index for ${owner}/${repo} (${index.sha.substring(0, 7)} vs ${ref} ${sha.substring(0, 7)})`
+    );
+  }
+
+  return query => searchIndex(index, query, embedder);
+}
+
+/**
+ * Describe the index available for a repository at a ref (HEAD by default).
+ * A repository the caller cannot read is reported as not indexed.
+ */
+export async function getIndexStatus(
+  owner: string,
+  repo: string,
+  config: GitHubConfig,
+  embedder: Embedder,
+  ref: string = 'HEAD'
+): Promise<{
+  indexed: boolean;
+  stale: boolean;
+  sha?: string;
+  headSha?: string;
+  fileCount?: number;
+  chunkCount?: number;
+  createdAt?: string;
+}> {
+  const headSha = await resolveCommitSha(owner, repo, ref, config);
+  if (!headSha) {
+    return { indexed: false, stale: false };
+  }
+
+  const index =
+    (await loadIndex(owner, repo, headSha, embedder.id)) ||
+    (await findLatestIndex(owner, repo, embedder.id));
+
+  if (!index) {
+    return { indexed: false, stale: false, headSha };
+  }
+
+  return {
+    indexed: true,
+    stale: index.sha !== headSha,
+    sha: index.sha,
+    headSha,
+    fileCount: index.fileCount,
+    chunkCount: index.chunks.length,
+    createdAt: index.createdAt,
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * Issue Service - Issues, pull requests and discussions as context
+ *
+ * Much of a project's reasoning lives in its issues, pull request
+ * conversations and discussions rather than in the code. When selected as
+ * context sources, the threads matching a question are searched, their
+ * top comments fetched, and the answer can cite them as #123.
+ */
+import { IssueReference } from '@/types/github';
+import { ContextSource } from '@/types/query';
+import { truncateToTokens } from '@/utils/tokenUtils';
+
+import {
+  GitHubConfig,
+  GitHubIssue,
+  listIssueComments,
+  searchDiscussions,
+  searchIssues,
+} from './mcpService';
+
+export interface IssueThread extends IssueReference {
+  author: string;
+  body: string;
+  comments: Array<{ author: string; body: string }>;
+}
+
+// Threads fetched per source
+const THREADS_PER_SOURCE = 3;
+const COMMENTS_PER_THREAD = 8;
+const MAX_BODY_TOKENS = 400;
+const MAX_COMMENT_TOKENS = 200;
+
+// GitHub search allows at most five OR operators
+const MAX_SEARCH_TERMS = 5;
+
+const STOP_WORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'are',
+  'was',
+  'were',
+  'how',
+  'what',
+  'why',
+  'when',
+  'where',
+  'which',
+  'who',
+  'does',
+  'did',
+  'this',
+  'that',
+  'with',
+  'from',
+  'into',
+  'there',
+  'have',
+  'has',
+  'can',
+  'should',
+  'would',
+  'could',
+  'about',
+  'work',
+  'works',
+  'code',
+  'repo',
+  'repository',
+]);
+
+export const ISSUE_CITATION_INSTRUCTIONS = `When an issue, pull request or discussion supports a statement, cite it by number right after the sentence, e.g. #123. Only cite numbers listed above.`;
+
+/**
+ * Turn a question into an OR search over its most distinctive words
+ */
+export function toIssueSearchQuery(query: string): string {
+  const terms = Array.from(
+    new Set(
+      query
+        .toLowerCase()
+        .split(/[^a-z0-9_.-]+/)
+        .filter(word => word.length >= 3 && !STOP_WORDS.has(word))
+    )
+  )
+    .sort((a, b) => b.length - a.length)
+    .slice(0, MAX_SEARCH_TERMS);
+  return terms.join(' OR ');
+}
+
+async function toIssueThread(
+  owner: string,
+  repo: string,
+  issue: GitHubIssue,
+  config: GitHubConfig
+): Promise<IssueThread> {
+  const comments =
+    issue.comments > 0
+      ? await listIssueComments(owner, repo, issue.number, config)
+      : { result: [] };
+
+  return {
+    kind: issue.pull_request ? 'pull' : 'issue',
+    number: issue.number,
+    title: issue.title,
+    state: issue.state,
+    url: issue.html_url,
+    author: issue.user?.login || 'ghost',
+    body: issue.body || '',
+    comments: (comments.result || [])
+      .slice(0, COMMENTS_PER_THREAD)
+      .map(comment => ({
+        author: comment.user?.login || 'ghost',
+        body: comment.body,
+      })),
+  };
+}
+
+/**
+ * Find the issues, pull requests and discussions relevant to a question
+ */
+export async function getIssueContext(
+  owner: string,
+  repo: string,
+  query: string,
+  sources: ContextSource[],
+  config: GitHubConfig
+): Promise<IssueThread[]> {
+  const searchQuery = toIssueSearchQuery(query);
+  if (!searchQuery) return [];
+
+  const searches: Array<Promise<IssueThread[]>> = [];
+
+  (['issues', 'pulls'] as const)
+    .filter(source => sources.includes(source))
+    .forEach(source =>
+      searches.push(
+        searchIssues(owner, repo, searchQuery, config, {
+          type: source === 'issues' ? 'issue' : 'pr',
+          per_page: THREADS_PER_SOURCE,
+        }).then(result =>
+          Promise.all(
+            (result.result?.items || []).map(issue =>
+              toIssueThread(owner, repo, issue, config)
+            )
+          )
+        )
+      )
+    );
+
+  if (sources.includes('discussions')) {
+    searches.push(
+      searchDiscussions(
+        owner,
+        repo,
+        searchQuery,
+        config,
+        THREADS_PER_SOURCE
+      ).then(result =>
+        (result.result || []).map(discussion => ({
+          kind: 'discussion' as const,
+          number: discussion.number,
+          title: discussion.title,
+          state: discussion.answer ? 'answered' : 'open',
+          url: discussion.url,
+          author: discussion.author?.login || 'ghost',
+          body: discussion.body,
+          comments: [
+            ...(discussion.answer
+              ? [
+                  {
+                    author: `${discussion.answer.author?.login || 'ghost'} (accepted answer)`,
+                    body: discussion.answer.body,
+                  },
+                ]
+              : []),
+            ...discussion.comments.nodes.map(comment => ({
+              author: comment.author?.login || 'ghost',
+              body: comment.body,
+            })),
+          ],
+        }))
+      )
+    );
+  }
+
+  const results = await Promise.all(
+    searches.map(search =>
+      search.catch(error => {
+        console.warn('Issue search failed:', error);
+        return [];
+      })
+    )
+  );
+  return results.flat();
+}
+
+const KIND_LABELS: Record<IssueThread['kind'], string> = {
+  issue: 'Issue',
+  pull: 'Pull request',
+  discussion: 'Discussion',
+};
+
+/**
+ * Render threads for the prompt, within a token budget
+ */
+export function formatIssueContext(
+  threads: IssueThread[],
+  maxTokens: number
+): string {
+  const text = threads
+    .map(thread => {
+      const comments = thread.comments
+        .map(
+          comment =>
+            `- ${comment.author}: ${truncateToTokens(comment.body.trim(), MAX_COMMENT_TOKENS)}`
+        )
+        .join('\n');
+      return `${KIND_LABELS[thread.kind]} #${thread.number} (${thread.state}) by ${thread.author}: ${thread.title}
+${truncateToTokens(thread.body.trim() || '(no description)', MAX_BODY_TOKENS)}${comments ? `\nComments:\n${comments}` : ''}`;
+    })
+    .join('\n\n');
+  return truncateToTokens(text, maxTokens);
+}
+
+/**
+ * The loaded threads an answer cites by number
+ */
+export function buildIssueReferences(
+  answer: string,
+  threads: IssueThread[]
+): IssueReference[] {
+  const cited = new Set(
+    Array.from(answer.matchAll(/(?:^|[^\w&/])#(\d+)\b/g), match =>
+      Number(match[1])
+    )
+  );
+  return threads
+    .filter(thread => cited.has(thread.number))
+    .map(({ kind, number, title, state, url }) => ({
+      kind,
+      number,
+      title,
+      state,
+      url,
+    }));
+}
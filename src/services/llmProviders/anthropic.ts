@@ -0,0 +1,66 @@
+/**
+ * Anthropic provider - Claude models through the Anthropic API
+ */
+import { ChatAnthropic } from '@langchain/anthropic';
+
+import { AnthropicModel, LLMProviderDefinition } from '@/types/llm';
+
+const ANTHROPIC_MODELS_URL = 'https://api.anthropic.com/v1/models';
+
+function fetchModelList(apiKey: string): Promise<Response> {
+  return fetch(ANTHROPIC_MODELS_URL, {
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+      'anthropic-version': '2023-06-01',
+    },
+  });
+}
+
+async function fetchAnthropicModels(apiKey: string): Promise<AnthropicModel[]> {
+  try {
+    const response = await fetchModelList(apiKey);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch Anthropic models');
+    }
+
+    const data = await response.json();
+
+    // The API returns { data: [...models] }
+    return data.data || [];
+  } catch (error) {
+    console.error('Failed to fetch Anthropic models:', error);
+    return [];
+  }
+}
+
+export const anthropicProvider: LLMProviderDefinition = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  shortName: 'Anthropic',
+  description: 'Advanced reasoning and safety-focused AI',
+  defaultModel: 'claude-3-sonnet-20240229',
+  models: [
+    'claude-3-opus-20240229',
+    'claude-3-sonnet-20240229',
+    'claude-3-haiku-20240307',
+  ],
+  discoversModels: true,
+  apiKeyUrl: 'https://console.anthropic.com/',
+  apiKeyPattern: /^sk-ant-/,
+
+  async validateKey({ apiKey }) {
+    try {
+      const response = await fetchModelList(apiKey);
+      return response.ok;
+    } catch {
+      return false;
+    }
+  },
+
+  listModels: ({ apiKey }) => fetchAnthropicModels(apiKey),
+
+  createChatModel: ({ apiKey }, model, temperature) =>
+    new ChatAnthropic({ apiKey, model, temperature }),
+};
@@ -0,0 +1,206 @@
+/**
+ * Azure OpenAI provider - models behind an organisation's Azure OpenAI
+ * deployments
+ *
+ * Azure routes requests by deployment rather than model, so the user lists
+ * their deployment names and each becomes a model to pick. The data-plane
+ * API cannot list deployments, so each is probed with a one-token chat
+ * completion, which also reveals the model it serves. Probes are billed,
+ * so their results are cached for a while per key, endpoint and version.
+ */
+import { AzureChatOpenAI } from '@langchain/openai';
+import { createHash } from 'crypto';
+
+import {
+  LLMProviderDefinition,
+  OpenAIModel,
+  ProviderConnection,
+} from '@/types/llm';
+
+const DEFAULT_API_VERSION = '2024-10-21';
+const PROBE_TIMEOUT_MS = 15_000;
+const PROBE_CACHE_TTL_MS = 30 * 60 * 1000;
+
+// Model served by each probed deployment, or null if it did not answer
+const probeResults = new Map<
+  string,
+  { model: string | null; probedAt: number }
+>();
+
+function parseDeployments(deployments?: string): string[] {
+  return Array.from(
+    new Set(
+      (deployments || '')
+        .split(',')
+        .map(deployment => deployment.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+/**
+ * Resource endpoint, e.g. https://my-resource.openai.azure.com. Paths of
+ * API gateways in front of Azure are kept; a trailing /openai is dropped.
+ */
+function normalizeAzureEndpoint(baseUrl: string): string | null {
+  try {
+    const url = new URL(baseUrl.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null;
+    }
+    const path = url.pathname.replace(/\/+$/, '').replace(/\/openai$/, '');
+    return `${url.origin}${path}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The model a deployment serves, its name if the model is not reported,
+ * or null if the deployment cannot be used with this key
+ */
+async function probeDeployment(
+  { apiKey, baseUrl, settings }: ProviderConnection,
+  deployment: string
+): Promise<string | null> {
+  const apiVersion = settings?.apiVersion || DEFAULT_API_VERSION;
+  const response = await fetch(
+    `${baseUrl}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${encodeURIComponent(apiVersion)}`,
+    {
+      method: 'POST',
+      headers: { 'api-key': apiKey, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        messages: [{ role: 'user', content: 'ping' }],
+        max_tokens: 1,
+      }),
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+      redirect: 'error', // Only the checked URL is fetched
+    }
+  );
+
+  // Reasoning models reject max_tokens, but the deployment exists
+  if (response.status === 400) return deployment;
+  if (response.status === 429 || response.status >= 500) {
+    throw new Error(`Probe failed with ${response.status}`);
+  }
+  if (!response.ok) return null;
+
+  const data: { model?: string } = await response.json();
+  return data.model || deployment;
+}
+
+/**
+ * A deployment's probe result, reusing one from the last half hour
+ */
+async function probeDeploymentCached(
+  connection: ProviderConnection,
+  deployment: string
+): Promise<string | null> {
+  const key = createHash('sha256')
+    .update(
+      [
+        connection.apiKey,
+        connection.baseUrl,
+        connection.settings?.apiVersion || DEFAULT_API_VERSION,
+        deployment,
+      ].join('\n')
+    )
+    .digest('hex');
+  const now = Date.now();
+  const cached = probeResults.get(key);
+  if (cached && now - cached.probedAt <= PROBE_CACHE_TTL_MS) {
+    return cached.model;
+  }
+
+  // Failed requests throw and are not cached, so they are tried again
+  const model = await probeDeployment(connection, deployment);
+  probeResults.forEach((result, staleKey) => {
+    if (now - result.probedAt > PROBE_CACHE_TTL_MS) {
+      probeResults.delete(staleKey);
+    }
+  });
+  probeResults.set(key, { model, probedAt: now });
+  return model;
+}
+
+async function fetchDeploymentModels(
+  connection: ProviderConnection
+): Promise<OpenAIModel[]> {
+  if (!connection.baseUrl) return [];
+
+  const deployments = parseDeployments(connection.settings?.deployments);
+  const probes = await Promise.all(
+    deployments.map(deployment =>
+      probeDeploymentCached(connection, deployment).catch(error => {
+        console.error(`Azure OpenAI deployment ${deployment} failed:`, error);
+        return null;
+      })
+    )
+  );
+
+  return deployments.flatMap((deployment, index) => {
+    const model = probes[index];
+    return model
+      ? [
+          {
+            id: deployment,
+            name:
+              model === deployment ? deployment : `${deployment} (${model})`,
+            description: `Azure OpenAI deployment ${deployment}`,
+            created: 0,
+            owned_by: 'azure',
+          },
+        ]
+      : [];
+  });
+}
+
+export const azureOpenAIProvider: LLMProviderDefinition = {
+  id: 'azure-openai',
+  name: 'Azure OpenAI',
+  shortName: 'Azure',
+  description: "Your organisation's Azure OpenAI deployments",
+  defaultModel: '', // The first deployment that answers
+  models: [],
+  discoversModels: true,
+  apiKeyUrl: 'https://portal.azure.com/',
+  configurableBaseUrl: true,
+  baseUrlLabel: 'Endpoint',
+  baseUrlPlaceholder: 'https://my-resource.openai.azure.com',
+  baseUrlHelp: "From the resource's Keys and Endpoint page in the Azure portal",
+  settings: [
+    {
+      key: 'deployments',
+      label: 'Deployments',
+      placeholder: 'gpt-4o, gpt-4o-mini',
+      help: 'Deployment names, comma-separated; each is offered as a model',
+      required: true,
+    },
+    {
+      key: 'apiVersion',
+      label: 'API version',
+      placeholder: DEFAULT_API_VERSION,
+      defaultValue: DEFAULT_API_VERSION,
+      required: true,
+    },
+  ],
+
+  // Usable if any listed deployment answers with this key
+  async validateKey(connection) {
+    const models = await fetchDeploymentModels(connection);
+    return models.length > 0;
+  },
+
+  listModels: fetchDeploymentModels,
+
+  createChatModel: ({ apiKey, baseUrl, settings }, model, temperature) =>
+    new AzureChatOpenAI({
+      azureOpenAIApiKey: apiKey,
+      azureOpenAIBasePath: `${baseUrl}/openai/deployments`,
+      azureOpenAIApiDeploymentName: model,
+      azureOpenAIApiVersion: settings?.apiVersion || DEFAULT_API_VERSION,
+      temperature,
+    }),
+
+  normalizeBaseUrl: normalizeAzureEndpoint,
+};
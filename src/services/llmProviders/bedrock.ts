@@ -0,0 +1,196 @@
+/**
+ * Amazon Bedrock provider - foundation models in the user's AWS account
+ *
+ * Authenticates with a Bedrock API key sent as a bearer token, so no AWS
+ * credential chain is involved. Chat goes through the Converse API of the
+ * region's runtime endpoint; models are listed from the region's control
+ * plane, including the cross-region inference profiles newer models need.
+ * An endpoint override serves both APIs, e.g. behind a gateway.
+ */
+import { BedrockRuntimeClient } from '@aws-sdk/client-bedrock-runtime';
+import { ChatBedrockConverse } from '@langchain/aws';
+import { NodeHttpHandler } from '@smithy/node-http-handler';
+
+import {
+  LLMProviderDefinition,
+  OpenAIModel,
+  ProviderConnection,
+} from '@/types/llm';
+
+const DEFAULT_REGION = 'us-east-1';
+const REQUEST_TIMEOUT_MS = 15_000;
+
+interface FoundationModelSummary {
+  modelId: string;
+  modelName?: string;
+  providerName?: string;
+  responseStreamingSupported?: boolean;
+  inferenceTypesSupported?: string[];
+  modelLifecycle?: { status?: string };
+}
+
+interface InferenceProfileSummary {
+  inferenceProfileId: string;
+  inferenceProfileName?: string;
+  status?: string;
+}
+
+function getRegion({ settings }: ProviderConnection): string {
+  return settings?.region || DEFAULT_REGION;
+}
+
+function isSafeRegion(region: string): boolean {
+  return /^[a-z]{2}(-[a-z]+)+-\d+$/.test(region);
+}
+
+function getControlPlaneUrl(connection: ProviderConnection): string {
+  return (
+    connection.baseUrl ||
+    `https://bedrock.${getRegion(connection)}.amazonaws.com`
+  );
+}
+
+function fetchControlPlane(
+  connection: ProviderConnection,
+  path: string
+): Promise<Response> {
+  return fetch(`${getControlPlaneUrl(connection)}${path}`, {
+    headers: { Authorization: `Bearer ${connection.apiKey}` },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    redirect: 'error', // Only the checked URL is fetched
+  });
+}
+
+function normalizeEndpoint(baseUrl: string): string | null {
+  try {
+    const url = new URL(baseUrl.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null;
+    }
+    return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Text models that can be called on demand, then the inference profiles
+ * that route to them across regions
+ */
+async function fetchBedrockModels(
+  connection: ProviderConnection
+): Promise<OpenAIModel[]> {
+  if (!isSafeRegion(getRegion(connection))) return [];
+
+  try {
+    const [modelsResponse, profilesResponse] = await Promise.all([
+      fetchControlPlane(connection, '/foundation-models?byOutputModality=TEXT'),
+      fetchControlPlane(
+        connection,
+        '/inference-profiles?type=SYSTEM_DEFINED&maxResults=1000'
+      ).catch(() => null),
+    ]);
+    if (!modelsResponse.ok) {
+      throw new Error(`Model listing failed with ${modelsResponse.status}`);
+    }
+
+    const {
+      modelSummaries = [],
+    }: { modelSummaries?: FoundationModelSummary[] } =
+      await modelsResponse.json();
+    const {
+      inferenceProfileSummaries = [],
+    }: {
+      inferenceProfileSummaries?: InferenceProfileSummary[];
+    } = profilesResponse?.ok ? await profilesResponse.json() : {};
+
+    const models = modelSummaries
+      .filter(
+        model =>
+          model.responseStreamingSupported !== false &&
+          model.modelLifecycle?.status !== 'LEGACY' &&
+          (model.inferenceTypesSupported || ['ON_DEMAND']).includes('ON_DEMAND')
+      )
+      .map(model => ({
+        id: model.modelId,
+        name: model.modelName || model.modelId,
+        description: `${model.providerName || 'Bedrock'} ${model.modelName || model.modelId}`,
+        created: 0,
+        owned_by: model.providerName || 'bedrock',
+      }));
+    const profiles = inferenceProfileSummaries
+      .filter(profile => profile.status !== 'LEGACY')
+      .map(profile => ({
+        id: profile.inferenceProfileId,
+        name: profile.inferenceProfileName || profile.inferenceProfileId,
+        description: `Inference profile ${profile.inferenceProfileId}`,
+        created: 0,
+        owned_by: 'bedrock',
+      }));
+
+    return [...models, ...profiles];
+  } catch (error) {
+    console.error('Failed to fetch Bedrock models:', error);
+    return [];
+  }
+}
+
+export const bedrockProvider: LLMProviderDefinition = {
+  id: 'bedrock',
+  name: 'Amazon Bedrock',
+  shortName: 'Bedrock',
+  description: 'Claude, Llama, Mistral and more in your AWS account',
+  defaultModel: '', // Depends on the models enabled in the account
+  models: [],
+  discoversModels: true,
+  apiKeyUrl: 'https://console.aws.amazon.com/bedrock/home#/api-keys',
+  configurableBaseUrl: true,
+  baseUrlOptional: true,
+  baseUrlLabel: 'Endpoint override',
+  baseUrlPlaceholder: 'Leave empty to use the region',
+  baseUrlHelp:
+    'Only for gateways or private endpoints serving both the Bedrock and Bedrock Runtime APIs',
+  settings: [
+    {
+      key: 'region',
+      label: 'AWS region',
+      placeholder: DEFAULT_REGION,
+      defaultValue: DEFAULT_REGION,
+      required: true,
+    },
+  ],
+
+  async validateKey(connection) {
+    if (!isSafeRegion(getRegion(connection))) return false;
+    try {
+      const response = await fetchControlPlane(
+        connection,
+        '/foundation-models?byOutputModality=TEXT'
+      );
+      return response.ok;
+    } catch {
+      return false;
+    }
+  },
+
+  listModels: fetchBedrockModels,
+
+  createChatModel: (connection, model, temperature) => {
+    const region = getRegion(connection);
+    return new ChatBedrockConverse({
+      model,
+      region,
+      temperature,
+      client: new BedrockRuntimeClient({
+        region,
+        endpoint: connection.baseUrl,
+        token: { token: connection.apiKey },
+        authSchemePreference: ['httpBearerAuth'],
+        // Converse needs no HTTP/2, which gateways may not speak
+        requestHandler: new NodeHttpHandler(),
+      }),
+    });
+  },
+
+  normalizeBaseUrl: normalizeEndpoint,
+};
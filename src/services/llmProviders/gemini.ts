@@ -0,0 +1,111 @@
+/**
+ * Google Gemini provider - Gemini models through the Gemini API of Google
+ * AI Studio
+ */
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+
+import { LLMProviderDefinition, OpenAIModel } from '@/types/llm';
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta';
+const GEMINI_MODELS_TTL_MS = 60 * 60 * 1000;
+
+interface GeminiModel {
+  name: string; // e.g. "models/gemini-1.5-pro"
+  displayName?: string;
+  description?: string;
+  inputTokenLimit?: number;
+  supportedGenerationMethods?: string[];
+}
+
+let contextLengths: {
+  fetchedAt: number;
+  lengths: Map<string, number>;
+} | null = null;
+
+function fetchModelList(apiKey: string): Promise<Response> {
+  return fetch(`${GEMINI_API_URL}/models?pageSize=1000`, {
+    headers: { 'x-goog-api-key': apiKey },
+  });
+}
+
+/**
+ * Gemini models that can chat, newest first as the API lists them
+ */
+async function fetchGeminiChatModels(apiKey: string): Promise<GeminiModel[]> {
+  try {
+    const response = await fetchModelList(apiKey);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch Gemini models');
+    }
+
+    const data: { models?: GeminiModel[] } = await response.json();
+    return (data.models || []).filter(
+      model =>
+        model.name.startsWith('models/gemini') &&
+        model.supportedGenerationMethods?.includes('generateContent')
+    );
+  } catch (error) {
+    console.error('Failed to fetch Gemini models:', error);
+    return [];
+  }
+}
+
+function toModelId(model: GeminiModel): string {
+  return model.name.replace(/^models\//, '');
+}
+
+export const geminiProvider: LLMProviderDefinition = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  shortName: 'Gemini',
+  description: 'Long-context Gemini models from Google AI Studio',
+  defaultModel: 'gemini-1.5-pro',
+  models: ['gemini-1.5-pro', 'gemini-1.5-flash', 'gemini-2.0-flash'],
+  discoversModels: true,
+  apiKeyUrl: 'https://aistudio.google.com/app/apikey',
+  apiKeyPattern: /^AIza/,
+
+  async validateKey({ apiKey }) {
+    try {
+      const response = await fetchModelList(apiKey);
+      return response.ok;
+    } catch {
+      return false;
+    }
+  },
+
+  async listModels({ apiKey }): Promise<OpenAIModel[]> {
+    const models = await fetchGeminiChatModels(apiKey);
+    return models.map(model => ({
+      id: toModelId(model),
+      name: model.displayName || toModelId(model),
+      description: model.description || `Google ${toModelId(model)}`,
+      created: 0,
+      owned_by: 'google',
+    }));
+  },
+
+  createChatModel: ({ apiKey }, model, temperature) =>
+    new ChatGoogleGenerativeAI({ apiKey, model, temperature }),
+
+  // Gemini reports each model's input token limit; cached for an hour
+  async getContextLength(model, { apiKey }) {
+    if (
+      !contextLengths ||
+      Date.now() - contextLengths.fetchedAt > GEMINI_MODELS_TTL_MS
+    ) {
+      const models = await fetchGeminiChatModels(apiKey);
+      if (models.length > 0) {
+        contextLengths = {
+          fetchedAt: Date.now(),
+          lengths: new Map(
+            models.map(m => [toModelId(m), m.inputTokenLimit || 0])
+          ),
+        };
+      }
+    }
+
+    return contextLengths?.lengths.get(model) || undefined;
+  },
+};
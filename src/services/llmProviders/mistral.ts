@@ -0,0 +1,113 @@
+/**
+ * Mistral provider - Mistral and Codestral models through La Plateforme
+ */
+import { ChatMistralAI } from '@langchain/mistralai';
+
+import { LLMProviderDefinition, OpenAIModel } from '@/types/llm';
+
+const MISTRAL_API_URL = 'https://api.mistral.ai/v1';
+const MISTRAL_MODELS_TTL_MS = 60 * 60 * 1000;
+
+interface MistralModel {
+  id: string;
+  name?: string;
+  description?: string;
+  created?: number;
+  owned_by?: string;
+  max_context_length?: number;
+  capabilities?: { completion_chat?: boolean };
+  deprecation?: string | null;
+}
+
+let contextLengths: {
+  fetchedAt: number;
+  lengths: Map<string, number>;
+} | null = null;
+
+function fetchModelList(apiKey: string): Promise<Response> {
+  return fetch(`${MISTRAL_API_URL}/models`, {
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+/**
+ * Chat models that are not scheduled for retirement
+ */
+async function fetchMistralChatModels(apiKey: string): Promise<MistralModel[]> {
+  try {
+    const response = await fetchModelList(apiKey);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch Mistral models');
+    }
+
+    const data: { data?: MistralModel[] } = await response.json();
+    return (data.data || []).filter(
+      model =>
+        model.capabilities?.completion_chat !== false && !model.deprecation
+    );
+  } catch (error) {
+    console.error('Failed to fetch Mistral models:', error);
+    return [];
+  }
+}
+
+export const mistralProvider: LLMProviderDefinition = {
+  id: 'mistral',
+  name: 'Mistral AI',
+  shortName: 'Mistral',
+  description: 'European models, including Codestral for code',
+  defaultModel: 'mistral-large-latest',
+  models: [
+    'mistral-large-latest',
+    'mistral-small-latest',
+    'codestral-latest',
+    'open-mistral-nemo',
+  ],
+  discoversModels: true,
+  apiKeyUrl: 'https://console.mistral.ai/api-keys/',
+
+  async validateKey({ apiKey }) {
+    try {
+      const response = await fetchModelList(apiKey);
+      return response.ok;
+    } catch {
+      return false;
+    }
+  },
+
+  async listModels({ apiKey }): Promise<OpenAIModel[]> {
+    const models = await fetchMistralChatModels(apiKey);
+    return models.map(model => ({
+      id: model.id,
+      name: model.id,
+      description: model.description || `Mistral ${model.id}`,
+      created: model.created || 0,
+      owned_by: model.owned_by || 'mistralai',
+    }));
+  },
+
+  createChatModel: ({ apiKey }, model, temperature) =>
+    new ChatMistralAI({ apiKey, model, temperature }),
+
+  // Mistral reports each model's context window; cached for an hour
+  async getContextLength(model, { apiKey }) {
+    if (
+      !contextLengths ||
+      Date.now() - contextLengths.fetchedAt > MISTRAL_MODELS_TTL_MS
+    ) {
+      const models = await fetchMistralChatModels(apiKey);
+      if (models.length > 0) {
+        contextLengths = {
+          fetchedAt: Date.now(),
+          lengths: new Map(models.map(m => [m.id, m.max_context_length || 0])),
+        };
+      }
+    }
+
+    return contextLengths?.lengths.get(model) || undefined;
+  },
+};
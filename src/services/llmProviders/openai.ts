@@ -0,0 +1,63 @@
+/**
+ * OpenAI provider - GPT models through the OpenAI API
+ */
+import { ChatOpenAI } from '@langchain/openai';
+import OpenAI from 'openai';
+
+import { LLMProviderDefinition, OpenAIModel } from '@/types/llm';
+
+async function fetchOpenAIModels(apiKey: string): Promise<OpenAIModel[]> {
+  try {
+    const openai = new OpenAI({ apiKey });
+    const models = await openai.models.list();
+
+    // Filter for GPT models and sort by creation date
+    const gptModels = models.data
+      .filter(model => model.id.includes('gpt'))
+      .sort((a, b) => b.created - a.created)
+      .map(model => ({
+        id: model.id,
+        name: model.id,
+        description: `OpenAI ${model.id}`,
+        created: model.created,
+        owned_by: model.owned_by,
+      }));
+
+    return gptModels;
+  } catch (error) {
+    console.error('Failed to fetch OpenAI models:', error);
+    return [];
+  }
+}
+
+export const openaiProvider: LLMProviderDefinition = {
+  id: 'openai',
+  name: 'OpenAI',
+  shortName: 'OpenAI',
+  description: 'Most popular and reliable AI provider',
+  defaultModel: 'gpt-4',
+  models: ['gpt-4o', 'gpt-4-turbo', 'gpt-4', 'gpt-3.5-turbo'],
+  discoversModels: true,
+  apiKeyUrl: 'https://platform.openai.com/signup',
+  apiKeyPattern: /^sk-/,
+
+  async validateKey({ apiKey }) {
+    try {
+      const openai = new OpenAI({ apiKey });
+      await openai.models.list();
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  listModels: ({ apiKey }) => fetchOpenAIModels(apiKey),
+
+  createChatModel: ({ apiKey, baseUrl }, model, temperature) =>
+    new ChatOpenAI({
+      apiKey,
+      model,
+      configuration: baseUrl ? { baseURL: baseUrl } : undefined,
+      temperature,
+    }),
+};
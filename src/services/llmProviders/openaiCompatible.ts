@@ -0,0 +1,150 @@
+/**
+ * OpenAI-compatible provider - self-hosted servers such as vLLM, Ollama,
+ * LM Studio and llama.cpp, reached at a URL the user enters
+ */
+import { ChatOpenAI } from '@langchain/openai';
+
+import {
+  LLMProviderDefinition,
+  OpenAIModel,
+  ProviderConnection,
+} from '@/types/llm';
+
+// Placeholder for servers without a key; the OpenAI client refuses to
+// start without one
+const NO_API_KEY = 'not-needed';
+
+// Servers that do not answer by then are treated as unreachable
+const LOCAL_SERVER_TIMEOUT_MS = 10_000;
+const CONTEXT_LENGTHS_TTL_MS = 60 * 60 * 1000;
+
+interface OpenAICompatibleModel {
+  id: string;
+  created?: number;
+  owned_by?: string;
+  max_model_len?: number; // Reported by vLLM
+}
+
+// Context windows per server URL
+const contextLengths = new Map<
+  string,
+  { fetchedAt: number; lengths: Map<string, number> }
+>();
+
+/**
+ * Base URL of an OpenAI-compatible server, adding /v1 when only a host is
+ * given, e.g. "http://localhost:11434". Null for anything but http(s).
+ */
+function normalizeOpenAICompatibleUrl(baseUrl: string): string | null {
+  try {
+    const url = new URL(baseUrl.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null;
+    }
+    const path = url.pathname.replace(/\/+$/, '');
+    return `${url.origin}${path || '/v1'}`;
+  } catch {
+    return null;
+  }
+}
+
+function fetchModelList({
+  apiKey,
+  baseUrl,
+}: ProviderConnection): Promise<Response> {
+  return fetch(`${baseUrl}/models`, {
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+    signal: AbortSignal.timeout(LOCAL_SERVER_TIMEOUT_MS),
+    redirect: 'error', // Only the checked URL is fetched
+  });
+}
+
+async function fetchServerModels(
+  connection: ProviderConnection
+): Promise<OpenAICompatibleModel[]> {
+  if (!connection.baseUrl) return [];
+
+  try {
+    const response = await fetchModelList(connection);
+    if (!response.ok) {
+      throw new Error(`Model listing failed with ${response.status}`);
+    }
+
+    const data: { data?: OpenAICompatibleModel[] } = await response.json();
+    return data.data || [];
+  } catch (error) {
+    console.error('Failed to fetch OpenAI-compatible models:', error);
+    return [];
+  }
+}
+
+async function fetchOpenAICompatibleModels(
+  connection: ProviderConnection
+): Promise<OpenAIModel[]> {
+  const models = await fetchServerModels(connection);
+  return models.map(model => ({
+    id: model.id,
+    name: model.id,
+    description: `Self-hosted ${model.id}`,
+    created: model.created || 0,
+    owned_by: model.owned_by || 'local',
+  }));
+}
+
+export const openaiCompatibleProvider: LLMProviderDefinition = {
+  id: 'openai-compatible',
+  name: 'OpenAI-compatible (self-hosted)',
+  shortName: 'Self-hosted',
+  description: 'On-prem inference: vLLM, Ollama, LM Studio, llama.cpp',
+  defaultModel: '',
+  models: [], // Discovered from the server's /v1/models
+  discoversModels: true,
+  apiKeyOptional: true,
+  baseUrl: 'http://localhost:11434/v1', // Ollama's default
+  configurableBaseUrl: true,
+  baseUrlHelp:
+    "The server's OpenAI-compatible API, e.g. port 11434 for Ollama, 1234 for LM Studio or 8000 for vLLM. Servers on localhost or a private network need ALLOW_PRIVATE_MODEL_ENDPOINTS=true on this app's server.",
+
+  // Usable if the server lists its models with the given key, or without
+  async validateKey(connection) {
+    if (!connection.baseUrl) return false;
+    try {
+      const response = await fetchModelList(connection);
+      return response.ok;
+    } catch {
+      return false;
+    }
+  },
+
+  listModels: fetchOpenAICompatibleModels,
+
+  createChatModel: ({ apiKey, baseUrl }, model, temperature) =>
+    new ChatOpenAI({
+      apiKey: apiKey || NO_API_KEY,
+      model,
+      configuration: { baseURL: baseUrl },
+      temperature,
+    }),
+
+  // vLLM reports each model's context window; cached per server for an hour
+  async getContextLength(model, connection) {
+    if (!connection.baseUrl) return undefined;
+
+    const cached = contextLengths.get(connection.baseUrl);
+    if (!cached || Date.now() - cached.fetchedAt > CONTEXT_LENGTHS_TTL_MS) {
+      const models = await fetchServerModels(connection);
+      if (models.length > 0) {
+        contextLengths.set(connection.baseUrl, {
+          fetchedAt: Date.now(),
+          lengths: new Map(models.map(m => [m.id, m.max_model_len || 0])),
+        });
+      }
+    }
+
+    return (
+      contextLengths.get(connection.baseUrl)?.lengths.get(model) || undefined
+    );
+  },
+
+  normalizeBaseUrl: normalizeOpenAICompatibleUrl,
+};
@@ -0,0 +1,97 @@
+/**
+ * OpenRouter provider - many vendors' models behind one OpenAI-compatible
+ * API
+ */
+import { ChatOpenAI } from '@langchain/openai';
+
+import { LLMProviderDefinition, OpenRouterModel } from '@/types/llm';
+
+const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1';
+const OPENROUTER_MODELS_TTL_MS = 60 * 60 * 1000;
+
+let contextLengths: {
+  fetchedAt: number;
+  lengths: Map<string, number>;
+} | null = null;
+
+function fetchModelList(apiKey: string): Promise<Response> {
+  return fetch(`${OPENROUTER_API_URL}/models`, {
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+async function fetchOpenRouterModels(
+  apiKey: string
+): Promise<OpenRouterModel[]> {
+  try {
+    const response = await fetchModelList(apiKey);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch OpenRouter models');
+    }
+
+    const data = await response.json();
+    return data.data || [];
+  } catch (error) {
+    console.error('Failed to fetch OpenRouter models:', error);
+    return [];
+  }
+}
+
+export const openrouterProvider: LLMProviderDefinition = {
+  id: 'openrouter',
+  name: 'OpenRouter',
+  shortName: 'OpenRouter',
+  description: 'Access to 100+ models at competitive prices',
+  defaultModel: 'openai/gpt-4',
+  models: [
+    'openai/gpt-4',
+    'openai/gpt-3.5-turbo',
+    'anthropic/claude-3-sonnet',
+    'meta-llama/llama-2-70b-chat',
+  ],
+  discoversModels: true,
+  apiKeyUrl: 'https://openrouter.ai/keys',
+  apiKeyPattern: /^sk-or-/,
+  baseUrl: OPENROUTER_API_URL,
+
+  async validateKey({ apiKey }) {
+    try {
+      const response = await fetchModelList(apiKey);
+      return response.ok;
+    } catch {
+      return false;
+    }
+  },
+
+  listModels: ({ apiKey }) => fetchOpenRouterModels(apiKey),
+
+  createChatModel: ({ apiKey, baseUrl }, model, temperature) =>
+    new ChatOpenAI({
+      apiKey,
+      model,
+      configuration: { baseURL: baseUrl || OPENROUTER_API_URL },
+      temperature,
+    }),
+
+  // OpenRouter reports each model's context window; cached for an hour
+  async getContextLength(model, { apiKey }) {
+    if (
+      !contextLengths ||
+      Date.now() - contextLengths.fetchedAt > OPENROUTER_MODELS_TTL_MS
+    ) {
+      const models = await fetchOpenRouterModels(apiKey);
+      if (models.length > 0) {
+        contextLengths = {
+          fetchedAt: Date.now(),
+          lengths: new Map(models.map(m => [m.id, m.context_length])),
+        };
+      }
+    }
+
+    return contextLengths?.lengths.get(model);
+  },
+};
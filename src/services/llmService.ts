@@ -1,145 +1,155 @@
-import OpenAI from 'openai';
+/**
+ * LLM Service - Registry of model providers
+ *
+ * Each provider module in ./llmProviders declares its metadata, key
+ * validation, model listing and chat model construction. Routes, the query
+ * pipeline and (through /api/llm-setup/providers) the setup screens work
+ * from this registry, so adding a provider means writing its module and
+ * listing it below.
+ *
+ * Users choose the URLs of some providers, so model endpoints on loopback,
+ * private or link-local addresses (such as cloud metadata services) are
+ * refused unless ALLOW_PRIVATE_MODEL_ENDPOINTS=true, as a self-hosted
+ * install talking to its own model server would set.
+ */
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 
 import {
-  AnthropicModel,
+  LLMModel,
   LLMProvider,
-  OpenAIModel,
-  OpenRouterModel,
-  PROVIDER_CONFIGS,
+  LLMProviderDefinition,
+  LLMProviderInfo,
+  ProviderConnection,
+  ProviderSettings,
 } from '@/types/llm';
+import { isPrivateHost } from '@/utils/networkUtils';
 
-export async function validateApiKey(
-  provider: LLMProvider,
-  apiKey: string
-): Promise<boolean> {
-  try {
-    switch (provider) {
-      case 'openai':
-        return await validateOpenAIKey(apiKey);
-      case 'anthropic':
-        return await validateAnthropicKey(apiKey);
-      case 'openrouter':
-        return await validateOpenRouterKey(apiKey);
-      default:
-        return false;
-    }
-  } catch (error) {
-    console.error(`API key validation failed for ${provider}:`, error);
-    return false;
-  }
+import { anthropicProvider } from './llmProviders/anthropic';
+import { azureOpenAIProvider } from './llmProviders/azureOpenAI';
+import { bedrockProvider } from './llmProviders/bedrock';
+import { geminiProvider } from './llmProviders/gemini';
+import { mistralProvider } from './llmProviders/mistral';
+import { openaiProvider } from './llmProviders/openai';
+import { openaiCompatibleProvider } from './llmProviders/openaiCompatible';
+import { openrouterProvider } from './llmProviders/openrouter';
+
+// In the order the setup screens offer them
+const PROVIDERS: LLMProviderDefinition[] = [
+  openaiProvider,
+  anthropicProvider,
+  geminiProvider,
+  mistralProvider,
+  openrouterProvider,
+  openaiCompatibleProvider,
+  azureOpenAIProvider,
+  bedrockProvider,
+];
+
+export function getLLMProvider(
+  provider: LLMProvider
+): LLMProviderDefinition | undefined {
+  return PROVIDERS.find(definition => definition.id === provider);
 }
 
-async function validateOpenAIKey(apiKey: string): Promise<boolean> {
-  try {
-    const openai = new OpenAI({ apiKey });
-    await openai.models.list();
-    return true;
-  } catch {
-    return false;
-  }
+/**
+ * Provider metadata for the browser, without the provider's behaviour
+ */
+export function getLLMProviderInfo(): LLMProviderInfo[] {
+  return PROVIDERS.map(definition => ({
+    id: definition.id,
+    name: definition.name,
+    shortName: definition.shortName,
+    description: definition.description,
+    defaultModel: definition.defaultModel,
+    models: definition.models,
+    discoversModels: definition.discoversModels,
+    apiKeyUrl: definition.apiKeyUrl,
+    apiKeyPattern: definition.apiKeyPattern?.source,
+    apiKeyOptional: definition.apiKeyOptional,
+    baseUrl: definition.baseUrl,
+    configurableBaseUrl: definition.configurableBaseUrl,
+    baseUrlOptional: definition.baseUrlOptional,
+    baseUrlLabel: definition.baseUrlLabel,
+    baseUrlPlaceholder: definition.baseUrlPlaceholder,
+    baseUrlHelp: definition.baseUrlHelp,
+    settings: definition.settings,
+  }));
 }
 
-async function validateAnthropicKey(apiKey: string): Promise<boolean> {
-  try {
-    const response = await fetch('https://api.anthropic.com/v1/models', {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-        'anthropic-version': '2023-06-01',
-      },
-    });
-    return response.ok;
-  } catch {
-    return false;
+/**
+ * The endpoint to use for a provider: the user's server for configurable
+ * providers (null if the URL is unusable, undefined if an optional one is
+ * left out), otherwise the provider's own
+ */
+export function resolveProviderBaseUrl(
+  definition: LLMProviderDefinition,
+  baseUrl?: string
+): string | null | undefined {
+  if (!definition.configurableBaseUrl) {
+    return definition.baseUrl;
   }
+  if (!baseUrl?.trim() && definition.baseUrlOptional) {
+    return undefined;
+  }
+  return definition.normalizeBaseUrl
+    ? definition.normalizeBaseUrl(baseUrl || '')
+    : baseUrl || null;
 }
 
-async function validateOpenRouterKey(apiKey: string): Promise<boolean> {
-  try {
-    const response = await fetch('https://openrouter.ai/api/v1/models', {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-    });
-    return response.ok;
-  } catch {
-    return false;
+/**
+ * A provider's settings with defaults applied, keeping only the ones it
+ * declares. Names the first required setting that is missing.
+ */
+export function resolveProviderSettings(
+  definition: LLMProviderDefinition,
+  settings: ProviderSettings = {}
+): { settings: ProviderSettings; missing?: string } {
+  const resolved: ProviderSettings = {};
+  for (const field of definition.settings || []) {
+    const value = settings[field.key]?.trim() || field.defaultValue;
+    if (value) {
+      resolved[field.key] = value;
+    } else if (field.required) {
+      return { settings: resolved, missing: field.label };
+    }
   }
+  return { settings: resolved };
 }
 
-export async function fetchOpenAIModels(
-  apiKey: string
-): Promise<OpenAIModel[]> {
+export const PRIVATE_MODEL_ENDPOINT_ERROR =
+  'Model servers on private or local network addresses are not allowed on this deployment. An administrator can allow them by setting ALLOW_PRIVATE_MODEL_ENDPOINTS=true.';
+
+/**
+ * Whether the server may call a model endpoint; no URL means the
+ * provider's own
+ */
+export async function isAllowedModelEndpoint(
+  baseUrl?: string
+): Promise<boolean> {
+  if (!baseUrl || process.env.ALLOW_PRIVATE_MODEL_ENDPOINTS === 'true') {
+    return true;
+  }
   try {
-    const openai = new OpenAI({ apiKey });
-    const models = await openai.models.list();
-
-    // Filter for GPT models and sort by creation date
-    const gptModels = models.data
-      .filter(model => model.id.includes('gpt'))
-      .sort((a, b) => b.created - a.created)
-      .map(model => ({
-        id: model.id,
-        name: model.id,
-        description: `OpenAI ${model.id}`,
-        created: model.created,
-        owned_by: model.owned_by,
-      }));
-
-    return gptModels;
-  } catch (error) {
-    console.error('Failed to fetch OpenAI models:', error);
-    return [];
+    return !(await isPrivateHost(new URL(baseUrl).hostname));
+  } catch {
+    return false;
   }
 }
 
-export async function fetchAnthropicModels(
-  apiKey: string
-): Promise<AnthropicModel[]> {
-  try {
-    const response = await fetch('https://api.anthropic.com/v1/models', {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-        'anthropic-version': '2023-06-01',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch Anthropic models');
-    }
-
-    const data = await response.json();
-
-    // The API returns { data: [...models] }
-    return data.data || [];
-  } catch (error) {
-    console.error('Failed to fetch Anthropic models:', error);
-    return [];
+export async function validateApiKey(
+  provider: LLMProvider,
+  connection: ProviderConnection
+): Promise<boolean> {
+  const definition = getLLMProvider(provider);
+  if (!definition || !(await isAllowedModelEndpoint(connection.baseUrl))) {
+    return false;
   }
-}
 
-export async function fetchOpenRouterModels(
-  apiKey: string
-): Promise<OpenRouterModel[]> {
   try {
-    const response = await fetch('https://openrouter.ai/api/v1/models', {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch OpenRouter models');
-    }
-
-    const data = await response.json();
-    return data.data || [];
+    return await definition.validateKey(connection);
   } catch (error) {
-    console.error('Failed to fetch OpenRouter models:', error);
-    return [];
+    console.error(`API key validation failed for ${provider}:`, error);
+    return false;
   }
 }
 
@@ -147,17 +157,101 @@ export function validateApiKeyFormat(
   provider: LLMProvider,
   apiKey: string
 ): boolean {
-  const config = PROVIDER_CONFIGS[provider];
-  if (!config.apiKeyPattern) {
+  const definition = getLLMProvider(provider);
+  if (!definition?.apiKeyPattern || (!apiKey && definition.apiKeyOptional)) {
     return true; // No pattern defined, assume valid
   }
-  return config.apiKeyPattern.test(apiKey);
+  return definition.apiKeyPattern.test(apiKey);
+}
+
+export async function listProviderModels(
+  provider: LLMProvider,
+  connection: ProviderConnection
+): Promise<LLMModel[]> {
+  const definition = getLLMProvider(provider);
+  if (!definition || !(await isAllowedModelEndpoint(connection.baseUrl))) {
+    return [];
+  }
+  return definition.listModels(connection);
 }
 
 export function getDefaultModel(provider: LLMProvider): string {
-  return PROVIDER_CONFIGS[provider].defaultModel;
+  return getLLMProvider(provider)?.defaultModel || '';
+}
+
+/**
+ * Chat model for a user's saved provider configuration
+ */
+export async function createChatModel(
+  config: ProviderConnection & { provider: LLMProvider; model: string },
+  temperature: number
+): Promise<BaseChatModel> {
+  const definition = getLLMProvider(config.provider);
+  if (!definition) {
+    throw new Error(`Unsupported LLM provider: ${config.provider}`);
+  }
+  // The saved URL is re-checked, as it may predate this setting
+  if (!(await isAllowedModelEndpoint(config.baseUrl))) {
+    throw new Error(PRIVATE_MODEL_ENDPOINT_ERROR);
+  }
+  return definition.createChatModel(
+    {
+      apiKey: config.apiKey,
+      baseUrl: config.baseUrl,
+      settings: config.settings,
+    },
+    config.model,
+    temperature
+  );
 }
 
-export function getProviderModels(provider: LLMProvider): string[] {
-  return PROVIDER_CONFIGS[provider].models;
+// Context windows of well-known models, matched by model id prefix
+const KNOWN_CONTEXT_LENGTHS: Array<[string, number]> = [
+  ['gpt-4o', 128000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4.1', 1000000],
+  ['gpt-4-32k', 32768],
+  ['gpt-4', 8192],
+  ['gpt-3.5-turbo', 16385],
+  ['o1', 200000],
+  ['o3', 200000],
+  ['o4', 200000],
+  ['claude-', 200000],
+  ['gemini-1.0', 32768],
+  ['gemini-1.5-pro', 2097152],
+  ['gemini-', 1048576],
+  ['codestral', 256000],
+  ['mistral-', 128000],
+  ['ministral-', 128000],
+  ['open-mistral-nemo', 128000],
+];
+
+const DEFAULT_CONTEXT_LENGTH = 8192;
+
+/**
+ * Look up how many tokens a model accepts. Providers that report this per
+ * model are asked first; otherwise a table of known models is used.
+ */
+export async function getModelContextLength(
+  config: ProviderConnection & { provider: LLMProvider; model: string }
+): Promise<number> {
+  const { provider, model } = config;
+  // Providers such as self-hosted servers are asked at the user's endpoint
+  const length = await getLLMProvider(provider)?.getContextLength?.(model, {
+    apiKey: config.apiKey,
+    baseUrl: config.baseUrl,
+    settings: config.settings,
+  });
+  if (length) return length;
+
+  // OpenRouter ids are prefixed with the vendor, e.g. "openai/gpt-4o";
+  // Bedrock's with it and maybe a region, e.g. "us.anthropic.claude-..."
+  const modelId = model
+    .split('/')
+    .pop()!
+    .replace(/^([a-z]{2}\.)?[a-z0-9-]+\.(?=[a-z])/, '');
+  const known = KNOWN_CONTEXT_LENGTHS.find(([prefix]) =>
+    modelId.startsWith(prefix)
+  );
+  return known ? known[1] : DEFAULT_CONTEXT_LENGTH;
 }
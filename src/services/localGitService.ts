@@ -0,0 +1,664 @@
+/**
+ * Local Git Service - Repository code and history from git on disk
+ *
+ * An alternative to the REST API for trees, files, code search, commit
+ * logs and diffs, selected per deployment with REPOSITORY_SOURCE=local-git.
+ * A repository is read from an existing clone listed in
+ * LOCAL_GIT_REPOSITORIES, or from a shallow bare clone kept under
+ * LOCAL_GIT_CACHE_DIR and fetched again once it is a few minutes old.
+ * Clones are shared between users, so every caller's token is checked
+ * against the repository through the API (cached briefly per token) before
+ * a clone is read. Beyond that check nothing here counts against the
+ * GitHub rate limit. Requires the git CLI.
+ */
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import {
+  MAX_TEXT_FILE_SIZE,
+  SkipReason,
+  decodeUtf8,
+  formatSkippedFileMarker,
+  getSkipReasonForPath,
+  isBinaryData,
+  looksGenerated,
+} from '@/utils/fileUtils';
+import { getGitHubApiUrl, getGitHubWebUrl } from '@/utils/githubHost';
+
+import type {
+  GitHubCommit,
+  GitHubConfig,
+  GitHubResponse,
+  GitHubSearchItem,
+  RepositoryFile,
+  RepositorySource,
+  RepositoryTree,
+} from './mcpService';
+import { getTokenScope, recordRateLimit } from './rateLimitService';
+
+// Commits kept in a cached clone; 0 clones the full history
+const DEFAULT_CLONE_DEPTH = 200;
+// Cached clones are fetched again when older than this
+const FETCH_INTERVAL_MS = 5 * 60 * 1000;
+// A token's access to a repository is checked again when older than this
+const ACCESS_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const GIT_TIMEOUT_MS = 2 * 60 * 1000;
+const MAX_GIT_OUTPUT_BYTES = 64 * 1024 * 1024;
+// Matches the page size of GitHub code search
+const MAX_SEARCH_RESULTS = 10;
+// GitHub lists at most this many files for a commit
+const MAX_COMMIT_FILES = 300;
+
+// Separators for git log records and their fields
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+const COMMIT_FORMAT = ['%H', '%P', '%an', '%ae', '%aI', '%B']
+  .join('%x1f')
+  .concat('%x1e');
+
+const NAME_PATTERN = /^[\w.-]+$/;
+
+interface LocalRepository {
+  dir: string;
+  canFetch: boolean; // Existing clones are never fetched into
+}
+
+const pendingUpdates = new Map<string, Promise<void>>();
+const lastFetched = new Map<string, number>();
+// When each token (by scope) was last seen to have access to a repository
+const accessVerified = new Map<string, number>();
+
+interface GitOptions {
+  cwd?: string;
+  token?: string;
+  allowNoMatch?: boolean; // Exit code 1 means "nothing found", e.g. git grep
+}
+
+/**
+ * Git with the token passed through the environment, so it stays out of
+ * the process list and the clone's config
+ */
+function runGit(args: string[], options: GitOptions = {}): Promise<Buffer> {
+  const env: NodeJS.ProcessEnv = { ...process.env, GIT_TERMINAL_PROMPT: '0' };
+  if (options.token) {
+    const credentials = Buffer.from(`x-access-token:${options.token}`);
+    env.GIT_CONFIG_COUNT = '1';
+    env.GIT_CONFIG_KEY_0 = 'http.extraHeader';
+    env.GIT_CONFIG_VALUE_0 = `Authorization: Basic ${credentials.toString('base64')}`;
+  }
+
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      ['-c', 'core.quotePath=false', ...args],
+      {
+        cwd: options.cwd,
+        env,
+        encoding: 'buffer',
+        maxBuffer: MAX_GIT_OUTPUT_BYTES,
+        timeout: GIT_TIMEOUT_MS,
+      },
+      (error, stdout, stderr) => {
+        if (error && !(options.allowNoMatch && error.code === 1)) {
+          const detail = stderr.toString('utf8').trim() || error.message;
+          reject(new Error(`git ${args[0]}: ${detail}`));
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+async function runGitText(
+  args: string[],
+  options: GitOptions = {}
+): Promise<string> {
+  return (await runGit(args, options)).toString('utf8');
+}
+
+function getCloneDepth(): number {
+  const depth = Number(process.env.LOCAL_GIT_CLONE_DEPTH);
+  return Number.isInteger(depth) && depth >= 0 ? depth : DEFAULT_CLONE_DEPTH;
+}
+
+/**
+ * Existing clones, configured as "owner/repo=/path,owner/repo=/path"
+ */
+function getConfiguredRepositories(): Map<string, string> {
+  const repositories = new Map<string, string>();
+  (process.env.LOCAL_GIT_REPOSITORIES || '').split(',').forEach(entry => {
+    const separator = entry.indexOf('=');
+    if (separator > 0) {
+      repositories.set(
+        entry.substring(0, separator).trim().toLowerCase(),
+        entry.substring(separator + 1).trim()
+      );
+    }
+  });
+  return repositories;
+}
+
+async function cloneOrFetch(
+  owner: string,
+  repo: string,
+  dir: string,
+  token: string
+): Promise<void> {
+  const depth = getCloneDepth();
+  const depthArgs = depth > 0 ? [`--depth=${depth}`] : [];
+  const exists = await fs
+    .stat(dir)
+    .then(() => true)
+    .catch(() => false);
+
+  if (exists) {
+    // Bare clones have no fetch refspec, so branches are named explicitly
+    await runGit(
+      [
+        'fetch',
+        '--prune',
+        '--no-tags',
+        ...depthArgs,
+        'origin',
+        '+refs/heads/*:refs/heads/*',
+      ],
+      { cwd: dir, token }
+    );
+    return;
+  }
+
+  await fs.mkdir(path.dirname(dir), { recursive: true });
+  await runGit(
+    [
+      'clone',
+      '--bare',
+      '--no-tags',
+      ...(depth > 0 ? [...depthArgs, '--no-single-branch'] : []),
+      `${getGitHubWebUrl()}/${owner}/${repo}.git`,
+      dir,
+    ],
+    { token }
+  );
+}
+
+/**
+ * Check that a token can read a repository, since clones on disk are
+ * shared by every user. Only successful checks are cached, so revoked
+ * access stops working within the check interval.
+ */
+async function verifyRepositoryAccess(
+  owner: string,
+  repo: string,
+  token: string
+): Promise<void> {
+  const key = `${getTokenScope(token)}:${owner}/${repo}`.toLowerCase();
+  const now = Date.now();
+  const verifiedAt = accessVerified.get(key);
+  if (verifiedAt && now - verifiedAt <= ACCESS_CHECK_INTERVAL_MS) return;
+
+  const endpoint = `/repos/${owner}/${repo}`;
+  const response = await fetch(`${getGitHubApiUrl()}${endpoint}`, {
+    headers: {
+      Authorization: `token ${token}`,
+      Accept: 'application/vnd.github.v3+json',
+      'User-Agent': 'GitHub-Developer-Wiki',
+    },
+    signal: AbortSignal.timeout(GIT_TIMEOUT_MS),
+  });
+  recordRateLimit(token, endpoint, response.headers);
+  if (!response.ok) {
+    accessVerified.delete(key);
+    throw new Error(`Repository ${owner}/${repo} not found`);
+  }
+
+  accessVerified.forEach((checkedAt, staleKey) => {
+    if (now - checkedAt > ACCESS_CHECK_INTERVAL_MS) {
+      accessVerified.delete(staleKey);
+    }
+  });
+  accessVerified.set(key, now);
+}
+
+/**
+ * Where to run git for a repository, cloning or refreshing the cached
+ * clone first when needed, once the caller's token is known to have
+ * access. One clone or fetch runs per repository at a time.
+ */
+async function getLocalRepository(
+  owner: string,
+  repo: string,
+  config: GitHubConfig
+): Promise<LocalRepository> {
+  if (
+    !NAME_PATTERN.test(owner) ||
+    !NAME_PATTERN.test(repo) ||
+    [owner, repo].some(name => /^\.+$/.test(name))
+  ) {
+    throw new Error(`Invalid repository name ${owner}/${repo}`);
+  }
+  await verifyRepositoryAccess(owner, repo, config.token);
+
+  const configured = getConfiguredRepositories().get(
+    `${owner}/${repo}`.toLowerCase()
+  );
+  if (configured) {
+    return { dir: configured, canFetch: false };
+  }
+
+  const cacheDir =
+    process.env.LOCAL_GIT_CACHE_DIR ||
+    path.join(os.tmpdir(), 'githubpedia-repositories');
+  const dir = path.join(
+    cacheDir,
+    owner.toLowerCase(),
+    `${repo.toLowerCase()}.git`
+  );
+
+  const fetchedAt = lastFetched.get(dir);
+  if (!fetchedAt || Date.now() - fetchedAt > FETCH_INTERVAL_MS) {
+    let update = pendingUpdates.get(dir);
+    if (!update) {
+      update = cloneOrFetch(owner, repo, dir, config.token)
+        .then(() => {
+          lastFetched.set(dir, Date.now());
+        })
+        .finally(() => pendingUpdates.delete(dir));
+      pendingUpdates.set(dir, update);
+    }
+    await update;
+  }
+
+  return { dir, canFetch: true };
+}
+
+/**
+ * Refs are passed to git as arguments, so anything that could read as an
+ * option or a range is refused
+ */
+function isSafeRef(ref: string): boolean {
+  return (
+    /^[\w./@^~{}-]+$/.test(ref) && !ref.startsWith('-') && !ref.includes('..')
+  );
+}
+
+async function revParse(dir: string, ref: string): Promise<string | null> {
+  try {
+    const sha = await runGitText(
+      ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`],
+      { cwd: dir }
+    );
+    return sha.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a branch, tag or SHA to a commit. Tags, older commits and
+ * branches created since the last fetch are fetched on demand.
+ */
+async function resolveRef(
+  repository: LocalRepository,
+  ref: string,
+  token: string
+): Promise<string | null> {
+  if (!isSafeRef(ref)) return null;
+
+  const sha =
+    (await revParse(repository.dir, ref)) ||
+    (await revParse(repository.dir, `origin/${ref}`));
+  if (sha || !repository.canFetch) return sha;
+
+  try {
+    const depth = getCloneDepth();
+    await runGit(
+      [
+        'fetch',
+        '--no-tags',
+        ...(depth > 0 ? [`--depth=${depth}`] : []),
+        'origin',
+        ref,
+      ],
+      { cwd: repository.dir, token }
+    );
+  } catch {
+    return null;
+  }
+  return revParse(repository.dir, 'FETCH_HEAD');
+}
+
+function toErrorResponse(error: unknown): GitHubResponse<never> {
+  const message = error instanceof Error ? error.message : String(error);
+  const notFound = /not found|does not exist|not a git repository/i.test(
+    message
+  );
+  return { error: { code: notFound ? 404 : -1, message } };
+}
+
+/**
+ * Run a read against the commit a ref points to
+ */
+async function readAtRef<T>(
+  owner: string,
+  repo: string,
+  config: GitHubConfig,
+  ref: string,
+  read: (dir: string, sha: string) => Promise<GitHubResponse<T>>
+): Promise<GitHubResponse<T>> {
+  try {
+    const repository = await getLocalRepository(owner, repo, config);
+    const sha = await resolveRef(repository, ref, config.token);
+    if (!sha) {
+      return { error: { code: 404, message: `No commit found for ${ref}` } };
+    }
+    return await read(repository.dir, sha);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+async function getRepositoryTree(
+  owner: string,
+  repo: string,
+  config: GitHubConfig,
+  ref: string
+): Promise<GitHubResponse<RepositoryTree>> {
+  return readAtRef(owner, repo, config, ref, async (dir, sha) => {
+    const output = await runGitText(['ls-tree', '-r', '-t', '-l', '-z', sha], {
+      cwd: dir,
+    });
+
+    // "<mode> <type> <object> <size>\t<path>", NUL-terminated
+    const tree = output
+      .split('\0')
+      .filter(Boolean)
+      .map(entry => {
+        const tab = entry.indexOf('\t');
+        const [, type, , size] = entry.substring(0, tab).split(/\s+/);
+        return {
+          path: entry.substring(tab + 1),
+          type,
+          size: type === 'blob' ? Number(size) : undefined,
+        };
+      });
+
+    return { result: { tree } };
+  });
+}
+
+async function getFileContents(
+  owner: string,
+  repo: string,
+  filePath: string,
+  config: GitHubConfig,
+  ref: string = 'HEAD'
+): Promise<GitHubResponse<RepositoryFile>> {
+  return readAtRef(owner, repo, config, ref, async (dir, sha) => {
+    const object = `${sha}:${filePath}`;
+    const type = await runGitText(['cat-file', '-t', object], {
+      cwd: dir,
+    }).catch(() => null);
+
+    if (!type) {
+      return { error: { code: 404, message: 'Not Found' } };
+    }
+    if (type.trim() !== 'blob') {
+      return { error: { code: -1, message: 'Path is not a file' } };
+    }
+
+    const size = Number(
+      await runGitText(['cat-file', '-s', object], { cwd: dir })
+    );
+    const skip = (reason: SkipReason) => ({
+      result: {
+        content: formatSkippedFileMarker(filePath, reason, size),
+        size,
+        type: 'file',
+        skipped: reason,
+      },
+    });
+
+    const pathSkipReason = getSkipReasonForPath(filePath);
+    if (pathSkipReason) {
+      return skip(pathSkipReason);
+    }
+    if (size > MAX_TEXT_FILE_SIZE) {
+      return skip('too-large');
+    }
+
+    const bytes = new Uint8Array(
+      await runGit(['cat-file', 'blob', object], { cwd: dir })
+    );
+    if (isBinaryData(bytes)) {
+      return skip('binary');
+    }
+
+    const content = decodeUtf8(bytes);
+    if (looksGenerated(content)) {
+      return skip('generated');
+    }
+
+    return { result: { content, size, type: 'file' } };
+  });
+}
+
+/**
+ * Plain search terms from a GitHub code search query: qualifiers such as
+ * "path:src" are dropped and quoted phrases kept whole
+ */
+function toSearchTerms(query: string): string[] {
+  return (query.match(/"[^"]+"|\S+/g) || [])
+    .filter(term => !/^-?\w+:\S/.test(term))
+    .map(term => term.replace(/^"|"$/g, ''))
+    .filter(term => term && !['AND', 'OR', 'NOT'].includes(term));
+}
+
+/**
+ * Keyword search over the default branch, like GitHub's: files containing
+ * every term, ranked by how many of their lines match
+ */
+async function searchCode(
+  query: string,
+  config: GitHubConfig,
+  owner?: string,
+  repo?: string
+): Promise<GitHubResponse<{ items: Array<GitHubSearchItem> }>> {
+  if (!owner || !repo) {
+    return {
+      error: { code: -1, message: 'Local code search needs a repository' },
+    };
+  }
+
+  const terms = toSearchTerms(query);
+  if (terms.length === 0) {
+    return { result: { items: [] } };
+  }
+
+  return readAtRef(owner, repo, config, 'HEAD', async (dir, sha) => {
+    const output = await runGitText(
+      [
+        'grep',
+        '-I',
+        '-i',
+        '-F',
+        '-c',
+        '--all-match',
+        ...terms.flatMap(term => ['-e', term]),
+        sha,
+        '--',
+      ],
+      { cwd: dir, allowNoMatch: true }
+    );
+
+    // "<sha>:<path>:<matching lines>"
+    const items = output
+      .split('\n')
+      .filter(Boolean)
+      .map(line => {
+        const countStart = line.lastIndexOf(':');
+        const filePath = line.substring(sha.length + 1, countStart);
+        return {
+          path: filePath,
+          repository: { name: repo, full_name: `${owner}/${repo}` },
+          score: Number(line.substring(countStart + 1)),
+          html_url: `${getGitHubWebUrl()}/${owner}/${repo}/blob/${sha}/${filePath}`,
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_SEARCH_RESULTS);
+
+    return { result: { items } };
+  });
+}
+
+/**
+ * A commit from one COMMIT_FORMAT record, with its parent SHAs
+ */
+function parseCommit(
+  owner: string,
+  repo: string,
+  record: string
+): { commit: GitHubCommit; parents: string[] } {
+  const [sha, parents, name, email, date, message] =
+    record.split(FIELD_SEPARATOR);
+  return {
+    commit: {
+      sha,
+      commit: { message: message.trim(), author: { name, email, date } },
+      html_url: `${getGitHubWebUrl()}/${owner}/${repo}/commit/${sha}`,
+    },
+    parents: parents.split(' ').filter(Boolean),
+  };
+}
+
+async function listCommits(
+  owner: string,
+  repo: string,
+  config: GitHubConfig,
+  options?: { sha?: string; path?: string; per_page?: number }
+): Promise<GitHubResponse<Array<GitHubCommit>>> {
+  return readAtRef(
+    owner,
+    repo,
+    config,
+    options?.sha || 'HEAD',
+    async (dir, sha) => {
+      const output = await runGitText(
+        [
+          'log',
+          `--max-count=${options?.per_page || 30}`,
+          `--format=${COMMIT_FORMAT}`,
+          sha,
+          '--',
+          ...(options?.path ? [options.path] : []),
+        ],
+        { cwd: dir }
+      );
+
+      const commits = output
+        .split(RECORD_SEPARATOR)
+        .map(record => record.trim())
+        .filter(Boolean)
+        .map(record => parseCommit(owner, repo, record).commit);
+
+      return { result: commits };
+    }
+  );
+}
+
+/**
+ * Split a unified diff into GitHub-style file entries, with each patch
+ * starting at its first hunk
+ */
+function parseDiff(diff: string): NonNullable<GitHubCommit['files']> {
+  return diff
+    .split(/^(?=diff --git )/m)
+    .filter(chunk => chunk.startsWith('diff --git '))
+    .slice(0, MAX_COMMIT_FILES)
+    .map(chunk => {
+      const lines = chunk.replace(/\n$/, '').split('\n');
+      const hunkStart = lines.findIndex(line => line.startsWith('@@'));
+      const header = hunkStart >= 0 ? lines.slice(0, hunkStart) : lines;
+      const hunks = hunkStart >= 0 ? lines.slice(hunkStart) : [];
+
+      const headerValue = (prefix: string) =>
+        header.find(line => line.startsWith(prefix))?.substring(prefix.length);
+      const newPath = headerValue('+++ b/') || headerValue('rename to ');
+      const oldPath = headerValue('--- a/') || headerValue('rename from ');
+
+      const hasHeader = (prefix: string) =>
+        header.some(line => line.startsWith(prefix));
+      const status = hasHeader('new file mode')
+        ? 'added'
+        : hasHeader('deleted file mode')
+          ? 'removed'
+          : hasHeader('rename from ')
+            ? 'renamed'
+            : 'modified';
+
+      return {
+        filename:
+          newPath ||
+          oldPath ||
+          lines[0].replace(/^diff --git a\/.* b\//, '').trim(),
+        status,
+        additions: hunks.filter(line => line.startsWith('+')).length,
+        deletions: hunks.filter(line => line.startsWith('-')).length,
+        patch: hunks.length > 0 ? hunks.join('\n') : undefined,
+      };
+    });
+}
+
+async function getCommit(
+  owner: string,
+  repo: string,
+  ref: string,
+  config: GitHubConfig
+): Promise<GitHubResponse<GitHubCommit>> {
+  return readAtRef(owner, repo, config, ref, async (dir, sha) => {
+    const record = await runGitText(
+      ['show', '-s', `--format=${COMMIT_FORMAT}`, sha],
+      { cwd: dir }
+    );
+    const { commit, parents } = parseCommit(
+      owner,
+      repo,
+      record.replace(RECORD_SEPARATOR, '').trim()
+    );
+
+    // Compare with the first parent, as GitHub does for merges. The oldest
+    // commit of a shallow clone has no parents and shows as all added.
+    const diffArgs = ['--no-color', '--no-ext-diff', '-M'];
+    const diff = await runGitText(
+      parents.length > 0
+        ? ['diff', ...diffArgs, parents[0], sha]
+        : ['show', ...diffArgs, '--format=', sha],
+      { cwd: dir }
+    );
+
+    return { result: { ...commit, files: parseDiff(diff) } };
+  });
+}
+
+async function resolveCommitSha(
+  owner: string,
+  repo: string,
+  ref: string,
+  config: GitHubConfig
+): Promise<GitHubResponse<string>> {
+  return readAtRef(owner, repo, config, ref, async (_dir, sha) => ({
+    result: sha,
+  }));
+}
+
+export const localGitSource: RepositorySource = {
+  getFileContents,
+  getRepositoryTree,
+  searchCode,
+  listCommits,
+  getCommit,
+  resolveCommitSha,
+};
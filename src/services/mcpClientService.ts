@@ -0,0 +1,347 @@
+/**
+ * MCP Client Service - Tools from Model Context Protocol servers
+ *
+ * Connects to the MCP servers configured in MCP_SERVERS, over stdio or
+ * HTTP, discovers their tools and wraps them as LangChain tools so agent
+ * mode can call them next to its built-in repository tools. Teams can plug
+ * in the GitHub MCP server or their own internal tools this way.
+ *
+ * MCP_SERVERS is a JSON array, e.g.
+ * [{"name":"github","transport":"stdio","command":"npx",
+ *   "args":["-y","@modelcontextprotocol/server-github"],
+ *   "tools":["get_file_contents","search_code","list_issues"],
+ *   "forwardGitHubToken":true},
+ *  {"name":"docs","transport":"http","url":"https://mcp.example.com/mcp"}]
+ *
+ * With forwardGitHubToken the signed-in user's token is passed to the
+ * server (as GITHUB_PERSONAL_ACCESS_TOKEN for stdio, as a bearer token for
+ * HTTP), so each user gets their own connection. The model reads untrusted
+ * repository content, so such servers only expose the tools listed in
+ * `tools`, or without a list the tools they annotate as read-only.
+ */
+import { StructuredToolInterface, tool } from '@langchain/core/tools';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import {
+  StdioClientTransport,
+  getDefaultEnvironment,
+} from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+
+import { truncateToTokens } from '@/utils/tokenUtils';
+
+import { getTokenScope } from './rateLimitService';
+
+export interface McpServerConfig {
+  name: string; // Prefixes the server's tool names
+  transport: 'stdio' | 'http';
+  command?: string; // stdio
+  args?: string[]; // stdio
+  env?: Record<string, string>; // stdio, added to a minimal environment
+  url?: string; // http
+  headers?: Record<string, string>; // http
+  tools?: string[]; // Only expose these tools; see isToolExposed
+  forwardGitHubToken?: boolean;
+}
+
+export interface McpTool {
+  server: string;
+  name: string; // As exposed to the model: "<server>__<tool>"
+  toolName: string; // As known to the server
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export interface McpServerStatus {
+  name: string;
+  transport: McpServerConfig['transport'];
+  connected: boolean;
+  tools: Array<{ name: string; description: string }>;
+  error?: string;
+}
+
+interface McpConnection {
+  client: Client;
+  closeTimer?: ReturnType<typeof setTimeout>;
+}
+
+const MAX_TOOL_OUTPUT_TOKENS = 3000;
+const CONNECT_TIMEOUT_MS = 15_000;
+const TOOL_CALL_TIMEOUT_MS = 60_000;
+// Idle connections are closed, stopping their stdio processes
+const IDLE_CONNECTION_MS = 10 * 60 * 1000;
+// Tool names providers accept: letters, digits, "_" and "-", up to 64
+const MAX_TOOL_NAME_LENGTH = 64;
+
+const connections = new Map<string, Promise<McpConnection>>();
+
+function isServerConfig(value: unknown): value is McpServerConfig {
+  if (typeof value !== 'object' || value === null) return false;
+  const server = value as Partial<McpServerConfig>;
+  if (typeof server.name !== 'string' || !server.name) return false;
+  return server.transport === 'stdio'
+    ? typeof server.command === 'string'
+    : server.transport === 'http' && typeof server.url === 'string';
+}
+
+/**
+ * Servers configured for this deployment. Invalid entries are skipped
+ * with a warning rather than failing every query.
+ */
+export function getMcpServers(): McpServerConfig[] {
+  if (!process.env.MCP_SERVERS) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(process.env.MCP_SERVERS);
+  } catch {
+    console.warn('MCP_SERVERS is not valid JSON; no MCP servers connected');
+    return [];
+  }
+
+  if (!Array.isArray(parsed)) return [];
+  return parsed.filter(server => {
+    if (isServerConfig(server)) return true;
+    console.warn('Skipping invalid MCP server config:', server);
+    return false;
+  });
+}
+
+function createTransport(server: McpServerConfig, token: string) {
+  if (server.transport === 'stdio') {
+    return new StdioClientTransport({
+      command: server.command || '',
+      args: server.args,
+      env: {
+        ...getDefaultEnvironment(),
+        ...server.env,
+        ...(server.forwardGitHubToken
+          ? { GITHUB_PERSONAL_ACCESS_TOKEN: token }
+          : {}),
+      },
+      stderr: 'ignore',
+    });
+  }
+
+  const url = new URL(server.url || '');
+  const requestInit: RequestInit = {
+    headers: {
+      ...server.headers,
+      ...(server.forwardGitHubToken
+        ? { Authorization: `Bearer ${token}` }
+        : {}),
+    },
+  };
+  return { url, requestInit };
+}
+
+function createClient(): Client {
+  return new Client({ name: 'github-developer-wiki', version: '1.0.0' });
+}
+
+async function connect(
+  server: McpServerConfig,
+  token: string
+): Promise<McpConnection> {
+  const client = createClient();
+  const transport = createTransport(server, token);
+  const options = { timeout: CONNECT_TIMEOUT_MS };
+
+  if (transport instanceof StdioClientTransport) {
+    await client.connect(transport, options);
+    return { client };
+  }
+
+  // Streamable HTTP, falling back to the older SSE transport on a fresh
+  // client, as the failed one keeps the state of its first attempt
+  try {
+    await client.connect(
+      new StreamableHTTPClientTransport(transport.url, {
+        requestInit: transport.requestInit,
+      }),
+      options
+    );
+    return { client };
+  } catch {
+    const sseClient = createClient();
+    await sseClient.connect(
+      new SSEClientTransport(transport.url, {
+        requestInit: transport.requestInit,
+      }),
+      options
+    );
+    return { client: sseClient };
+  }
+}
+
+/**
+ * A shared connection to a server, opened on first use and closed after a
+ * while without use. Servers given the user's token get one per user.
+ */
+async function getConnection(
+  server: McpServerConfig,
+  token: string
+): Promise<Client> {
+  const key = server.forwardGitHubToken
+    ? `${server.name}:${getTokenScope(token)}`
+    : server.name;
+
+  let pending = connections.get(key);
+  if (!pending) {
+    pending = connect(server, token);
+    connections.set(key, pending);
+    // Failed connections are retried on the next query
+    pending.catch(() => connections.delete(key));
+  }
+
+  const connection = await pending;
+  clearTimeout(connection.closeTimer);
+  connection.closeTimer = setTimeout(() => {
+    connections.delete(key);
+    connection.client.close().catch(() => undefined);
+  }, IDLE_CONNECTION_MS);
+  connection.closeTimer.unref?.();
+
+  return connection.client;
+}
+
+function toToolName(server: string, toolName: string): string {
+  return `${server}__${toolName}`
+    .replace(/[^a-zA-Z0-9_-]/g, '_')
+    .substring(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Whether the model may call a server tool. Unlisted tools of servers given
+ * the user's token could write to their repositories, so only read-only
+ * ones are exposed.
+ */
+function isToolExposed(
+  server: McpServerConfig,
+  serverTool: { name: string; annotations?: { readOnlyHint?: boolean } }
+): boolean {
+  if (server.tools) return server.tools.includes(serverTool.name);
+  return (
+    !server.forwardGitHubToken || serverTool.annotations?.readOnlyHint === true
+  );
+}
+
+async function listServerTools(
+  server: McpServerConfig,
+  token: string
+): Promise<McpTool[]> {
+  const client = await getConnection(server, token);
+  const tools: McpTool[] = [];
+
+  let cursor: string | undefined;
+  do {
+    const page = await client.listTools(cursor ? { cursor } : undefined);
+    page.tools.forEach(serverTool => {
+      if (!isToolExposed(server, serverTool)) return;
+      tools.push({
+        server: server.name,
+        name: toToolName(server.name, serverTool.name),
+        toolName: serverTool.name,
+        description: serverTool.description || serverTool.name,
+        inputSchema: serverTool.inputSchema,
+      });
+    });
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return tools;
+}
+
+/**
+ * Flatten an MCP tool result into text for the model. Non-text content
+ * such as images is noted rather than passed on.
+ */
+function formatToolResult(result: Record<string, unknown>): string {
+  const content = Array.isArray(result.content) ? result.content : [];
+  const text = content
+    .map((part: { type?: string; text?: string; resource?: unknown }) => {
+      if (part.type === 'text') return part.text || '';
+      if (part.type === 'resource') return JSON.stringify(part.resource);
+      return `[${part.type || 'unknown'} content omitted]`;
+    })
+    .join('\n');
+
+  const output = truncateToTokens(text, MAX_TOOL_OUTPUT_TOKENS);
+  return result.isError ? `Error: ${output}` : output || 'No output';
+}
+
+/**
+ * Connect to every configured server and report its tools
+ */
+export async function getMcpServerStatus(
+  token: string
+): Promise<McpServerStatus[]> {
+  return Promise.all(
+    getMcpServers().map(async server => {
+      try {
+        const tools = await listServerTools(server, token);
+        return {
+          name: server.name,
+          transport: server.transport,
+          connected: true,
+          tools: tools.map(({ name, description }) => ({ name, description })),
+        };
+      } catch (error) {
+        return {
+          name: server.name,
+          transport: server.transport,
+          connected: false,
+          tools: [],
+          error: error instanceof Error ? error.message : 'Connection failed',
+        };
+      }
+    })
+  );
+}
+
+/**
+ * LangChain tools for every tool of every reachable server. Servers that
+ * cannot be reached are left out so the rest of the query still runs.
+ */
+export async function createMcpTools(
+  token: string
+): Promise<StructuredToolInterface[]> {
+  const servers = getMcpServers();
+  const toolLists = await Promise.all(
+    servers.map(server =>
+      listServerTools(server, token).catch(error => {
+        console.warn(`MCP server "${server.name}" unavailable:`, error);
+        return [];
+      })
+    )
+  );
+
+  return toolLists.flat().map(mcpTool => {
+    const server = servers.find(({ name }) => name === mcpTool.server);
+
+    return tool(
+      async (input: unknown) => {
+        if (!server) return `Error: Unknown MCP server "${mcpTool.server}"`;
+
+        const client = await getConnection(server, token);
+        const result = await client.callTool(
+          {
+            name: mcpTool.toolName,
+            arguments:
+              typeof input === 'object' && input !== null
+                ? (input as Record<string, unknown>)
+                : {},
+          },
+          undefined,
+          { timeout: TOOL_CALL_TIMEOUT_MS }
+        );
+        return formatToolResult(result);
+      },
+      {
+        name: mcpTool.name,
+        description: `[${mcpTool.server}] ${mcpTool.description}`,
+        schema: mcpTool.inputSchema,
+      }
+    );
+  });
+}
@@ -0,0 +1,539 @@
+/**
+ * MCP Server Service - This app's repository Q&A as an MCP server
+ *
+ * Lets editors and IDE agents that speak the Model Context Protocol ask
+ * questions about a repository, fetch the context the web app would use
+ * and search code, without the web UI. Requests are served statelessly:
+ * each HTTP request gets a fresh server that answers its JSON-RPC messages
+ * and is then discarded.
+ *
+ * Clients authenticate with an opaque access token issued from a signed-in
+ * session. The user's GitHub token and AI provider settings behind it are
+ * stored on the server, encrypted with ENCRYPTION_SECRET, under a hash of
+ * the token (MCP_GRANT_DIR, the OS temp dir by default). Tokens expire
+ * after a week, are revoked when the user signs out or asks for it, and
+ * stop working once GitHub no longer accepts the user's GitHub token.
+ */
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  ErrorCode,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+} from '@modelcontextprotocol/sdk/types.js';
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { ContextSource } from '@/types/query';
+import { decryptApiKey, encryptApiKey } from '@/utils/encryption';
+import { getGitHubApiUrl } from '@/utils/githubHost';
+import { GitHubRepo, parseGitHubUrl } from '@/utils/githubUtils';
+import { truncateToTokens } from '@/utils/tokenUtils';
+
+import { getRepositoryToken } from './githubAppService';
+import {
+  getFileContents,
+  getRepositoryContext,
+  resolveDeepLink,
+  searchCode,
+} from './mcpService';
+import { QueryContext, processQuery } from './queryService';
+
+export interface McpAccessGrant {
+  accessToken: string; // GitHub token of the user who issued the grant
+  login?: string;
+  llmConfig: QueryContext['llmConfig'];
+  expiresAt: number; // Epoch milliseconds
+}
+
+export const MCP_ACCESS_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// A grant's GitHub token is checked again when older than this
+const GRANT_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const TOKEN_PATTERN = /^mcp_[\w-]{43}$/;
+
+const MAX_CONTEXT_TOKENS = 20_000;
+const MAX_FILE_TOKENS = 4_000;
+const FILE_RESOURCE_PATTERN = /^githubpedia:\/\/([^/]+)\/([^/]+)\/files\/(.+)$/;
+const CONTEXT_SOURCES: ContextSource[] = [
+  'code',
+  'issues',
+  'pulls',
+  'discussions',
+];
+
+interface StoredGrant {
+  login?: string;
+  expiresAt: number; // Epoch milliseconds
+  encryptedGrant: string; // McpAccessGrant, encrypted
+}
+
+// When each stored grant's GitHub token was last accepted by GitHub
+const grantChecks = new Map<string, number>();
+
+function getGrantDir(): string {
+  return (
+    process.env.MCP_GRANT_DIR ||
+    path.join(os.tmpdir(), 'githubpedia-mcp-grants')
+  );
+}
+
+/**
+ * Grants are stored under a hash of their token, so the files cannot be
+ * used as tokens
+ */
+function getGrantPath(token: string): string {
+  const id = createHash('sha256').update(token).digest('hex');
+  return path.join(getGrantDir(), `${id}.json`);
+}
+
+async function readStoredGrant(filePath: string): Promise<StoredGrant | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as StoredGrant;
+  } catch {
+    return null;
+  }
+}
+
+async function deleteGrant(filePath: string): Promise<void> {
+  grantChecks.delete(filePath);
+  await fs.rm(filePath, { force: true });
+}
+
+/**
+ * False once GitHub rejects the token, e.g. after the OAuth grant was
+ * revoked. Other failures give the token the benefit of the doubt.
+ */
+async function isGitHubTokenActive(accessToken: string): Promise<boolean> {
+  try {
+    const response = await fetch(`${getGitHubApiUrl()}/user`, {
+      headers: {
+        Authorization: `token ${accessToken}`,
+        'User-Agent': 'GitHub-Developer-Wiki',
+      },
+    });
+    return response.status !== 401;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Issue an access token for MCP clients from a signed-in session
+ */
+export async function createMcpAccessToken(
+  grant: Omit<McpAccessGrant, 'expiresAt'>
+): Promise<{ token: string; expiresAt: number }> {
+  const token = `mcp_${randomBytes(32).toString('base64url')}`;
+  const expiresAt = Date.now() + MCP_ACCESS_TOKEN_TTL_MS;
+  const stored: StoredGrant = {
+    login: grant.login,
+    expiresAt,
+    encryptedGrant: encryptApiKey(JSON.stringify({ ...grant, expiresAt })),
+  };
+
+  await fs.mkdir(getGrantDir(), { recursive: true, mode: 0o700 });
+  await fs.writeFile(getGrantPath(token), JSON.stringify(stored), {
+    mode: 0o600,
+  });
+  return { token, expiresAt };
+}
+
+/**
+ * The grant behind an access token, or null if it is unknown, expired,
+ * revoked or its GitHub token no longer works
+ */
+export async function readMcpAccessToken(
+  token: string
+): Promise<McpAccessGrant | null> {
+  if (!TOKEN_PATTERN.test(token)) return null;
+
+  const filePath = getGrantPath(token);
+  const stored = await readStoredGrant(filePath);
+  if (!stored) return null;
+  if (stored.expiresAt <= Date.now()) {
+    await deleteGrant(filePath);
+    return null;
+  }
+
+  let grant: McpAccessGrant;
+  try {
+    grant = JSON.parse(decryptApiKey(stored.encryptedGrant));
+  } catch {
+    return null; // Issued before ENCRYPTION_SECRET was rotated
+  }
+
+  const checkedAt = grantChecks.get(filePath);
+  if (!checkedAt || Date.now() - checkedAt > GRANT_CHECK_INTERVAL_MS) {
+    if (!(await isGitHubTokenActive(grant.accessToken))) {
+      await deleteGrant(filePath);
+      return null;
+    }
+    grantChecks.set(filePath, Date.now());
+  }
+
+  return grant;
+}
+
+/**
+ * Revoke every access token a user has issued, clearing out expired ones
+ * along the way. Returns how many of the user's tokens were revoked.
+ */
+export async function revokeMcpAccessTokens(login: string): Promise<number> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(getGrantDir());
+  } catch {
+    return 0;
+  }
+
+  let revoked = 0;
+  for (const entry of entries.filter(name => name.endsWith('.json'))) {
+    const filePath = path.join(getGrantDir(), entry);
+    const stored = await readStoredGrant(filePath);
+    const isUsers = stored?.login?.toLowerCase() === login.toLowerCase();
+    if (isUsers || (stored && stored.expiresAt <= Date.now())) {
+      await deleteGrant(filePath);
+      if (isUsers) revoked++;
+    }
+  }
+  return revoked;
+}
+
+const TOOLS = [
+  {
+    name: 'ask_repository',
+    description:
+      'Ask a question about a GitHub repository, e.g. "explain this repo" or "how does auth work?". Answers cite files as [[path#L10-L20]].',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        repository: {
+          type: 'string',
+          description: 'owner/repo or a repository, file or directory URL',
+        },
+        question: { type: 'string' },
+        ref: {
+          type: 'string',
+          description: 'Branch, tag or commit SHA; the default branch if unset',
+        },
+        mode: {
+          type: 'string',
+          enum: ['standard', 'agent'],
+          description: 'agent lets the model explore with tools; slower',
+        },
+        sources: {
+          type: 'array',
+          items: { type: 'string', enum: CONTEXT_SOURCES },
+          description: 'Extra context searched in standard mode',
+        },
+      },
+      required: ['repository', 'question'],
+    },
+  },
+  {
+    name: 'get_repository_context',
+    description:
+      'Fetch the README and the files most relevant to a query, as the Q&A pipeline would, for the calling agent to reason over.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        repository: { type: 'string', description: 'owner/repo or URL' },
+        query: { type: 'string' },
+        ref: { type: 'string', description: 'Branch, tag or commit SHA' },
+      },
+      required: ['repository', 'query'],
+    },
+  },
+  {
+    name: 'search_code',
+    description:
+      'Keyword search across a repository. Returns matching file paths.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        repository: { type: 'string', description: 'owner/repo or URL' },
+        query: { type: 'string', description: 'Keywords or identifiers' },
+      },
+      required: ['repository', 'query'],
+    },
+  },
+];
+
+function stringArg(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function textResult(text: string, isError: boolean = false): CallToolResult {
+  return { content: [{ type: 'text', text }], isError };
+}
+
+async function openRepository(
+  grant: McpAccessGrant,
+  repositoryArg: string
+): Promise<{ repository: GitHubRepo; token: string }> {
+  const repository = parseGitHubUrl(repositoryArg);
+  if (!repository) {
+    throw new Error(`"${repositoryArg}" is not a GitHub repository`);
+  }
+  const token = await getRepositoryToken(
+    repository.owner,
+    repository.repo,
+    grant
+  );
+  return { repository, token };
+}
+
+async function askRepository(
+  grant: McpAccessGrant,
+  args: Record<string, unknown>
+): Promise<CallToolResult> {
+  const question = stringArg(args, 'question');
+  if (!question) return textResult('"question" is required', true);
+
+  const { repository, token } = await openRepository(
+    grant,
+    stringArg(args, 'repository')
+  );
+
+  // A /blob/ or /tree/ link pins the ref and focus, as in the web app
+  const requestedRef = stringArg(args, 'ref') || undefined;
+  const deepLink =
+    repository.ref && !requestedRef
+      ? await resolveDeepLink(
+          repository.owner,
+          repository.repo,
+          { ref: repository.ref, focus: repository.focus },
+          { token }
+        )
+      : undefined;
+  if (deepLink === null) {
+    return textResult(
+      `Branch, tag or commit "${repository.ref}" not found`,
+      true
+    );
+  }
+
+  const sources = Array.isArray(args.sources)
+    ? CONTEXT_SOURCES.filter(source =>
+        (args.sources as unknown[]).includes(source)
+      )
+    : undefined;
+
+  const result = await processQuery({
+    repository,
+    ref: requestedRef || deepLink?.ref,
+    focus: deepLink?.focus,
+    query: question,
+    githubToken: token,
+    llmConfig: grant.llmConfig,
+    mode: args.mode === 'agent' ? 'agent' : 'standard',
+    sources,
+  });
+
+  if (!result.success) {
+    return textResult(result.error || 'Query failed', true);
+  }
+
+  const sourceList = (result.sources || []).map(source => `- ${source}`);
+  return textResult(
+    sourceList.length > 0
+      ? `${result.response}\n\nSources:\n${sourceList.join('\n')}`
+      : result.response || ''
+  );
+}
+
+async function getContext(
+  grant: McpAccessGrant,
+  args: Record<string, unknown>
+): Promise<CallToolResult> {
+  const query = stringArg(args, 'query');
+  if (!query) return textResult('"query" is required', true);
+
+  const { repository, token } = await openRepository(
+    grant,
+    stringArg(args, 'repository')
+  );
+  const context = await getRepositoryContext(
+    repository.owner,
+    repository.repo,
+    query,
+    { token },
+    { ref: stringArg(args, 'ref') || repository.ref }
+  );
+  if (context.error) return textResult(context.error, true);
+
+  const sections = [
+    ...(context.readme
+      ? [`## README.md\n\n${truncateToTokens(context.readme, MAX_FILE_TOKENS)}`]
+      : []),
+    ...context.codeFiles.map(
+      file =>
+        `## ${file.path}\n(${file.relevance})\n\n${truncateToTokens(file.content, MAX_FILE_TOKENS)}`
+    ),
+  ];
+  return textResult(
+    truncateToTokens(sections.join('\n\n'), MAX_CONTEXT_TOKENS) ||
+      'No relevant files found'
+  );
+}
+
+async function searchRepositoryCode(
+  grant: McpAccessGrant,
+  args: Record<string, unknown>
+): Promise<CallToolResult> {
+  const query = stringArg(args, 'query');
+  if (!query) return textResult('"query" is required', true);
+
+  const { repository, token } = await openRepository(
+    grant,
+    stringArg(args, 'repository')
+  );
+  const result = await searchCode(
+    query,
+    { token },
+    repository.owner,
+    repository.repo
+  );
+  if (result.error) return textResult(result.error.message, true);
+
+  const items = result.result?.items || [];
+  return textResult(
+    items.length > 0
+      ? items.map(item => `${item.path} (score ${item.score})`).join('\n')
+      : 'No matches found'
+  );
+}
+
+/**
+ * An MCP server acting on behalf of the grant's user
+ */
+export function createMcpServer(grant: McpAccessGrant): Server {
+  const server = new Server(
+    { name: 'github-developer-wiki', version: '1.0.0' },
+    { capabilities: { tools: {}, resources: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: TOOLS,
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async request => {
+    const args = request.params.arguments || {};
+    try {
+      switch (request.params.name) {
+        case 'ask_repository':
+          return await askRepository(grant, args);
+        case 'get_repository_context':
+          return await getContext(grant, args);
+        case 'search_code':
+          return await searchRepositoryCode(grant, args);
+        default:
+          return textResult(`Unknown tool "${request.params.name}"`, true);
+      }
+    } catch (error) {
+      return textResult(
+        error instanceof Error ? error.message : 'Tool failed',
+        true
+      );
+    }
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: [],
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: 'githubpedia://{owner}/{repo}/files/{+path}',
+        name: 'Repository file',
+        description: 'A file on the default branch of a GitHub repository',
+        mimeType: 'text/plain',
+      },
+    ],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async request => {
+    const match = request.params.uri.match(FILE_RESOURCE_PATTERN);
+    if (!match) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown resource ${request.params.uri}`
+      );
+    }
+
+    const [, owner, repo, path] = match;
+    const token = await getRepositoryToken(owner, repo, grant);
+    const file = await getFileContents(owner, repo, path, { token });
+    if (file.error || !file.result) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        file.error?.message || 'File not found'
+      );
+    }
+
+    return {
+      contents: [
+        {
+          uri: request.params.uri,
+          mimeType: 'text/plain',
+          text: file.result.content,
+        },
+      ],
+    };
+  });
+
+  return server;
+}
+
+/**
+ * Answer the JSON-RPC messages of one HTTP request. Returns the responses
+ * to its requests; notifications alone produce none.
+ */
+export async function handleMcpMessages(
+  body: unknown,
+  grant: McpAccessGrant
+): Promise<JSONRPCMessage[]> {
+  const messages = (Array.isArray(body) ? body : [body]).map(message =>
+    JSONRPCMessageSchema.parse(message)
+  );
+  const expected = messages.filter(isJSONRPCRequest).length;
+  const responses: JSONRPCMessage[] = [];
+
+  let finish = () => {};
+  const finished = new Promise<void>(resolve => {
+    finish = resolve;
+  });
+
+  const transport: Transport = {
+    start: async () => {},
+    close: async () => {},
+    send: async message => {
+      if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+        responses.push(message);
+        if (responses.length === expected) finish();
+      }
+    },
+  };
+
+  const server = createMcpServer(grant);
+  await server.connect(transport);
+  messages.forEach(message => transport.onmessage?.(message));
+  if (expected > 0) await finished;
+  await server.close();
+
+  return responses;
+}
@@ -6,11 +6,51 @@
  * This service uses GitHub's REST API directly for reliable online deployment.
  * Works in all environments including browsers, Vercel, Netlify, etc.
  *
+ * Trees, files, code search, commit logs and diffs go through a
+ * RepositorySource, so a deployment can read them from local git clones
+ * instead (REPOSITORY_SOURCE=local-git, see localGitService).
+ *
  * Prerequisites:
  * - GitHub token with appropriate permissions
  *
  * Production-ready implementation with proper error handling!
  */
+import { RepositoryFocus } from '@/types/github';
+import {
+  MAX_TEXT_FILE_SIZE,
+  SkipReason,
+  decodeBase64,
+  decodeUtf8,
+  formatSkippedFileMarker,
+  getSkipReasonForPath,
+  isBinaryData,
+  looksGenerated,
+} from '@/utils/fileUtils';
+import { getGitHubApiUrl, getGitHubGraphQLUrl } from '@/utils/githubHost';
+
+import { getFetchScheduler, isDeadlineExceeded } from './fetchSchedulerService';
+import {
+  createCacheKey,
+  getCacheBackend,
+  isImmutableEndpoint,
+  recordCacheEvent,
+} from './githubCacheService';
+import { localGitSource } from './localGitService';
+import {
+  classifyLimitResponse,
+  getResourceForEndpoint,
+  getWaitTime,
+  recordRateLimit,
+  registerBackoff,
+  waitForQuota,
+} from './rateLimitService';
+
+// Retries after a rate-limit response before giving up
+const MAX_RATE_LIMIT_RETRIES = 3;
+// Common project files probed at once when search finds nothing
+const COMMON_FILE_BATCH_SIZE = 4;
+// Longest slash-separated ref tried when splitting a deep link
+const MAX_REF_SEGMENTS = 4;
 
 export interface GitHubResponse<T = unknown> {
   result?: T;
@@ -24,15 +64,85 @@ export interface GitHubConfig {
   token: string; // GitHub token is required for all operations
 }
 
-interface GitHubFileContent {
+export interface SemanticMatch {
+  path: string;
+  score: number;
+  startLine: number;
+  endLine: number;
+}
+
+export interface RelevantContextOptions {
+  ref?: string; // Branch, tag or commit SHA; defaults to the default branch
+  // Vector search over a local code index, combined with keyword search
+  semanticSearch?: (query: string) => Promise<SemanticMatch[]>;
+}
+
+export interface RepositoryFile {
   content: string;
   size: number;
   type: string;
+  skipped?: SkipReason;
+}
+
+export interface RepositoryTree {
+  tree: Array<{ path: string; type: string; size?: number }>;
+}
+
+/**
+ * Where repository code and history are read from. Issues, pull requests,
+ * blame, refs and repository metadata always come from the GitHub API.
+ */
+export interface RepositorySource {
+  getFileContents(
+    owner: string,
+    repo: string,
+    path: string,
+    config: GitHubConfig,
+    ref?: string
+  ): Promise<GitHubResponse<RepositoryFile>>;
+  getRepositoryTree(
+    owner: string,
+    repo: string,
+    config: GitHubConfig,
+    ref: string
+  ): Promise<GitHubResponse<RepositoryTree>>;
+  searchCode(
+    query: string,
+    config: GitHubConfig,
+    owner?: string,
+    repo?: string
+  ): Promise<GitHubResponse<{ items: Array<GitHubSearchItem> }>>;
+  listCommits(
+    owner: string,
+    repo: string,
+    config: GitHubConfig,
+    options?: { sha?: string; path?: string; per_page?: number }
+  ): Promise<GitHubResponse<Array<GitHubCommit>>>;
+  getCommit(
+    owner: string,
+    repo: string,
+    ref: string,
+    config: GitHubConfig
+  ): Promise<GitHubResponse<GitHubCommit>>;
+  resolveCommitSha(
+    owner: string,
+    repo: string,
+    ref: string,
+    config: GitHubConfig
+  ): Promise<GitHubResponse<string>>;
+}
+
+interface GitHubFileContent {
+  content: string; // Base64; empty for files over 1 MB
+  encoding: string;
+  sha: string;
+  size: number;
+  type: string;
   path: string;
   name: string;
 }
 
-interface GitHubSearchItem {
+export interface GitHubSearchItem {
   path: string;
   repository: {
     name: string;
@@ -42,7 +152,7 @@ interface GitHubSearchItem {
   html_url: string;
 }
 
-interface GitHubCommit {
+export interface GitHubCommit {
   sha: string;
   commit: {
     message: string;
@@ -53,13 +163,91 @@ interface GitHubCommit {
     };
   };
   html_url: string;
+  files?: Array<{
+    filename: string;
+    status: string;
+    additions: number;
+    deletions: number;
+    patch?: string;
+  }>; // Only present when fetching a single commit
 }
 
-interface GitHubRepository {
+export interface GitHubPullRequest {
+  number: number;
+  title: string;
+  body: string | null;
+  state: string;
+  merged: boolean;
+  draft?: boolean;
+  html_url: string;
+  user: { login: string };
+  base: { ref: string; sha: string };
+  head: { ref: string; sha: string };
+}
+
+export interface GitHubPullRequestFile {
+  filename: string;
+  previous_filename?: string; // Set for renamed files
+  status: string;
+  additions: number;
+  deletions: number;
+  changes: number;
+  patch?: string; // Missing for binary or very large diffs
+}
+
+export interface GitHubComment {
+  user: { login: string } | null;
+  body: string;
+  created_at: string;
+  html_url: string;
+  path?: string; // Review comments only
+  line?: number | null; // Review comments only; null once outdated
+  diff_hunk?: string; // Review comments only
+}
+
+export interface GitHubIssue {
+  number: number;
+  title: string;
+  body: string | null;
+  state: string;
+  html_url: string;
+  user: { login: string } | null;
+  comments: number;
+  pull_request?: { url: string }; // Present when the issue is a pull request
+}
+
+export interface GitHubDiscussion {
+  number: number;
+  title: string;
+  body: string;
+  url: string;
+  author: { login: string } | null;
+  answer: { body: string; author: { login: string } | null } | null;
+  comments: {
+    nodes: Array<{ body: string; author: { login: string } | null }>;
+  };
+}
+
+export interface BlameRange {
+  startLine: number;
+  endLine: number;
+  sha: string;
+  author: string;
+  date: string;
+  message: string; // First line of the commit message
+  url: string;
+}
+
+export interface GitHubRepository {
   name: string;
   full_name: string;
-  description?: string;
+  description: string | null;
   html_url: string;
+  private: boolean;
+  language: string | null;
+  stargazers_count: number;
+  updated_at: string;
+  owner: { login: string; avatar_url: string };
 }
 
 /**
@@ -84,28 +272,116 @@ async function callGitHubAPI<T = unknown>(
     };
   }
 
+  // Only plain GET requests are cached, per media type asked for
+  const cache =
+    !options.method || options.method === 'GET' ? getCacheBackend() : null;
+  const accept = new Headers(options.headers).get('Accept');
+  const cacheKey = cache
+    ? createCacheKey(accept ? `${endpoint} ${accept}` : endpoint, config.token)
+    : '';
+  const cached = cache ? await cache.get(cacheKey) : undefined;
+
+  if (cached && isImmutableEndpoint(endpoint)) {
+    recordCacheEvent('hit');
+    console.log(`💾 [GitHub API] Cache hit: ${endpoint}`);
+    return { result: cached.data as T };
+  }
+
   console.log(`🚀 [GitHub API] Calling ${endpoint}`);
 
   try {
-    const response = await fetch(`https://api.github.com${endpoint}`, {
-      ...options,
-      headers: {
-        Authorization: `token ${config.token}`,
-        Accept: 'application/vnd.github.v3+json',
-        'User-Agent': 'GitHub-Developer-Wiki',
-        ...options.headers,
-      },
-    });
+    let response: Response;
+    let body: string;
+    const scheduler = getFetchScheduler(config.token);
+
+    for (let attempt = 0; ; attempt++) {
+      const quotaError = await waitForQuota(config.token, endpoint);
+      if (quotaError) {
+        console.error(`❌ [GitHub API] ${endpoint} not sent: ${quotaError}`);
+        return { error: { code: 429, message: quotaError } };
+      }
+
+      // The body is read inside the task so the deadline covers it too
+      ({ response, body } = await scheduler.run(async signal => {
+        const url =
+          endpoint === '/graphql'
+            ? getGitHubGraphQLUrl()
+            : `${getGitHubApiUrl()}${endpoint}`;
+        const res = await fetch(url, {
+          ...options,
+          signal,
+          headers: {
+            Authorization: `token ${config.token}`,
+            Accept: 'application/vnd.github.v3+json',
+            'User-Agent': 'GitHub-Developer-Wiki',
+            ...(cached?.etag ? { 'If-None-Match': cached.etag } : {}),
+            ...options.headers,
+          },
+        });
+        return { response: res, body: await res.text() };
+      }));
+      recordRateLimit(config.token, endpoint, response.headers);
+
+      if (
+        (response.status !== 403 && response.status !== 429) ||
+        attempt >= MAX_RATE_LIMIT_RETRIES
+      ) {
+        break;
+      }
+
+      const limitKind = classifyLimitResponse(
+        response.status,
+        response.headers,
+        body
+      );
+      if (limitKind === 'permission') break;
+
+      // Primary limits wait for the reset; without one, back off instead
+      if (
+        limitKind === 'secondary' ||
+        getWaitTime(config.token, endpoint) === 0
+      ) {
+        const delay = registerBackoff(
+          config.token,
+          endpoint,
+          response.headers,
+          attempt
+        );
+        console.warn(
+          `⏳ [GitHub API] Rate limited on ${endpoint}, retrying in ${Math.ceil(delay / 1000)}s`
+        );
+      }
+    }
 
     const duration = Date.now() - startTime;
 
+    if (response.status === 304 && cache && cached) {
+      recordCacheEvent('revalidated');
+      console.log(`💾 [GitHub API] Not modified: ${endpoint} (${duration}ms)`);
+      await cache.set(cacheKey, { ...cached, storedAt: Date.now() });
+      return { result: cached.data as T };
+    }
+
     if (!response.ok) {
+      let errorCode = response.status;
       let errorMessage = `GitHub API error: ${response.status} ${response.statusText}`;
 
       if (response.status === 404) {
         errorMessage = 'Resource not found or repository is private';
-      } else if (response.status === 403) {
-        errorMessage = 'Rate limit exceeded or insufficient permissions';
+      } else if (response.status === 403 || response.status === 429) {
+        const limitKind = classifyLimitResponse(
+          response.status,
+          response.headers,
+          body
+        );
+        if (limitKind === 'permission') {
+          errorCode = 403;
+          errorMessage =
+            'Insufficient permissions - the GitHub token cannot access this resource';
+        } else {
+          errorCode = 429;
+          errorMessage = `GitHub ${getResourceForEndpoint(endpoint)} rate limit exceeded. Please wait before trying again.`;
+        }
       } else if (response.status === 401) {
         errorMessage = 'Invalid GitHub token or token expired';
       }
@@ -115,20 +391,48 @@ async function callGitHubAPI<T = unknown>(
       );
       return {
         error: {
-          code: response.status,
+          code: errorCode,
           message: errorMessage,
         },
       };
     }
 
-    const data = await response.json();
+    // Media types such as application/vnd.github.sha are plain text
+    const data = /json/.test(response.headers.get('content-type') || 'json')
+      ? JSON.parse(body)
+      : body;
     console.log(`✅ [GitHub API] SUCCESS: ${endpoint} (${duration}ms)`);
+
+    if (cache) {
+      recordCacheEvent('miss');
+      const etag = response.headers.get('etag');
+      // Without an ETag only commit-pinned responses are worth keeping
+      if (etag || isImmutableEndpoint(endpoint)) {
+        await cache.set(cacheKey, {
+          etag: etag || undefined,
+          data,
+          storedAt: Date.now(),
+        });
+        recordCacheEvent('store');
+      }
+    }
+
     return { result: data as T };
   } catch (error) {
     const duration = Date.now() - startTime;
     const errorMessage =
       error instanceof Error ? error.message : 'Unknown error';
 
+    if (isDeadlineExceeded(error)) {
+      console.error(`⌛ [GitHub API] ${endpoint} timed out (${duration}ms)`);
+      return {
+        error: {
+          code: -4,
+          message: `GitHub API request timed out: ${errorMessage}`,
+        },
+      };
+    }
+
     console.error(
       `💥 [GitHub API] Exception during call to ${endpoint} (${duration}ms):`,
       error
@@ -145,14 +449,19 @@ async function callGitHubAPI<T = unknown>(
 
 // Enhanced functions for intelligent code context retrieval
 
-export async function getFileContents(
+/**
+ * Read a text file. Files over 1 MB are fetched through the Git blobs API;
+ * binary, generated and oversized files come back with a marker in place
+ * of their content and `skipped` set.
+ */
+async function getGitHubFileContents(
   owner: string,
   repo: string,
   path: string,
   config: GitHubConfig,
   ref?: string
-): Promise<GitHubResponse<{ content: string; size: number; type: string }>> {
-  const endpoint = `/repos/${owner}/${repo}/contents/${path}${ref ? `?ref=${ref}` : ''}`;
+): Promise<GitHubResponse<RepositoryFile>> {
+  const endpoint = `/repos/${owner}/${repo}/contents/${path}${ref ? `?ref=${encodeURIComponent(ref)}` : ''}`;
   const response = await callGitHubAPI<GitHubFileContent>(endpoint, config);
 
   if (response.error) {
@@ -169,8 +478,45 @@ export async function getFileContents(
     };
   }
 
-  // Decode base64 content
-  const content = atob(data.content.replace(/\n/g, ''));
+  const skip = (reason: SkipReason) => ({
+    result: {
+      content: formatSkippedFileMarker(path, reason, data.size),
+      size: data.size,
+      type: data.type,
+      skipped: reason,
+    },
+  });
+
+  const pathSkipReason = getSkipReasonForPath(path);
+  if (pathSkipReason) {
+    return skip(pathSkipReason);
+  }
+  if (data.size > MAX_TEXT_FILE_SIZE) {
+    return skip('too-large');
+  }
+
+  // The contents API leaves content empty for files over 1 MB
+  let base64Content = data.content;
+  if (!base64Content && data.size > 0) {
+    const blobResult = await callGitHubAPI<{ content: string }>(
+      `/repos/${owner}/${repo}/git/blobs/${data.sha}`,
+      config
+    );
+    if (blobResult.error || !blobResult.result) {
+      return { error: blobResult.error || { code: -1, message: 'Empty blob' } };
+    }
+    base64Content = blobResult.result.content;
+  }
+
+  const bytes = decodeBase64(base64Content || '');
+  if (isBinaryData(bytes)) {
+    return skip('binary');
+  }
+
+  const content = decodeUtf8(bytes);
+  if (looksGenerated(content)) {
+    return skip('generated');
+  }
 
   return {
     result: {
@@ -181,6 +527,100 @@ export async function getFileContents(
   };
 }
 
+async function getGitHubRepositoryTree(
+  owner: string,
+  repo: string,
+  config: GitHubConfig,
+  ref: string
+): Promise<GitHubResponse<RepositoryTree>> {
+  const endpoint = `/repos/${owner}/${repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`;
+  return callGitHubAPI(endpoint, config);
+}
+
+/**
+ * Keyword code search. GitHub only indexes the default branch, so results
+ * may not exist on other refs.
+ */
+async function searchGitHubCode(
+  query: string,
+  config: GitHubConfig,
+  owner?: string,
+  repo?: string
+): Promise<GitHubResponse<{ items: Array<GitHubSearchItem> }>> {
+  const searchQuery = owner && repo ? `repo:${owner}/${repo} ${query}` : query;
+  const endpoint = `/search/code?q=${encodeURIComponent(searchQuery)}&per_page=10`;
+  return callGitHubAPI(endpoint, config);
+}
+
+async function listGitHubCommits(
+  owner: string,
+  repo: string,
+  config: GitHubConfig,
+  options?: { sha?: string; path?: string; per_page?: number }
+): Promise<GitHubResponse<Array<GitHubCommit>>> {
+  const params = new URLSearchParams();
+  if (options?.sha) params.append('sha', options.sha);
+  if (options?.path) params.append('path', options.path);
+  if (options?.per_page) params.append('per_page', options.per_page.toString());
+
+  const endpoint = `/repos/${owner}/${repo}/commits${params.toString() ? `?${params.toString()}` : ''}`;
+  return callGitHubAPI(endpoint, config);
+}
+
+async function getGitHubCommit(
+  owner: string,
+  repo: string,
+  ref: string,
+  config: GitHubConfig
+): Promise<GitHubResponse<GitHubCommit>> {
+  const endpoint = `/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`;
+  return callGitHubAPI(endpoint, config);
+}
+
+/**
+ * Only the SHA is asked for, not the commit with its files and patches
+ */
+async function resolveGitHubCommitSha(
+  owner: string,
+  repo: string,
+  ref: string,
+  config: GitHubConfig
+): Promise<GitHubResponse<string>> {
+  const endpoint = `/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`;
+  const result = await callGitHubAPI<string>(endpoint, config, {
+    headers: { Accept: 'application/vnd.github.sha' },
+  });
+  return result.result ? { result: result.result.trim() } : result;
+}
+
+const githubSource: RepositorySource = {
+  getFileContents: getGitHubFileContents,
+  getRepositoryTree: getGitHubRepositoryTree,
+  searchCode: searchGitHubCode,
+  listCommits: listGitHubCommits,
+  getCommit: getGitHubCommit,
+  resolveCommitSha: resolveGitHubCommitSha,
+};
+
+/**
+ * The deployment's repository source, chosen by REPOSITORY_SOURCE
+ */
+export function getRepositorySource(): RepositorySource {
+  return process.env.REPOSITORY_SOURCE === 'local-git'
+    ? localGitSource
+    : githubSource;
+}
+
+export async function getFileContents(
+  owner: string,
+  repo: string,
+  path: string,
+  config: GitHubConfig,
+  ref?: string
+): Promise<GitHubResponse<RepositoryFile>> {
+  return getRepositorySource().getFileContents(owner, repo, path, config, ref);
+}
+
 /**
  * Get repository structure to understand codebase layout
  */
@@ -188,12 +628,58 @@ export async function getRepositoryTree(
   owner: string,
   repo: string,
   config: GitHubConfig,
-  ref: string = 'main'
-): Promise<
-  GitHubResponse<{ tree: Array<{ path: string; type: string; size?: number }> }>
-> {
-  const endpoint = `/repos/${owner}/${repo}/git/trees/${ref}?recursive=1`;
-  return callGitHubAPI(endpoint, config);
+  ref: string = 'HEAD'
+): Promise<GitHubResponse<RepositoryTree>> {
+  return getRepositorySource().getRepositoryTree(owner, repo, config, ref);
+}
+
+/**
+ * Combine keyword and semantic results with reciprocal rank fusion
+ */
+export function rankHybridResults(
+  keywordItems: Array<{ path: string; score: number }>,
+  semanticMatches: SemanticMatch[],
+  limit: number = 5
+): Array<{ path: string; relevance: string }> {
+  const RRF_K = 60;
+  const ranked = new Map<
+    string,
+    { score: number; keywordRank?: number; semantic?: SemanticMatch }
+  >();
+
+  keywordItems.forEach((item, index) => {
+    const entry = ranked.get(item.path) || { score: 0 };
+    if (entry.keywordRank === undefined) {
+      entry.score += 1 / (RRF_K + index + 1);
+      entry.keywordRank = index + 1;
+    }
+    ranked.set(item.path, entry);
+  });
+
+  semanticMatches.forEach((match, index) => {
+    const entry = ranked.get(match.path) || { score: 0 };
+    if (!entry.semantic) {
+      entry.score += 1 / (RRF_K + index + 1);
+      entry.semantic = match;
+    }
+    ranked.set(match.path, entry);
+  });
+
+  return Array.from(ranked.entries())
+    .sort((a, b) => b[1].score - a[1].score)
+    .slice(0, limit)
+    .map(([path, entry]) => {
+      const reasons: string[] = [];
+      if (entry.keywordRank !== undefined) {
+        reasons.push(`keyword #${entry.keywordRank}`);
+      }
+      if (entry.semantic) {
+        reasons.push(
+          `semantic ${entry.semantic.score.toFixed(2)} (lines ${entry.semantic.startLine}-${entry.semantic.endLine})`
+        );
+      }
+      return { path, relevance: `Search match - ${reasons.join(', ')}` };
+    });
 }
 
 /**
@@ -203,46 +689,64 @@ export async function getRelevantCodeContext(
   owner: string,
   repo: string,
   query: string,
-  config: GitHubConfig
+  config: GitHubConfig,
+  options: RelevantContextOptions = {}
 ): Promise<{
   files: Array<{ path: string; content: string; relevance: string }>;
   error?: string;
 }> {
   try {
-    // First, search for code that matches the query
-    const searchResult = await searchCode(query, config, owner, repo);
+    // Search for code that matches the query, by keyword and by meaning
+    const [searchResult, semanticMatches] = await Promise.all([
+      searchCode(query, config, owner, repo),
+      options.semanticSearch
+        ? options.semanticSearch(query).catch(error => {
+            console.warn('Semantic search failed:', error);
+            return [];
+          })
+        : Promise.resolve([]),
+    ]);
 
-    if (searchResult.error) {
+    if (searchResult.error && semanticMatches.length === 0) {
       return { files: [], error: searchResult.error.message };
     }
 
-    const searchData = searchResult.result;
     const files: Array<{ path: string; content: string; relevance: string }> =
       [];
 
     // Get content for the most relevant files (limit to top 5)
-    const relevantFiles = searchData?.items?.slice(0, 5) || [];
-
-    for (const item of relevantFiles) {
-      try {
-        const fileResult = await getFileContents(
-          owner,
-          repo,
-          item.path,
-          config
-        );
+    const relevantFiles = rankHybridResults(
+      searchResult.result?.items || [],
+      semanticMatches
+    );
 
-        if (!fileResult.error && fileResult.result) {
-          files.push({
-            path: item.path,
-            content: fileResult.result.content,
-            relevance: `Search match - Score: ${item.score}`,
-          });
+    // Fetch in parallel; the scheduler bounds concurrency per token
+    const fetchedFiles = await Promise.all(
+      relevantFiles.map(async item => {
+        try {
+          const fileResult = await getFileContents(
+            owner,
+            repo,
+            item.path,
+            config,
+            options.ref
+          );
+          return fileResult.result
+            ? {
+                path: item.path,
+                content: fileResult.result.content,
+                relevance: item.relevance,
+              }
+            : null;
+        } catch (error) {
+          console.warn(`Failed to fetch ${item.path}:`, error);
+          return null;
         }
-      } catch (error) {
-        console.warn(`Failed to fetch ${item.path}:`, error);
-      }
-    }
+      })
+    );
+    fetchedFiles.forEach(file => {
+      if (file) files.push(file);
+    });
 
     // If no search results, try to get common important files
     if (files.length === 0) {
@@ -268,25 +772,28 @@ export async function getRelevantCodeContext(
         'main.rs',
       ];
 
-      for (const filePath of commonFiles) {
-        try {
-          const fileResult = await getFileContents(
-            owner,
-            repo,
-            filePath,
-            config
-          );
-          if (!fileResult.error && fileResult.result) {
+      // Probe a few candidates at a time, stopping once 3 are found
+      for (
+        let i = 0;
+        i < commonFiles.length && files.length < 3;
+        i += COMMON_FILE_BATCH_SIZE
+      ) {
+        const batch = await Promise.all(
+          commonFiles.slice(i, i + COMMON_FILE_BATCH_SIZE).map(filePath =>
+            getFileContents(owner, repo, filePath, config, options.ref)
+              .then(fileResult => ({ filePath, fileResult }))
+              .catch(() => null)
+          )
+        );
+        batch.forEach(entry => {
+          if (entry?.fileResult.result && files.length < 3) {
             files.push({
-              path: filePath,
-              content: fileResult.result.content,
+              path: entry.filePath,
+              content: entry.fileResult.result.content,
               relevance: 'Common project file',
             });
-            if (files.length >= 3) break; // Get up to 3 common files
           }
-        } catch {
-          // Continue to next file
-        }
+        });
       }
     }
 
@@ -306,7 +813,8 @@ export async function getRepositoryContext(
   owner: string,
   repo: string,
   query: string,
-  config: GitHubConfig
+  config: GitHubConfig,
+  options: RelevantContextOptions = {}
 ): Promise<{
   readme?: string;
   codeFiles: Array<{ path: string; content: string; relevance: string }>;
@@ -314,27 +822,15 @@ export async function getRepositoryContext(
   error?: string;
 }> {
   try {
-    // Get README for basic info
-    const readmeResult = await getFileContents(
-      owner,
-      repo,
-      'README.md',
-      config
-    );
+    // README, relevant code and the tree are independent; fetch together
+    const [readmeResult, codeContext, structureResult] = await Promise.all([
+      getFileContents(owner, repo, 'README.md', config, options.ref),
+      getRelevantCodeContext(owner, repo, query, config, options),
+      getRepositoryTree(owner, repo, config, options.ref),
+    ]);
     const readme = readmeResult.error
       ? undefined
       : readmeResult.result?.content;
-
-    // Get relevant code files based on the query
-    const codeContext = await getRelevantCodeContext(
-      owner,
-      repo,
-      query,
-      config
-    );
-
-    // Get repository structure (directory listing)
-    const structureResult = await getRepositoryTree(owner, repo, config);
     const structure = structureResult.error
       ? undefined
       : structureResult.result;
@@ -347,7 +843,8 @@ export async function getRepositoryContext(
         query,
         structure.tree,
         config,
-        codeContext.files.map(f => f.path)
+        codeContext.files.map(f => f.path),
+        options.ref
       );
       codeContext.files.push(...additionalFiles);
     }
@@ -375,14 +872,20 @@ async function getAdditionalRelevantFiles(
   query: string,
   tree: Array<{ path: string; type: string; size?: number }>,
   config: GitHubConfig,
-  excludePaths: string[]
+  excludePaths: string[],
+  ref?: string
 ): Promise<Array<{ path: string; content: string; relevance: string }>> {
   const files: Array<{ path: string; content: string; relevance: string }> = [];
   const queryLower = query.toLowerCase();
 
   // Score files based on relevance to query and common patterns
   const scoredFiles = tree
-    .filter(item => item.type === 'blob' && !excludePaths.includes(item.path))
+    .filter(
+      item =>
+        item.type === 'blob' &&
+        !excludePaths.includes(item.path) &&
+        !getSkipReasonForPath(item.path)
+    )
     .map(item => {
       let score = 0;
       const pathLower = item.path.toLowerCase();
@@ -420,21 +923,33 @@ async function getAdditionalRelevantFiles(
     .sort((a, b) => b.score - a.score)
     .slice(0, 5); // Top 5 additional files
 
-  // Fetch content for scored files
-  for (const item of scoredFiles) {
-    try {
-      const fileResult = await getFileContents(owner, repo, item.path, config);
-      if (!fileResult.error && fileResult.result) {
-        files.push({
-          path: item.path,
-          content: fileResult.result.content,
-          relevance: `Structure analysis - Score: ${item.score}`,
-        });
+  // Fetch content for scored files in parallel
+  const fetchedFiles = await Promise.all(
+    scoredFiles.map(async item => {
+      try {
+        const fileResult = await getFileContents(
+          owner,
+          repo,
+          item.path,
+          config,
+          ref
+        );
+        return fileResult.result
+          ? {
+              path: item.path,
+              content: fileResult.result.content,
+              relevance: `Structure analysis - Score: ${item.score}`,
+            }
+          : null;
+      } catch (error) {
+        console.warn(`Failed to fetch additional file ${item.path}:`, error);
+        return null;
       }
-    } catch (error) {
-      console.warn(`Failed to fetch additional file ${item.path}:`, error);
-    }
-  }
+    })
+  );
+  fetchedFiles.forEach(file => {
+    if (file) files.push(file);
+  });
 
   return files;
 }
@@ -445,16 +960,35 @@ export async function searchCode(
   owner?: string,
   repo?: string
 ): Promise<GitHubResponse<{ items: Array<GitHubSearchItem> }>> {
-  const searchQuery = owner && repo ? `repo:${owner}/${repo} ${query}` : query;
-  const endpoint = `/search/code?q=${encodeURIComponent(searchQuery)}&per_page=10`;
-  return callGitHubAPI(endpoint, config);
+  return getRepositorySource().searchCode(query, config, owner, repo);
 }
 
 export async function searchRepositories(
   query: string,
-  config: GitHubConfig
+  config: GitHubConfig,
+  per_page: number = 10
 ): Promise<GitHubResponse<{ items: Array<GitHubRepository> }>> {
-  const endpoint = `/search/repositories?q=${encodeURIComponent(query)}&per_page=10`;
+  const endpoint = `/search/repositories?q=${encodeURIComponent(query)}&per_page=${per_page}`;
+  return callGitHubAPI(endpoint, config);
+}
+
+/**
+ * Repositories of the signed-in user, most recently updated first
+ */
+export async function listUserRepositories(
+  config: GitHubConfig,
+  affiliation: 'owner' | 'collaborator' | 'organization_member',
+  per_page: number = 30
+): Promise<GitHubResponse<Array<GitHubRepository>>> {
+  const endpoint = `/user/repos?affiliation=${affiliation}&sort=updated&per_page=${per_page}`;
+  return callGitHubAPI(endpoint, config);
+}
+
+export async function listStarredRepositories(
+  config: GitHubConfig,
+  per_page: number = 30
+): Promise<GitHubResponse<Array<GitHubRepository>>> {
+  const endpoint = `/user/starred?sort=updated&per_page=${per_page}`;
   return callGitHubAPI(endpoint, config);
 }
 
@@ -464,22 +998,28 @@ export async function listCommits(
   config: GitHubConfig,
   options?: { sha?: string; path?: string; per_page?: number }
 ): Promise<GitHubResponse<Array<GitHubCommit>>> {
-  const params = new URLSearchParams();
-  if (options?.sha) params.append('sha', options.sha);
-  if (options?.path) params.append('path', options.path);
-  if (options?.per_page) params.append('per_page', options.per_page.toString());
-
-  const endpoint = `/repos/${owner}/${repo}/commits${params.toString() ? `?${params.toString()}` : ''}`;
-  return callGitHubAPI(endpoint, config);
+  return getRepositorySource().listCommits(owner, repo, config, options);
 }
 
+/**
+ * A commit with its changed files and patches
+ */
 export async function getCommit(
   owner: string,
   repo: string,
   ref: string,
   config: GitHubConfig
 ): Promise<GitHubResponse<GitHubCommit>> {
-  const endpoint = `/repos/${owner}/${repo}/commits/${ref}`;
+  return getRepositorySource().getCommit(owner, repo, ref, config);
+}
+
+export async function getPullRequest(
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  config: GitHubConfig
+): Promise<GitHubResponse<GitHubPullRequest>> {
+  const endpoint = `/repos/${owner}/${repo}/pulls/${pullNumber}`;
   return callGitHubAPI(endpoint, config);
 }
 
@@ -488,18 +1028,287 @@ export async function getPullRequestFiles(
   repo: string,
   pullNumber: number,
   config: GitHubConfig
-): Promise<
-  GitHubResponse<
-    Array<{
-      filename: string;
-      status: string;
-      additions: number;
-      deletions: number;
-      changes: number;
-      patch?: string;
-    }>
-  >
-> {
-  const endpoint = `/repos/${owner}/${repo}/pulls/${pullNumber}/files`;
+): Promise<GitHubResponse<Array<GitHubPullRequestFile>>> {
+  const endpoint = `/repos/${owner}/${repo}/pulls/${pullNumber}/files?per_page=100`;
+  return callGitHubAPI(endpoint, config);
+}
+
+export async function listPullRequestCommits(
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  config: GitHubConfig
+): Promise<GitHubResponse<Array<GitHubCommit>>> {
+  const endpoint = `/repos/${owner}/${repo}/pulls/${pullNumber}/commits?per_page=100`;
   return callGitHubAPI(endpoint, config);
 }
+
+/**
+ * Search issues and pull requests in a repository
+ */
+export async function searchIssues(
+  owner: string,
+  repo: string,
+  query: string,
+  config: GitHubConfig,
+  options?: { type?: 'issue' | 'pr'; per_page?: number }
+): Promise<GitHubResponse<{ items: Array<GitHubIssue> }>> {
+  const qualifiers = `repo:${owner}/${repo}${options?.type ? ` is:${options.type}` : ''}`;
+  const endpoint = `/search/issues?q=${encodeURIComponent(`${qualifiers} ${query}`)}&per_page=${options?.per_page || 5}`;
+  return callGitHubAPI(endpoint, config);
+}
+
+export async function getIssue(
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  config: GitHubConfig
+): Promise<GitHubResponse<GitHubIssue>> {
+  const endpoint = `/repos/${owner}/${repo}/issues/${issueNumber}`;
+  return callGitHubAPI(endpoint, config);
+}
+
+const DISCUSSION_SEARCH_QUERY = `query ($search: String!, $first: Int!) {
+  search(query: $search, type: DISCUSSION, first: $first) {
+    nodes {
+      ... on Discussion {
+        number
+        title
+        body
+        url
+        author { login }
+        answer { body author { login } }
+        comments(first: 5) { nodes { body author { login } } }
+      }
+    }
+  }
+}`;
+
+/**
+ * Search GitHub Discussions in a repository. Discussions are only
+ * available through the GraphQL API.
+ */
+export async function searchDiscussions(
+  owner: string,
+  repo: string,
+  query: string,
+  config: GitHubConfig,
+  first: number = 3
+): Promise<GitHubResponse<Array<GitHubDiscussion>>> {
+  const response = await callGitHubAPI<{
+    data?: { search: { nodes: Array<GitHubDiscussion> } };
+    errors?: Array<{ message: string }>;
+  }>('/graphql', config, {
+    method: 'POST',
+    body: JSON.stringify({
+      query: DISCUSSION_SEARCH_QUERY,
+      variables: { search: `repo:${owner}/${repo} ${query}`, first },
+    }),
+  });
+  if (response.error) return { error: response.error };
+
+  const { data, errors } = response.result || {};
+  if (errors?.length || !data) {
+    return {
+      error: {
+        code: 400,
+        message: errors?.[0]?.message || 'Discussion search failed',
+      },
+    };
+  }
+
+  // Nodes that are not discussions come back as empty objects
+  return { result: data.search.nodes.filter(node => node.number) };
+}
+
+/**
+ * Inline review comments on a pull request's diff
+ */
+export async function listPullRequestReviewComments(
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  config: GitHubConfig
+): Promise<GitHubResponse<Array<GitHubComment>>> {
+  const endpoint = `/repos/${owner}/${repo}/pulls/${pullNumber}/comments?per_page=100`;
+  return callGitHubAPI(endpoint, config);
+}
+
+/**
+ * Conversation comments on an issue or pull request
+ */
+export async function listIssueComments(
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  config: GitHubConfig
+): Promise<GitHubResponse<Array<GitHubComment>>> {
+  const endpoint = `/repos/${owner}/${repo}/issues/${issueNumber}/comments?per_page=100`;
+  return callGitHubAPI(endpoint, config);
+}
+
+const BLAME_QUERY = `query ($owner: String!, $repo: String!, $ref: String!, $path: String!) {
+  repository(owner: $owner, name: $repo) {
+    object(expression: $ref) {
+      ... on Commit {
+        blame(path: $path) {
+          ranges {
+            startingLine
+            endingLine
+            commit {
+              oid
+              messageHeadline
+              url
+              author { name date }
+            }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+interface BlameQueryResult {
+  data?: {
+    repository: {
+      object: {
+        blame?: {
+          ranges: Array<{
+            startingLine: number;
+            endingLine: number;
+            commit: {
+              oid: string;
+              messageHeadline: string;
+              url: string;
+              author: { name: string | null; date: string | null } | null;
+            };
+          }>;
+        };
+      } | null;
+    } | null;
+  };
+  errors?: Array<{ message: string }>;
+}
+
+/**
+ * Which commit last changed each line of a file. Blame is only available
+ * through the GraphQL API.
+ */
+export async function getBlame(
+  owner: string,
+  repo: string,
+  path: string,
+  ref: string,
+  config: GitHubConfig
+): Promise<GitHubResponse<BlameRange[]>> {
+  const response = await callGitHubAPI<BlameQueryResult>('/graphql', config, {
+    method: 'POST',
+    body: JSON.stringify({
+      query: BLAME_QUERY,
+      variables: { owner, repo, ref, path },
+    }),
+  });
+  if (response.error) return { error: response.error };
+
+  // GraphQL reports errors in a successful response
+  const { data, errors } = response.result || {};
+  const blame = data?.repository?.object?.blame;
+  if (errors?.length || !blame) {
+    return {
+      error: {
+        code: 404,
+        message: errors?.[0]?.message || `No blame available for ${path}`,
+      },
+    };
+  }
+
+  return {
+    result: blame.ranges.map(range => ({
+      startLine: range.startingLine,
+      endLine: range.endingLine,
+      sha: range.commit.oid,
+      author: range.commit.author?.name || 'unknown',
+      date: range.commit.author?.date || '',
+      message: range.commit.messageHeadline,
+      url: range.commit.url,
+    })),
+  };
+}
+
+/**
+ * Resolve a branch, tag or "HEAD" to a commit SHA
+ */
+export async function resolveCommitSha(
+  owner: string,
+  repo: string,
+  ref: string,
+  config: GitHubConfig
+): Promise<string | null> {
+  const result = await getRepositorySource().resolveCommitSha(
+    owner,
+    repo,
+    ref,
+    config
+  );
+  return result.result || null;
+}
+
+/**
+ * Settle the ref and focus path of a parsed /blob/ or /tree/ link. Branch
+ * names may contain slashes, so ever longer prefixes of "<ref>/<path>"
+ * are tried as the ref. Returns null when no prefix names a commit.
+ */
+export async function resolveDeepLink(
+  owner: string,
+  repo: string,
+  link: { ref: string; focus?: RepositoryFocus },
+  config: GitHubConfig
+): Promise<{ ref: string; focus?: RepositoryFocus } | null> {
+  const segments = [link.ref, ...(link.focus?.path.split('/') || [])];
+
+  for (let i = 1; i <= Math.min(segments.length, MAX_REF_SEGMENTS); i++) {
+    const ref = segments.slice(0, i).join('/');
+    if (await resolveCommitSha(owner, repo, ref, config)) {
+      const path = segments.slice(i).join('/');
+      return {
+        ref,
+        focus: link.focus && path ? { ...link.focus, path } : undefined,
+      };
+    }
+  }
+
+  return null;
+}
+
+export async function listBranches(
+  owner: string,
+  repo: string,
+  config: GitHubConfig
+): Promise<GitHubResponse<Array<{ name: string; commit: { sha: string } }>>> {
+  const endpoint = `/repos/${owner}/${repo}/branches?per_page=100`;
+  return callGitHubAPI(endpoint, config);
+}
+
+export async function listTags(
+  owner: string,
+  repo: string,
+  config: GitHubConfig
+): Promise<GitHubResponse<Array<{ name: string; commit: { sha: string } }>>> {
+  const endpoint = `/repos/${owner}/${repo}/tags?per_page=100`;
+  return callGitHubAPI(endpoint, config);
+}
+
+/**
+ * Current quota for each rate-limit resource. Does not count against
+ * the quota itself.
+ */
+export async function getRateLimits(config: GitHubConfig): Promise<
+  GitHubResponse<{
+    resources: Record<
+      string,
+      { limit: number; remaining: number; reset: number; used: number }
+    >;
+  }>
+> {
+  return callGitHubAPI('/rate_limit', config);
+}
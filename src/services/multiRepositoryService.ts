@@ -0,0 +1,72 @@
+/**
+ * Multi-Repository Service - Questions that span several repositories
+ *
+ * A thread can link related repositories, e.g. a frontend, its API and a
+ * shared SDK. Each repository is searched on its own and the results are
+ * merged with paths prefixed by owner/repo, so the prompt, citations and
+ * sources all show which repository a file comes from.
+ */
+import { PackableFile } from './contextPackingService';
+
+export interface RepositorySlice {
+  name: string; // owner/repo
+  readme?: string;
+  codeFiles: PackableFile[];
+  structure?: { tree: Array<{ path: string; type: string; size?: number }> };
+}
+
+export function getRepositoryName(repository: {
+  owner: string;
+  repo: string;
+}): string {
+  return `${repository.owner}/${repository.repo}`;
+}
+
+/**
+ * Merge per-repository context into one, prefixing every path with its
+ * repository. Files are interleaved by rank so each repository's best
+ * matches come before any repository's weaker ones; READMEs follow the
+ * code files.
+ */
+export function mergeRepositoryContexts(slices: RepositorySlice[]): {
+  codeFiles: PackableFile[];
+  structure: { tree: Array<{ path: string; type: string; size?: number }> };
+} {
+  const codeFiles: PackableFile[] = [];
+  const maxRank = Math.max(0, ...slices.map(slice => slice.codeFiles.length));
+
+  for (let rank = 0; rank < maxRank; rank++) {
+    slices.forEach(slice => {
+      const file = slice.codeFiles[rank];
+      if (file) {
+        codeFiles.push({
+          ...file,
+          path: `${slice.name}/${file.path}`,
+          relevance: `${slice.name}: ${file.relevance}`,
+        });
+      }
+    });
+  }
+
+  slices.forEach(slice => {
+    if (slice.readme) {
+      codeFiles.push({
+        path: `${slice.name}/README.md`,
+        content: slice.readme,
+        relevance: `README of ${slice.name}`,
+      });
+    }
+  });
+
+  return {
+    codeFiles,
+    structure: {
+      tree: slices.flatMap(slice =>
+        (slice.structure?.tree || []).map(entry => ({
+          ...entry,
+          path: `${slice.name}/${entry.path}`,
+        }))
+      ),
+    },
+  };
+}
@@ -0,0 +1,274 @@
+/**
+ * Pull Request Service - Context for reviewing a pull request
+ *
+ * Loads a pull request's description, commits, diff, review comments and
+ * the new versions of the files it touches, and fits them into the model's
+ * window with the diff taking priority over whole-file context.
+ */
+import { ContextReport } from '@/types/query';
+import { addLineNumbers } from '@/utils/citationUtils';
+import { addPatchLineNumbers, reconstructFromPatch } from '@/utils/diffUtils';
+import { getSkipReasonForPath } from '@/utils/fileUtils';
+import { estimateTokens, truncateToTokens } from '@/utils/tokenUtils';
+
+import { PackableFile, packRepositoryContext } from './contextPackingService';
+import {
+  GitHubComment,
+  GitHubCommit,
+  GitHubConfig,
+  GitHubPullRequest,
+  GitHubPullRequestFile,
+  getFileContents,
+  getPullRequest,
+  getPullRequestFiles,
+  listIssueComments,
+  listPullRequestCommits,
+  listPullRequestReviewComments,
+} from './mcpService';
+
+export interface PullRequestContext {
+  pullRequest: GitHubPullRequest;
+  files: GitHubPullRequestFile[];
+  commits: GitHubCommit[];
+  reviewComments: GitHubComment[];
+  comments: GitHubComment[];
+  touchedFiles: Array<{ path: string; content: string }>; // At the head commit
+}
+
+export interface PackedPullRequestContext {
+  overview: string;
+  discussion?: string;
+  patches: PackableFile[];
+  touchedFiles: PackableFile[];
+  citableFiles: Map<string, string>; // New file versions, for citations
+  report: ContextReport;
+}
+
+// Touched files fetched in full, largest changes first
+const MAX_TOUCHED_FILES = 10;
+// Shares of the available budget
+const DESCRIPTION_SHARE = 0.1;
+const DISCUSSION_SHARE = 0.15;
+
+/**
+ * Fetch everything needed to review a pull request
+ */
+export async function getPullRequestContext(
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  config: GitHubConfig
+): Promise<{ context?: PullRequestContext; error?: string }> {
+  const pullRequest = await getPullRequest(owner, repo, pullNumber, config);
+  if (!pullRequest.result) {
+    return {
+      error:
+        pullRequest.error?.code === 404
+          ? `Pull request #${pullNumber} was not found in ${owner}/${repo}.`
+          : pullRequest.error?.message || 'Failed to load the pull request',
+    };
+  }
+
+  const [files, commits, reviewComments, comments] = await Promise.all([
+    getPullRequestFiles(owner, repo, pullNumber, config),
+    listPullRequestCommits(owner, repo, pullNumber, config),
+    listPullRequestReviewComments(owner, repo, pullNumber, config),
+    listIssueComments(owner, repo, pullNumber, config),
+  ]);
+
+  if (!files.result) {
+    return {
+      error: files.error?.message || 'Failed to load the pull request diff',
+    };
+  }
+
+  const headSha = pullRequest.result.head.sha;
+  const filesToFetch = files.result
+    .filter(
+      file => file.status !== 'removed' && !getSkipReasonForPath(file.filename)
+    )
+    .sort((a, b) => b.changes - a.changes)
+    .slice(0, MAX_TOUCHED_FILES);
+
+  const touchedFiles = (
+    await Promise.all(
+      filesToFetch.map(async file => {
+        const contents = await getFileContents(
+          owner,
+          repo,
+          file.filename,
+          config,
+          headSha
+        );
+        return contents.result && !contents.result.skipped
+          ? { path: file.filename, content: contents.result.content }
+          : null;
+      })
+    )
+  ).filter((file): file is { path: string; content: string } => !!file);
+
+  return {
+    context: {
+      pullRequest: pullRequest.result,
+      files: files.result,
+      commits: commits.result || [],
+      reviewComments: reviewComments.result || [],
+      comments: comments.result || [],
+      touchedFiles,
+    },
+  };
+}
+
+function formatFileChange(file: GitHubPullRequestFile): string {
+  const rename = file.previous_filename
+    ? ` (renamed from ${file.previous_filename})`
+    : '';
+  return `- ${file.filename}${rename}: ${file.status}, +${file.additions} -${file.deletions}`;
+}
+
+function formatOverview(
+  pullRequest: GitHubPullRequest,
+  files: GitHubPullRequestFile[],
+  commits: GitHubCommit[],
+  descriptionTokens: number
+): string {
+  const state = pullRequest.merged
+    ? 'merged'
+    : `${pullRequest.draft ? 'draft, ' : ''}${pullRequest.state}`;
+
+  return `Pull request #${pullRequest.number}: ${pullRequest.title}
+Author: ${pullRequest.user.login}
+State: ${state}
+Merging ${pullRequest.head.ref} (${pullRequest.head.sha}) into ${pullRequest.base.ref} (${pullRequest.base.sha})
+
+Description:
+${pullRequest.body?.trim() ? truncateToTokens(pullRequest.body.trim(), descriptionTokens) : '(no description)'}
+
+Commits (${commits.length}):
+${commits.map(commit => `- ${commit.sha.substring(0, 7)} ${commit.commit.message.split('\n')[0]}`).join('\n')}
+
+Changed files (${files.length}):
+${files.map(formatFileChange).join('\n')}`;
+}
+
+function formatComment(comment: GitHubComment): string {
+  const author = comment.user?.login || 'ghost';
+  const location = comment.path
+    ? ` on ${comment.path}${comment.line ? ` line ${comment.line}` : ' (outdated)'}`
+    : '';
+  return `${author}${location}:\n${comment.body.trim()}`;
+}
+
+function formatDiscussion(
+  reviewComments: GitHubComment[],
+  comments: GitHubComment[]
+): string | undefined {
+  const all = [...comments, ...reviewComments].sort((a, b) =>
+    a.created_at.localeCompare(b.created_at)
+  );
+  return all.length > 0 ? all.map(formatComment).join('\n\n') : undefined;
+}
+
+/**
+ * Fit a pull request into the token budget: the overview always, then the
+ * discussion, the diff of each file and, with whatever is left, the full
+ * new versions of the touched files
+ */
+export function packPullRequestContext(
+  context: PullRequestContext,
+  options: { contextLength: number; reservedTokens: number }
+): PackedPullRequestContext {
+  const budgetTokens = Math.max(
+    0,
+    options.contextLength - options.reservedTokens
+  );
+  let reservedTokens = options.reservedTokens;
+
+  const overview = formatOverview(
+    context.pullRequest,
+    context.files,
+    context.commits,
+    Math.floor(budgetTokens * DESCRIPTION_SHARE)
+  );
+  reservedTokens += estimateTokens(overview);
+
+  const fullDiscussion = formatDiscussion(
+    context.reviewComments,
+    context.comments
+  );
+  const discussion = fullDiscussion
+    ? truncateToTokens(
+        fullDiscussion,
+        Math.floor(budgetTokens * DISCUSSION_SHARE)
+      )
+    : undefined;
+  if (discussion) reservedTokens += estimateTokens(discussion);
+
+  // Largest changes first, so small edits are what gets dropped
+  const patches = packRepositoryContext(
+    {
+      codeFiles: context.files
+        .filter(file => file.patch)
+        .sort((a, b) => b.changes - a.changes)
+        .map(file => ({
+          path: file.filename,
+          content: addPatchLineNumbers(file.patch!),
+          relevance: file.status,
+        })),
+    },
+    { contextLength: options.contextLength, reservedTokens }
+  );
+  reservedTokens += patches.report.usedTokens;
+
+  const touchedFiles = packRepositoryContext(
+    {
+      codeFiles: context.touchedFiles.map(file => ({
+        path: file.path,
+        content: addLineNumbers(file.content),
+        relevance: 'file touched by the pull request',
+      })),
+    },
+    { contextLength: options.contextLength, reservedTokens }
+  );
+
+  // Only what the model saw can be cited: full files where included,
+  // otherwise the lines shown in the diff
+  const citableFiles = new Map<string, string>();
+  const includedPatches = new Set(patches.codeFiles.map(f => f.path));
+  context.files
+    .filter(file => includedPatches.has(file.filename))
+    .filter(file => file.status !== 'removed')
+    .forEach(file =>
+      citableFiles.set(file.filename, reconstructFromPatch(file.patch!))
+    );
+  const includedTouched = new Set(touchedFiles.codeFiles.map(f => f.path));
+  context.touchedFiles
+    .filter(file => includedTouched.has(file.path))
+    .forEach(file => citableFiles.set(file.path, file.content));
+
+  return {
+    overview,
+    discussion,
+    patches: patches.codeFiles,
+    touchedFiles: touchedFiles.codeFiles,
+    citableFiles,
+    report: {
+      contextLength: options.contextLength,
+      budgetTokens,
+      usedTokens:
+        reservedTokens +
+        touchedFiles.report.usedTokens -
+        options.reservedTokens,
+      includedFiles: patches.codeFiles.length,
+      truncated: [
+        ...(discussion !== fullDiscussion ? ['review discussion'] : []),
+        ...patches.report.truncated.map(path => `${path} (diff)`),
+        ...touchedFiles.report.truncated,
+      ],
+      dropped: [
+        ...patches.report.dropped.map(path => `${path} (diff)`),
+        ...touchedFiles.report.dropped,
+      ],
+    },
+  };
+}
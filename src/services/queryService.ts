@@ -2,33 +2,110 @@
  * Query Service - Handles LangChain orchestration for GitHub repository queries
  * Uses functional programming approach with multi-provider LLM support
  */
-import { ChatAnthropic } from '@langchain/anthropic';
 import { BaseChatModel } from '@langchain/core/language_models/chat_models';
-import { HumanMessage, SystemMessage } from '@langchain/core/messages';
-import { ChatOpenAI } from '@langchain/openai';
-
-import { CodeReference } from '@/types/github';
-import { LLMProvider } from '@/types/llm';
-
-import { GitHubConfig, getRepositoryContext } from './mcpService';
+import {
+  BaseMessage,
+  HumanMessage,
+  SystemMessage,
+} from '@langchain/core/messages';
+
+import { CodeReference, IssueReference, RepositoryFocus } from '@/types/github';
+import { LLMProvider, ProviderSettings } from '@/types/llm';
+import {
+  ContextReport,
+  ContextSource,
+  ConversationTurn,
+  QueryMode,
+  ToolTraceEvent,
+} from '@/types/query';
+import {
+  CITATION_INSTRUCTIONS,
+  CitableRepository,
+  addLineNumbers,
+  buildCitationReferences,
+  buildRepositoryCitationReferences,
+} from '@/utils/citationUtils';
+import { toGitHubUrl } from '@/utils/githubUtils';
+import { estimateTokens } from '@/utils/tokenUtils';
+
+import { runRepositoryAgent } from './agentService';
+import { PackableFile, packRepositoryContext } from './contextPackingService';
+import { buildConversationMessages } from './conversationService';
+import { createEmbedder } from './embeddingService';
+import {
+  HistoryContext,
+  formatHistoryContext,
+  getHistoryContext,
+  isHistoryQuestion,
+} from './historyService';
+import { createSemanticSearch } from './indexService';
+import {
+  ISSUE_CITATION_INSTRUCTIONS,
+  IssueThread,
+  buildIssueReferences,
+  formatIssueContext,
+  getIssueContext,
+} from './issueService';
+import { createChatModel, getModelContextLength } from './llmService';
+import { createMcpTools } from './mcpClientService';
+import {
+  GitHubConfig,
+  RelevantContextOptions,
+  getFileContents,
+  getRepositoryContext,
+  resolveCommitSha,
+} from './mcpService';
+import {
+  RepositorySlice,
+  getRepositoryName,
+  mergeRepositoryContexts,
+} from './multiRepositoryService';
+import {
+  getPullRequestContext,
+  packPullRequestContext,
+} from './pullRequestService';
+
+// Room left for the model's answer and for message framing
+const RESPONSE_RESERVE_TOKENS = 4096;
+const PROMPT_OVERHEAD_TOKENS = 200;
+// Share of the context budget given to commit history and blame
+const HISTORY_SHARE = 0.25;
+// Share given to issues, pull requests and discussions
+const ISSUE_SHARE = 0.2;
+// Low, so answers stay close to the repository context
+const TEMPERATURE = 0.1;
 
 export interface GitHubRepo {
   owner: string;
   repo: string;
 }
 
+export interface LinkedRepository extends GitHubRepo {
+  githubToken: string; // Tokens can be scoped to a single repository
+}
+
 export interface QueryContext {
   repository: GitHubRepo;
+  linkedRepositories?: LinkedRepository[]; // Also searched in standard mode
+  ref?: string; // Branch, tag or SHA the thread is pinned to
+  pullNumber?: number; // Review a pull request instead of a branch
   query: string;
+  history?: ConversationTurn[]; // Prior turns of the thread, oldest first
   githubToken: string;
   llmConfig: {
     provider: LLMProvider;
     apiKey: string;
     model: string;
     baseUrl?: string;
+    settings?: ProviderSettings;
   };
+  mode?: QueryMode;
+  maxSteps?: number; // Agent mode tool-calling step limit
+  sources?: ContextSource[]; // Standard mode context sources
+  focus?: RepositoryFocus; // File or directory the question is scoped to
   streaming?: boolean;
   onToken?: (token: string) => void;
+  onToolEvent?: (event: ToolTraceEvent) => void;
 }
 
 export interface QueryResult {
@@ -36,6 +113,21 @@ export interface QueryResult {
   response?: string;
   sources?: string[];
   codeReferences?: CodeReference[];
+  issueReferences?: IssueReference[];
+  toolTrace?: ToolTraceEvent[];
+  contextReport?: ContextReport;
+  error?: string;
+}
+
+interface PinnedRepository {
+  repository: GitHubRepo;
+  ref?: string; // As requested; unset for the default branch
+  commitSha: string;
+}
+
+interface LinkedRepositoryContext extends RepositorySlice {
+  repository: GitHubRepo;
+  commitSha: string;
   error?: string;
 }
 
@@ -47,17 +139,90 @@ export async function processQuery(
 ): Promise<QueryResult> {
   try {
     // Initialize LLM based on provider
-    const llm = createLLM(context.llmConfig);
+    const llm = await createChatModel(context.llmConfig, TEMPERATURE);
 
-    // Get comprehensive repository context using GitHub API service
     const githubConfig: GitHubConfig = { token: context.githubToken };
-    const repositoryContext = await getRepositoryContext(
+
+    // Pull request threads are pinned to the pull request's head commit
+    if (context.pullNumber) {
+      return await processPullRequestQuery(
+        context,
+        context.pullNumber,
+        llm,
+        githubConfig,
+        await buildConversationMessages(context.history || [], llm)
+      );
+    }
+
+    // Pin every fetch and link to one commit so answers are consistent
+    const commitSha = await resolveCommitSha(
       context.repository.owner,
       context.repository.repo,
-      context.query,
+      context.ref || 'HEAD',
       githubConfig
     );
 
+    // Without a commit the repository is missing or not readable with this
+    // token, so nothing (such as a shared local clone) is read
+    if (!commitSha) {
+      return {
+        success: false,
+        error: context.ref
+          ? `Branch, tag or commit "${context.ref}" was not found in ${context.repository.owner}/${context.repository.repo}.`
+          : `Repository ${context.repository.owner}/${context.repository.repo} was not found or is not accessible.`,
+      };
+    }
+
+    // Replay earlier turns so follow-up questions keep their context
+    const historyMessages = await buildConversationMessages(
+      context.history || [],
+      llm
+    );
+
+    if (context.mode === 'agent') {
+      return await processAgentQuery(
+        context,
+        commitSha,
+        llm,
+        githubConfig,
+        historyMessages
+      );
+    }
+
+    // Get comprehensive repository context using GitHub API service, and
+    // any issues and discussions selected as sources alongside it
+    const issueSources = (context.sources || []).filter(
+      source => source !== 'code'
+    );
+    const [repositoryContext, issues, linkedContexts] = await Promise.all([
+      getRepositoryContext(
+        context.repository.owner,
+        context.repository.repo,
+        context.query,
+        githubConfig,
+        await getRetrievalOptions(
+          context,
+          context.repository,
+          commitSha,
+          githubConfig
+        )
+      ),
+      issueSources.length > 0
+        ? getIssueContext(
+            context.repository.owner,
+            context.repository.repo,
+            context.query,
+            issueSources,
+            githubConfig
+          )
+        : Promise.resolve([]),
+      Promise.all(
+        (context.linkedRepositories || []).map(repository =>
+          getLinkedRepositoryContext(context, repository)
+        )
+      ),
+    ]);
+
     if (repositoryContext.error) {
       return {
         success: false,
@@ -65,12 +230,67 @@ export async function processQuery(
       };
     }
 
+    const linkedError = linkedContexts.find(linked => linked.error);
+    if (linkedError) {
+      return {
+        success: false,
+        error: `Failed to fetch repository data for ${linkedError.name}: ${linkedError.error}`,
+      };
+    }
+
+    // A deep-linked file or directory comes before the retrieved files
+    if (context.focus) {
+      repositoryContext.codeFiles = await focusCodeFiles(
+        repositoryContext.codeFiles,
+        context.focus,
+        context.repository,
+        githubConfig,
+        commitSha
+      );
+    }
+
+    // "When" and "why" questions also need the history of the relevant files
+    const history = isHistoryQuestion(context.query)
+      ? await getHistoryContext(
+          context.repository.owner,
+          context.repository.repo,
+          repositoryContext.codeFiles.map(file => file.path),
+          githubConfig,
+          commitSha
+        )
+      : undefined;
+
+    // Linked repositories are merged in with repository-prefixed paths
+    const repositories: PinnedRepository[] = [
+      {
+        repository: context.repository,
+        ref: context.ref,
+        commitSha,
+      },
+      ...linkedContexts.map(({ repository, commitSha }) => ({
+        repository,
+        commitSha,
+      })),
+    ];
+    const codeContext =
+      linkedContexts.length > 0
+        ? mergeRepositoryContexts([
+            {
+              name: getRepositoryName(context.repository),
+              ...repositoryContext,
+            },
+            ...linkedContexts,
+          ])
+        : repositoryContext;
+
     // Generate response using LLM with comprehensive repository context
     const response = await generateResponseWithContext(
       context.query,
-      context.repository,
-      repositoryContext,
+      repositories,
+      { ...codeContext, history, issues, focus: context.focus },
+      historyMessages,
       llm,
+      await getModelContextLength(context.llmConfig),
       context.streaming,
       context.onToken
     );
@@ -80,6 +300,8 @@ export async function processQuery(
       response: response.answer,
       sources: response.sources,
       codeReferences: response.codeReferences,
+      issueReferences: response.issueReferences,
+      contextReport: response.contextReport,
     };
   } catch (error) {
     console.error('Query processing failed:', error);
@@ -96,10 +318,7 @@ export async function processQuery(
       }
 
       // GitHub rate limit errors (from MCP server)
-      if (
-        error.message.includes('rate limit') ||
-        error.message.includes('403')
-      ) {
+      if (error.message.includes('rate limit')) {
         return {
           success: false,
           error:
@@ -159,117 +378,492 @@ export async function processQuery(
 }
 
 /**
- * Create LLM instance based on provider configuration
+ * Enable hybrid retrieval when the repository has a local code index
  */
-function createLLM(config: QueryContext['llmConfig']): BaseChatModel {
-  switch (config.provider) {
-    case 'openai':
-      return new ChatOpenAI({
-        apiKey: config.apiKey,
-        model: config.model,
-        temperature: 0.1,
-      });
+async function getRetrievalOptions(
+  context: QueryContext,
+  repository: GitHubRepo,
+  ref: string,
+  githubConfig: GitHubConfig
+): Promise<RelevantContextOptions> {
+  try {
+    const semanticSearch = await createSemanticSearch(
+      repository.owner,
+      repository.repo,
+      githubConfig,
+      createEmbedder(context.llmConfig),
+      ref
+    );
+    return { ref, semanticSearch };
+  } catch (error) {
+    console.warn('Semantic search unavailable:', error);
+    return { ref };
+  }
+}
 
-    case 'anthropic':
-      return new ChatAnthropic({
-        apiKey: config.apiKey,
-        model: config.model,
-        temperature: 0.1,
-      });
+/**
+ * Describe a focus for the prompt, e.g. the file "src/x.ts" (lines 20-40)
+ */
+function describeFocus(focus: RepositoryFocus, pathPrefix = ''): string {
+  if (focus.type === 'directory') {
+    return `the directory "${pathPrefix}${focus.path}/"`;
+  }
+  return `the file "${pathPrefix}${focus.path}"${focus.startLine ? ` (lines ${focus.startLine}-${focus.endLine})` : ''}`;
+}
 
-    case 'openrouter':
-      return new ChatOpenAI({
-        apiKey: config.apiKey,
-        model: config.model,
-        configuration: {
-          baseURL: config.baseUrl || 'https://openrouter.ai/api/v1',
-        },
-        temperature: 0.1,
-      });
+/**
+ * Put the focused file, or the retrieved files in the focused directory,
+ * ahead of the other files
+ */
+async function focusCodeFiles(
+  codeFiles: PackableFile[],
+  focus: RepositoryFocus,
+  repository: GitHubRepo,
+  githubConfig: GitHubConfig,
+  ref: string
+): Promise<PackableFile[]> {
+  if (focus.type === 'directory') {
+    const prefix = `${focus.path}/`;
+    return [
+      ...codeFiles.filter(file => file.path.startsWith(prefix)),
+      ...codeFiles.filter(file => !file.path.startsWith(prefix)),
+    ];
+  }
 
-    default:
-      throw new Error(`Unsupported LLM provider: ${config.provider}`);
+  const file = await getFileContents(
+    repository.owner,
+    repository.repo,
+    focus.path,
+    githubConfig,
+    ref
+  );
+  if (!file.result) {
+    console.warn(`Focused file ${focus.path} unavailable:`, file.error);
+    return codeFiles;
   }
+
+  return [
+    {
+      path: focus.path,
+      content: file.result.content,
+      relevance: `Focused by the user${focus.startLine ? ` (lines ${focus.startLine}-${focus.endLine})` : ''}`,
+    },
+    ...codeFiles.filter(codeFile => codeFile.path !== focus.path),
+  ];
+}
+
+/**
+ * Pin a linked repository to its default branch and search it
+ */
+async function getLinkedRepositoryContext(
+  context: QueryContext,
+  linked: LinkedRepository
+): Promise<LinkedRepositoryContext> {
+  const repository = { owner: linked.owner, repo: linked.repo };
+  const githubConfig: GitHubConfig = { token: linked.githubToken };
+  const name = getRepositoryName(repository);
+  const commitSha = await resolveCommitSha(
+    repository.owner,
+    repository.repo,
+    'HEAD',
+    githubConfig
+  );
+  if (!commitSha) {
+    return {
+      repository,
+      name,
+      commitSha: '',
+      codeFiles: [],
+      error: 'Repository not found or not accessible',
+    };
+  }
+
+  const repositoryContext = await getRepositoryContext(
+    repository.owner,
+    repository.repo,
+    context.query,
+    githubConfig,
+    await getRetrievalOptions(context, repository, commitSha, githubConfig)
+  );
+  return { ...repositoryContext, repository, name, commitSha };
+}
+
+/**
+ * Answer a query by letting the LLM explore the repository with tools
+ */
+async function processAgentQuery(
+  context: QueryContext,
+  commitSha: string,
+  llm: BaseChatModel,
+  githubConfig: GitHubConfig,
+  historyMessages: BaseMessage[]
+): Promise<QueryResult> {
+  const agentResult = await runRepositoryAgent(
+    `Question about ${context.repository.owner}/${context.repository.repo}${context.focus ? ` (looking at ${describeFocus(context.focus)})` : ''}: ${context.query}`,
+    context.repository,
+    historyMessages,
+    llm,
+    githubConfig,
+    {
+      ref: commitSha,
+      maxSteps: context.maxSteps,
+      extraTools: await createMcpTools(githubConfig.token),
+      onToolEvent: context.onToolEvent,
+      onToken: context.streaming ? context.onToken : undefined,
+    }
+  );
+
+  const { sources, codeReferences } = buildSourcesAndReferences(
+    [{ repository: context.repository, commitSha }],
+    { codeFiles: agentResult.visitedFiles },
+    agentResult.answer
+  );
+
+  return {
+    success: true,
+    response: agentResult.answer,
+    sources,
+    codeReferences,
+    toolTrace: agentResult.trace,
+  };
+}
+
+/**
+ * Answer a question about a pull request from its description, diff,
+ * discussion and the files it touches
+ */
+async function processPullRequestQuery(
+  context: QueryContext,
+  pullNumber: number,
+  llm: BaseChatModel,
+  githubConfig: GitHubConfig,
+  historyMessages: BaseMessage[]
+): Promise<QueryResult> {
+  const { owner, repo } = context.repository;
+  const loaded = await getPullRequestContext(
+    owner,
+    repo,
+    pullNumber,
+    githubConfig
+  );
+  if (!loaded.context) {
+    return { success: false, error: loaded.error };
+  }
+
+  const questionMessage = new HumanMessage(
+    `Question about pull request #${pullNumber} in ${owner}/${repo}: ${context.query}`
+  );
+
+  let systemPrompt = `You are an expert code reviewer. You help users understand and review pull requests in the GitHub repository "${owner}/${repo}".`;
+
+  const answerInstructions = `
+
+When answering:
+1. Summarise what changed and how the changes fit together
+2. Flag risks: likely bugs, missing error handling, breaking changes, security issues and missing tests
+3. When asked why something changed, point to the description, commit messages or review comments that explain it, and say so if nothing does
+4. Be specific about file paths and line numbers
+
+Diff lines are prefixed with their line number in the new version of the file. Removed lines are prefixed with "-:" and cannot be cited.
+
+${CITATION_INSTRUCTIONS}
+
+Format your response clearly with markdown formatting for code blocks and file references.`;
+
+  const reservedTokens =
+    estimateTokens(systemPrompt + answerInstructions) +
+    historyMessages.reduce(
+      (total, message) => total + estimateTokens(String(message.content)),
+      0
+    ) +
+    estimateTokens(String(questionMessage.content)) +
+    RESPONSE_RESERVE_TOKENS +
+    PROMPT_OVERHEAD_TOKENS;
+
+  const packed = packPullRequestContext(loaded.context, {
+    contextLength: await getModelContextLength(context.llmConfig),
+    reservedTokens,
+  });
+  const { report } = packed;
+
+  systemPrompt += `
+
+${packed.overview}`;
+
+  if (packed.discussion) {
+    systemPrompt += `
+
+Review discussion, oldest first:
+${packed.discussion}`;
+  }
+
+  packed.patches.forEach(file => {
+    systemPrompt += `
+
+Diff of ${file.path} (${file.relevance}):
+\`\`\`diff
+${file.content}
+\`\`\``;
+  });
+
+  packed.touchedFiles.forEach(file => {
+    systemPrompt += `
+
+${file.path} after the change (with line numbers):
+\`\`\`
+${file.content}
+\`\`\``;
+  });
+
+  if (report.truncated.length > 0 || report.dropped.length > 0) {
+    systemPrompt += `
+
+To fit the context window, some content was shortened or left out. Mention this if it limits your answer.
+${report.truncated.length > 0 ? `Truncated: ${report.truncated.join(', ')}\n` : ''}${report.dropped.length > 0 ? `Not included: ${report.dropped.join(', ')}` : ''}`;
+  }
+
+  systemPrompt += answerInstructions;
+
+  const answer = await invokeLLM(
+    llm,
+    [new SystemMessage(systemPrompt), ...historyMessages, questionMessage],
+    context.streaming ? context.onToken : undefined
+  );
+
+  // Link to the head commit so citations show the code as reviewed
+  const { pullRequest } = loaded.context;
+  const blobBaseUrl = `${toGitHubUrl(context.repository)}/blob/${pullRequest.head.sha}`;
+
+  return {
+    success: true,
+    response: answer,
+    sources: [
+      pullRequest.html_url,
+      ...packed.patches.map(file => `${blobBaseUrl}/${file.path}`),
+    ],
+    codeReferences: buildCitationReferences(
+      answer,
+      packed.citableFiles,
+      blobBaseUrl
+    ),
+    contextReport: report,
+  };
+}
+
+/**
+ * Run the LLM, streaming tokens to the callback when one is given
+ */
+async function invokeLLM(
+  llm: BaseChatModel,
+  messages: BaseMessage[],
+  onToken?: (token: string) => void
+): Promise<string> {
+  if (!onToken) {
+    const response = await llm.invoke(messages);
+    return response.text;
+  }
+
+  let fullResponse = '';
+  const stream = await llm.stream(messages);
+
+  for await (const chunk of stream) {
+    const token = chunk.text; // Joins content blocks some providers stream
+    if (token) {
+      fullResponse += token;
+      onToken(token);
+    }
+  }
+
+  return fullResponse;
 }
 
 // Removed redundant functions - now using enhanced MCP service directly
 
 /**
- * Generate response using LLM with enhanced repository context
+ * Generate response using LLM with enhanced repository context, packed
+ * to fit the model's context window
  */
 async function generateResponseWithContext(
   query: string,
-  repository: GitHubRepo,
+  repositories: PinnedRepository[], // The thread's repository first
   repositoryContext: {
     readme?: string;
     codeFiles: Array<{ path: string; content: string; relevance: string }>;
-    structure?: unknown;
+    structure?: { tree: Array<{ path: string; type: string; size?: number }> };
+    history?: HistoryContext;
+    issues?: IssueThread[];
+    focus?: RepositoryFocus; // In the first repository
     error?: string;
   },
+  historyMessages: BaseMessage[],
   llm: BaseChatModel,
+  contextLength: number,
   streaming?: boolean,
   onToken?: (token: string) => void
 ): Promise<{
   answer: string;
   sources: string[];
   codeReferences: CodeReference[];
+  issueReferences: IssueReference[];
+  contextReport: ContextReport;
 }> {
-  const hasReadme =
-    repositoryContext.readme && repositoryContext.readme.length > 0;
-  const hasCodeFiles =
-    repositoryContext.codeFiles && repositoryContext.codeFiles.length > 0;
-  const hasStructure = repositoryContext.structure;
+  const repositoryNames = repositories.map(pinned =>
+    getRepositoryName(pinned.repository)
+  );
+  const isMultiRepository = repositories.length > 1;
+  const describeRevision = (pinned: PinnedRepository) =>
+    pinned.ref
+      ? `"${pinned.ref}" (commit ${pinned.commitSha})`
+      : `commit ${pinned.commitSha} of the default branch`;
+
+  const questionMessage = new HumanMessage(
+    `Question about ${repositoryNames.join(', ')}: ${query}`
+  );
 
   let systemPrompt = `You are an expert software developer and code analyst. You help users understand GitHub repositories by analyzing their code, structure, and documentation.
 
-You are analyzing the repository "${repository.owner}/${repository.repo}".`;
+${
+  isMultiRepository
+    ? `You are analyzing ${repositories.length} related repositories:
+${repositories.map((pinned, index) => `- "${repositoryNames[index]}" at ${describeRevision(pinned)}`).join('\n')}`
+    : `You are analyzing the repository "${repositoryNames[0]}" at ${describeRevision(repositories[0])}.`
+}`;
+
+  if (repositoryContext.focus) {
+    systemPrompt += `
+
+The user is looking at ${describeFocus(repositoryContext.focus, isMultiRepository ? `${repositoryNames[0]}/` : '')}. Scope the answer to it unless the question asks about something else.`;
+  }
+
+  const answerInstructions = `
+
+When answering:
+1. Reference specific files and line numbers when relevant
+2. Include code snippets to illustrate points
+3. Explain the architecture and design patterns used
+4. Provide context about how different parts work together
+5. Be specific about file paths and code locations
+6. Use the actual code content to provide accurate answers
+
+${CITATION_INSTRUCTIONS}${
+    isMultiRepository
+      ? `
+
+File paths start with the repository they belong to, e.g. "${repositoryNames[1]}/src/index.ts". Keep that prefix in citations and make clear which repository each point is about.`
+      : ''
+  }
+
+Format your response clearly with markdown formatting for code blocks and file references.`;
 
-  if (hasReadme || hasCodeFiles || hasStructure) {
+  // Everything except the repository context counts against the window
+  const reservedTokens =
+    estimateTokens(systemPrompt + answerInstructions) +
+    historyMessages.reduce(
+      (total, message) => total + estimateTokens(String(message.content)),
+      0
+    ) +
+    estimateTokens(String(questionMessage.content)) +
+    RESPONSE_RESERVE_TOKENS +
+    PROMPT_OVERHEAD_TOKENS;
+
+  // History and issues are placed first; code files fill what is left
+  const historyText = repositoryContext.history
+    ? formatHistoryContext(
+        repositoryContext.history,
+        Math.floor(Math.max(0, contextLength - reservedTokens) * HISTORY_SHARE)
+      )
+    : '';
+  const issueText = repositoryContext.issues?.length
+    ? formatIssueContext(
+        repositoryContext.issues,
+        Math.floor(Math.max(0, contextLength - reservedTokens) * ISSUE_SHARE)
+      )
+    : '';
+  const historyAndIssueTokens =
+    estimateTokens(historyText) + estimateTokens(issueText);
+
+  const packed = packRepositoryContext(
+    {
+      readme: repositoryContext.readme
+        ? addLineNumbers(repositoryContext.readme)
+        : undefined,
+      codeFiles: repositoryContext.codeFiles.map(file => ({
+        ...file,
+        content: addLineNumbers(file.content),
+      })),
+      structure: repositoryContext.structure,
+    },
+    { contextLength, reservedTokens: reservedTokens + historyAndIssueTokens }
+  );
+
+  const { readme, outline, codeFiles } = packed;
+  const report: ContextReport = {
+    ...packed.report,
+    budgetTokens: packed.report.budgetTokens + historyAndIssueTokens,
+    usedTokens: packed.report.usedTokens + historyAndIssueTokens,
+  };
+
+  if (readme || codeFiles.length > 0 || outline || historyText || issueText) {
     systemPrompt += `
 
 Available repository data:`;
 
-    if (hasReadme) {
+    if (outline) {
+      systemPrompt += `
+
+Repository outline (directories not on the path of a relevant file are collapsed):
+${outline}`;
+    }
+
+    if (historyText) {
       systemPrompt += `
 
-README.md content:
-${repositoryContext.readme}`;
+Repository history (commits and blame for the relevant files${isMultiRepository ? ` of ${repositoryNames[0]}` : ''}):
+${historyText}
+
+When the answer relies on this history, name the commits by short SHA, author and date, e.g. (a1b2c3d, Jane Doe, 2024-03-01).`;
     }
 
-    if (hasCodeFiles) {
+    if (issueText) {
       systemPrompt += `
 
-Code files found (${repositoryContext.codeFiles.length} files):`;
-      repositoryContext.codeFiles.forEach((file, index) => {
+Related issues, pull requests and discussions${isMultiRepository ? ` in ${repositoryNames[0]}` : ''}:
+${issueText}
+
+${ISSUE_CITATION_INSTRUCTIONS}`;
+    }
+
+    if (readme) {
+      systemPrompt += `
+
+README.md content (with line numbers):
+${readme}`;
+    }
+
+    if (codeFiles.length > 0) {
+      systemPrompt += `
+
+Code files found (${codeFiles.length} files, most relevant first):`;
+      codeFiles.forEach((file, index) => {
         systemPrompt += `
 
 File ${index + 1}: ${file.path}
 Relevance: ${file.relevance}
-Content preview:
+Content (with line numbers):
 \`\`\`
-${file.content.substring(0, 2000)}${file.content.length > 2000 ? '\n... (truncated)' : ''}
+${file.content}
 \`\`\``;
       });
     }
 
-    if (hasStructure) {
+    if (report.truncated.length > 0 || report.dropped.length > 0) {
       systemPrompt += `
 
-Repository structure:
-${JSON.stringify(repositoryContext.structure, null, 2)}`;
+To fit the context window, some content was shortened or left out. Mention this if it limits your answer.
+${report.truncated.length > 0 ? `Truncated: ${report.truncated.join(', ')}\n` : ''}${report.dropped.length > 0 ? `Not included: ${report.dropped.join(', ')}` : ''}`;
     }
 
-    systemPrompt += `
-
-When answering:
-1. Reference specific files and line numbers when relevant
-2. Include code snippets to illustrate points
-3. Explain the architecture and design patterns used
-4. Provide context about how different parts work together
-5. Be specific about file paths and code locations
-6. Use the actual code content to provide accurate answers
-
-Format your response clearly with markdown formatting for code blocks and file references.`;
+    systemPrompt += answerInstructions;
   } else {
     systemPrompt += `
 
@@ -282,73 +876,104 @@ Note: Limited repository data is available. You should:
 Be honest about limitations while still being helpful.`;
   }
 
-  let response;
-
-  if (streaming && onToken) {
-    // For streaming, collect all tokens
-    let fullResponse = '';
-
-    const stream = await llm.stream([
-      new SystemMessage(systemPrompt),
-      new HumanMessage(
-        `Question about ${repository.owner}/${repository.repo}: ${query}`
-      ),
-    ]);
-
-    for await (const chunk of stream) {
-      const token = chunk.content as string;
-      if (token) {
-        fullResponse += token;
-        onToken(token);
-      }
-    }
-
-    response = { content: fullResponse };
-  } else {
-    // Regular non-streaming response
-    response = await llm.invoke([
-      new SystemMessage(systemPrompt),
-      new HumanMessage(
-        `Question about ${repository.owner}/${repository.repo}: ${query}`
+  const messages: BaseMessage[] = [
+    new SystemMessage(systemPrompt),
+    ...historyMessages,
+    questionMessage,
+  ];
+
+  const answer = await invokeLLM(
+    llm,
+    messages,
+    streaming ? onToken : undefined
+  );
+
+  // Only what the model actually saw can be cited
+  const includedPaths = new Set(codeFiles.map(file => file.path));
+  const { sources, codeReferences } = buildSourcesAndReferences(
+    repositories,
+    {
+      readme: readme ? repositoryContext.readme : undefined,
+      codeFiles: repositoryContext.codeFiles.filter(file =>
+        includedPaths.has(file.path)
       ),
-    ]);
+    },
+    answer
+  );
+  if (historyText) {
+    sources.push(
+      ...(repositoryContext.history?.commits || []).map(commit => commit.url)
+    );
   }
+  const issueReferences = issueText
+    ? buildIssueReferences(answer, repositoryContext.issues || [])
+    : [];
+  sources.push(...issueReferences.map(reference => reference.url));
 
-  // Extract sources and code references from the repository context
+  return {
+    answer,
+    sources,
+    codeReferences,
+    issueReferences,
+    contextReport: report,
+  };
+}
+
+/**
+ * Extract sources from the repository context and code references from
+ * the citations in the answer, linking to files at a fixed commit so
+ * links stay valid. With several repositories, paths carry an owner/repo
+ * prefix that selects the repository.
+ */
+function buildSourcesAndReferences(
+  repositories: PinnedRepository[],
+  repositoryContext: {
+    readme?: string;
+    codeFiles: Array<{ path: string; content: string; relevance: string }>;
+  },
+  answer: string
+): { sources: string[]; codeReferences: CodeReference[] } {
+  const isMultiRepository = repositories.length > 1;
   const sources: string[] = [];
-  const codeReferences: CodeReference[] = [];
 
-  // Add repository URL as primary source
-  sources.push(`https://github.com/${repository.owner}/${repository.repo}`);
+  const citable: CitableRepository[] = repositories.map(
+    ({ repository, commitSha }, index) => {
+      const name = getRepositoryName(repository);
+      const repositoryUrl = toGitHubUrl(repository);
+      const blobBaseUrl = `${repositoryUrl}/blob/${commitSha}`;
+      const prefix = isMultiRepository ? `${name}/` : '';
+      const files = new Map<string, string>();
+
+      // Add repository URL as primary source
+      sources.push(repositoryUrl);
+
+      // Add README as source if available; only set for a single repository
+      if (index === 0 && repositoryContext.readme) {
+        sources.push(`${blobBaseUrl}/README.md`);
+        files.set('README.md', repositoryContext.readme);
+      }
 
-  // Add README as source if available
-  if (hasReadme) {
-    sources.push(
-      `https://github.com/${repository.owner}/${repository.repo}/blob/main/README.md`
-    );
-  }
+      // Add code files as sources
+      repositoryContext.codeFiles
+        .filter(file => file.path.startsWith(prefix))
+        .forEach(file => {
+          const path = file.path.substring(prefix.length);
+          sources.push(`${blobBaseUrl}/${path}`);
+          files.set(path, file.content);
+        });
 
-  // Add code files as sources and references
-  if (hasCodeFiles) {
-    repositoryContext.codeFiles.forEach(file => {
-      const fileUrl = `https://github.com/${repository.owner}/${repository.repo}/blob/main/${file.path}`;
-      sources.push(fileUrl);
-
-      // Create code reference
-      const lines = file.content.split('\n');
-      codeReferences.push({
-        file: file.path,
-        startLine: 1,
-        endLine: Math.min(100, lines.length), // Limit to first 100 lines
-        content: lines.slice(0, 100).join('\n'),
-        url: fileUrl,
-      });
-    });
-  }
+      return { name, files, blobBaseUrl };
+    }
+  );
 
   return {
-    answer: response.content as string,
     sources: [...new Set(sources)], // Remove duplicates
-    codeReferences,
+    codeReferences: isMultiRepository
+      ? buildRepositoryCitationReferences(answer, citable)
+      : buildCitationReferences(
+          answer,
+          citable[0].files,
+          citable[0].blobBaseUrl
+        ),
   };
 }
@@ -0,0 +1,192 @@
+/**
+ * Rate Limit Service - Tracks GitHub API quota per token and resource
+ *
+ * GitHub meters the core API (5000/hour), search (30/minute) and code
+ * search (10/minute) separately, and adds secondary limits that answer 403/429 with
+ * Retry-After. Quota is read from the X-RateLimit-* headers of every
+ * response; callers wait for a reset or back off before retrying.
+ */
+import { createHash } from 'crypto';
+
+export type RateLimitResource = string; // 'core', 'search', 'code_search', ...
+
+export interface RateLimitState {
+  resource: RateLimitResource;
+  limit: number;
+  remaining: number;
+  resetAt: number; // Epoch ms
+  updatedAt: number;
+}
+
+export type LimitKind = 'primary' | 'secondary' | 'permission';
+
+// Longest we hold a request waiting for quota before failing it
+const MAX_WAIT_MS = 60_000;
+const BASE_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 60_000;
+
+// Quota and secondary-limit blocks, keyed by token scope and resource
+const quotas = new Map<string, RateLimitState>();
+const blockedUntil = new Map<string, number>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Stable identifier for a token that does not reveal it
+ */
+export function getTokenScope(token: string): string {
+  return createHash('sha256').update(token).digest('hex').slice(0, 16);
+}
+
+/**
+ * Which rate-limit bucket an endpoint draws from
+ */
+export function getResourceForEndpoint(endpoint: string): RateLimitResource {
+  if (endpoint.startsWith('/search/code')) return 'code_search';
+  if (endpoint.startsWith('/search/')) return 'search';
+  if (endpoint.startsWith('/graphql')) return 'graphql';
+  return 'core';
+}
+
+function stateKey(token: string, resource: RateLimitResource): string {
+  return `${getTokenScope(token)}:${resource}`;
+}
+
+/**
+ * Update tracked quota from a response's X-RateLimit-* headers
+ */
+export function recordRateLimit(
+  token: string,
+  endpoint: string,
+  headers: Headers
+): void {
+  const remaining = headers.get('x-ratelimit-remaining');
+  const reset = headers.get('x-ratelimit-reset');
+  if (remaining === null || reset === null) return;
+
+  const resource =
+    headers.get('x-ratelimit-resource') || getResourceForEndpoint(endpoint);
+  quotas.set(stateKey(token, resource), {
+    resource,
+    limit: Number(headers.get('x-ratelimit-limit')) || 0,
+    remaining: Number(remaining),
+    resetAt: Number(reset) * 1000,
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Record quota for every resource from a GET /rate_limit response
+ */
+export function recordRateLimitSnapshot(
+  token: string,
+  resources: Record<string, { limit: number; remaining: number; reset: number }>
+): void {
+  Object.entries(resources).forEach(([resource, quota]) => {
+    quotas.set(stateKey(token, resource), {
+      resource,
+      limit: quota.limit,
+      remaining: quota.remaining,
+      resetAt: quota.reset * 1000,
+      updatedAt: Date.now(),
+    });
+  });
+}
+
+/**
+ * Tell a 403/429 caused by quota apart from missing permissions
+ */
+export function classifyLimitResponse(
+  status: number,
+  headers: Headers,
+  body: string
+): LimitKind {
+  if (headers.get('retry-after') || /secondary rate limit/i.test(body)) {
+    return 'secondary';
+  }
+  if (
+    status === 429 ||
+    headers.get('x-ratelimit-remaining') === '0' ||
+    /rate limit/i.test(body)
+  ) {
+    return 'primary';
+  }
+  return 'permission';
+}
+
+/**
+ * Block further requests after a secondary limit, honouring Retry-After
+ * and otherwise backing off exponentially. Returns the delay in ms.
+ */
+export function registerBackoff(
+  token: string,
+  endpoint: string,
+  headers: Headers,
+  attempt: number
+): number {
+  const retryAfter = Number(headers.get('retry-after'));
+  const delay =
+    Number.isFinite(retryAfter) && retryAfter > 0
+      ? retryAfter * 1000
+      : Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt) +
+        Math.floor(Math.random() * 250);
+
+  const key = stateKey(token, getResourceForEndpoint(endpoint));
+  blockedUntil.set(
+    key,
+    Math.max(blockedUntil.get(key) || 0, Date.now() + delay)
+  );
+  return delay;
+}
+
+/**
+ * How long a request must wait before it may be sent
+ */
+export function getWaitTime(token: string, endpoint: string): number {
+  const key = stateKey(token, getResourceForEndpoint(endpoint));
+  const now = Date.now();
+  let wait = Math.max(0, (blockedUntil.get(key) || 0) - now);
+
+  const quota = quotas.get(key);
+  if (quota && quota.remaining <= 0 && quota.resetAt > now) {
+    wait = Math.max(wait, quota.resetAt - now);
+  }
+
+  return wait;
+}
+
+/**
+ * Wait until quota is available. Returns an error message instead of
+ * waiting when the reset is too far away.
+ */
+export async function waitForQuota(
+  token: string,
+  endpoint: string
+): Promise<string | null> {
+  const wait = getWaitTime(token, endpoint);
+  if (wait === 0) return null;
+
+  const resource = getResourceForEndpoint(endpoint);
+  if (wait > MAX_WAIT_MS) {
+    const resetTime = new Date(Date.now() + wait).toLocaleTimeString();
+    return `GitHub ${resource} rate limit exhausted. It resets at ${resetTime}.`;
+  }
+
+  console.warn(
+    `⏳ [GitHub API] Waiting ${Math.ceil(wait / 1000)}s for ${resource} rate limit`
+  );
+  await sleep(wait);
+  return null;
+}
+
+/**
+ * Current known quota for a token, by resource
+ */
+export function getRateLimitStatus(token: string): RateLimitState[] {
+  const prefix = `${getTokenScope(token)}:`;
+  return Array.from(quotas.entries())
+    .filter(([key]) => key.startsWith(prefix))
+    .map(([, state]) => state);
+}
@@ -3,12 +3,16 @@ import { DefaultSession } from 'next-auth';
 declare module 'next-auth' {
   interface Session extends DefaultSession {
     accessToken?: string;
+    login?: string; // GitHub username
+    scopes?: string[]; // OAuth scopes granted to accessToken
   }
 }
 
 declare module 'next-auth/jwt' {
   interface JWT {
     accessToken?: string;
+    login?: string;
+    scope?: string;
   }
 }
 
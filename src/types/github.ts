@@ -1,6 +1,7 @@
 /**
  * GitHub-related type definitions
  */
+import { LLMProvider, ProviderSettings } from './llm';
 
 export interface Repository {
   id: number;
@@ -17,6 +18,38 @@ export interface Repository {
   language: string;
 }
 
+export interface RepositorySuggestion {
+  full_name: string;
+  description: string | null;
+  html_url: string;
+  private: boolean;
+  language: string | null;
+  stargazers_count: number;
+  updated_at: string;
+  owner_avatar_url: string;
+  group: 'owned' | 'organization' | 'starred' | 'search';
+}
+
+export interface PullRequestSummary {
+  number: number;
+  title: string;
+  state: 'open' | 'closed' | 'merged' | 'draft';
+  author: string;
+  html_url: string;
+  base: string; // Branch names
+  head: string;
+  changed_files: number;
+  additions: number;
+  deletions: number;
+}
+
+export interface RepositoryFocus {
+  path: string; // File or directory a thread is scoped to
+  type: 'file' | 'directory';
+  startLine?: number; // Files only
+  endLine?: number;
+}
+
 export interface UserSession {
   user: {
     id: string;
@@ -27,10 +60,11 @@ export interface UserSession {
   accessToken: string;
   expiresAt: number;
   llmConfig?: {
-    provider: 'openai' | 'anthropic' | 'openrouter';
+    provider: LLMProvider;
     encryptedApiKey: string;
     model: string;
     baseUrl?: string; // For OpenRouter custom endpoint
+    settings?: ProviderSettings;
     configuredAt: Date;
   };
 }
@@ -41,13 +75,15 @@ export interface CodeReference {
   endLine: number;
   content: string;
   url: string;
+  repository?: string; // owner/repo, set when an answer spans several repositories
 }
 
-export interface LLMSetupRequest {
-  provider: 'openai' | 'anthropic' | 'openrouter';
-  apiKey: string;
-  model?: string; // Optional, defaults to provider's recommended model
-  baseUrl?: string; // For OpenRouter: https://openrouter.ai/api/v1
+export interface IssueReference {
+  kind: 'issue' | 'pull' | 'discussion';
+  number: number;
+  title: string;
+  state: string;
+  url: string;
 }
 
 export interface OpenRouterModel {
@@ -78,7 +114,7 @@ export interface LLMSetupResponse {
 export interface QueryContext {
   repository: string;
   userLLMConfig: {
-    provider: 'openai' | 'anthropic' | 'openrouter';
+    provider: LLMProvider;
     apiKey: string; // Decrypted for processing
     model: string;
     baseUrl?: string;
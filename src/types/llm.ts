@@ -1,10 +1,21 @@
-export type LLMProvider = 'openai' | 'anthropic' | 'openrouter';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+
+// Id of a provider in the registry (services/llmService), e.g. 'openai'
+export type LLMProvider = string;
+
+// Settings beyond the key and URL that some providers need
+export interface ProviderSettings {
+  deployments?: string; // Azure OpenAI deployment names, comma-separated
+  apiVersion?: string; // Azure OpenAI API version, e.g. 2024-10-21
+  region?: string; // AWS region of a Bedrock endpoint, e.g. us-east-1
+}
 
 export interface LLMConfig {
   provider: LLMProvider;
   apiKey: string;
   model: string;
   baseUrl?: string;
+  settings?: ProviderSettings;
   configuredAt: Date;
 }
 
@@ -13,6 +24,7 @@ export interface EncryptedLLMConfig {
   encryptedApiKey: string;
   model: string;
   baseUrl?: string;
+  settings?: ProviderSettings;
   configuredAt: Date;
 }
 
@@ -21,6 +33,7 @@ export interface LLMSetupRequest {
   apiKey: string;
   model?: string;
   baseUrl?: string;
+  settings?: ProviderSettings;
 }
 
 export interface LLMSetupResponse {
@@ -66,33 +79,65 @@ export interface AnthropicModel {
 
 export type LLMModel = OpenRouterModel | OpenAIModel | AnthropicModel;
 
-export interface ProviderConfig {
+export interface ProviderSettingField {
+  key: keyof ProviderSettings;
+  label: string;
+  placeholder?: string;
+  help?: string;
+  defaultValue?: string;
+  required?: boolean;
+}
+
+/**
+ * What the setup screens need to know about a provider. Sent to the
+ * browser, so it holds no behaviour.
+ */
+export interface LLMProviderInfo {
+  id: LLMProvider;
   name: string;
-  defaultModel: string;
-  models: string[];
-  apiKeyPattern?: RegExp;
+  shortName: string; // Compact label, e.g. "Self-hosted"
+  description: string;
+  defaultModel: string; // Empty when models are only known once listed
+  models: string[]; // Well-known models, offered until the list is fetched
+  discoversModels: boolean; // Any model the provider lists may be chosen
+  apiKeyUrl?: string; // Where users get a key
+  apiKeyPattern?: string; // RegExp source keys must match
+  apiKeyOptional?: boolean; // Local servers often run without a key
+  baseUrl?: string; // API endpoint; the suggested one if configurable
+  configurableBaseUrl?: boolean; // Users point it at their own server
+  baseUrlOptional?: boolean; // The endpoint is only an override
+  baseUrlLabel?: string;
+  baseUrlPlaceholder?: string;
+  baseUrlHelp?: string;
+  settings?: ProviderSettingField[]; // Asked for when setting up
+}
+
+export interface ProviderConnection {
+  apiKey: string;
   baseUrl?: string;
+  settings?: ProviderSettings;
 }
 
-export const PROVIDER_CONFIGS: Record<LLMProvider, ProviderConfig> = {
-  openai: {
-    name: 'OpenAI',
-    defaultModel: 'gpt-4',
-    models: [], // Will be fetched dynamically
-  },
-  anthropic: {
-    name: 'Anthropic',
-    defaultModel: 'claude-3-sonnet-20240229',
-    models: [
-      'claude-3-opus-20240229',
-      'claude-3-sonnet-20240229',
-      'claude-3-haiku-20240307',
-    ],
-  },
-  openrouter: {
-    name: 'OpenRouter',
-    defaultModel: 'openai/gpt-4',
-    models: [], // Will be fetched dynamically
-    baseUrl: 'https://openrouter.ai/api/v1',
-  },
-};
+/**
+ * A provider module: its metadata and how to talk to it. Register new
+ * providers in services/llmService.
+ */
+export interface LLMProviderDefinition
+  extends Omit<LLMProviderInfo, 'apiKeyPattern'> {
+  apiKeyPattern?: RegExp;
+  // Whether the key (and server, if configurable) can be used
+  validateKey(connection: ProviderConnection): Promise<boolean>;
+  listModels(connection: ProviderConnection): Promise<LLMModel[]>;
+  createChatModel(
+    connection: ProviderConnection,
+    model: string,
+    temperature: number
+  ): BaseChatModel;
+  // Context window of a model, when the provider reports it
+  getContextLength?(
+    model: string,
+    connection: ProviderConnection
+  ): Promise<number | undefined>;
+  // Canonical form of a user-entered server URL; null if unusable
+  normalizeBaseUrl?(baseUrl: string): string | null;
+}
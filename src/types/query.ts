@@ -1,13 +1,51 @@
-import { CodeReference } from './github';
+import { CodeReference, IssueReference, RepositoryFocus } from './github';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export type QueryMode = 'standard' | 'agent';
+
+// Where standard mode looks for context; code is always included
+export type ContextSource = 'code' | 'issues' | 'pulls' | 'discussions';
+
+export interface ToolTraceEvent {
+  step: number;
+  tool: string;
+  input: Record<string, unknown>;
+  status: 'started' | 'completed' | 'failed';
+  summary?: string; // First line of the tool output
+}
+
+export interface ContextReport {
+  contextLength: number; // Model context window in tokens
+  budgetTokens: number; // Available for repository context
+  usedTokens: number;
+  includedFiles: number;
+  truncated: string[]; // Paths shortened to fit
+  dropped: string[]; // Paths left out entirely
+}
 
 export interface QueryRequest {
   repositoryUrl: string;
+  linkedRepositoryUrls?: string[]; // Related repositories searched alongside, at their default branch
+  ref?: string; // Branch, tag or commit SHA; defaults to the default branch
+  pullNumber?: number; // Review a pull request; also read from a /pull/N URL
   query: string;
   userToken: string; // GitHub token is required for all operations
+  history?: ConversationTurn[]; // Prior turns of the thread, oldest first
+  mode?: QueryMode; // Defaults to 'standard' (pre-fetched context)
+  maxSteps?: number; // Agent mode tool-calling step limit
+  sources?: ContextSource[]; // Defaults to ['code']
+  focus?: RepositoryFocus; // Scope the question to a file or directory
 }
 
 export interface QueryResponse {
   response: string;
   sources: string[];
   codeReferences?: CodeReference[];
+  issueReferences?: IssueReference[];
+  toolTrace?: ToolTraceEvent[];
+  contextReport?: ContextReport;
 }
@@ -3,6 +3,10 @@ import { getServerSession } from 'next-auth/next';
 import GitHubProvider from 'next-auth/providers/github';
 
 import { AuthenticatedUser } from '../types/auth';
+import { getGitHubOAuthUrls } from './githubHost';
+import { BASE_SCOPES, parseScopes } from './githubScopes';
+
+const oauthUrls = getGitHubOAuthUrls();
 
 export const authOptions: AuthOptions = {
   providers: [
@@ -10,16 +14,46 @@ export const authOptions: AuthOptions = {
       clientId: process.env.GITHUB_CLIENT_ID!,
       clientSecret: process.env.GITHUB_CLIENT_SECRET!,
       authorization: {
+        url: oauthUrls.authorization,
         params: {
-          scope: 'read:user user:email',
+          // Private repository access is requested separately, see githubScopes
+          scope: BASE_SCOPES.join(' '),
+        },
+      },
+      token: oauthUrls.token,
+      // The built-in profile request is hard-wired to api.github.com
+      userinfo: {
+        url: oauthUrls.userinfo,
+        async request({ tokens }) {
+          const headers = {
+            Authorization: `token ${tokens.access_token}`,
+            'User-Agent': 'GitHub-Developer-Wiki',
+          };
+          const profile = await (
+            await fetch(oauthUrls.userinfo, { headers })
+          ).json();
+
+          if (!profile.email) {
+            const res = await fetch(oauthUrls.emails, { headers });
+            if (res.ok) {
+              const emails: Array<{ email: string; primary: boolean }> =
+                await res.json();
+              profile.email = (emails.find(e => e.primary) ?? emails[0])?.email;
+            }
+          }
+          return profile;
         },
       },
     }),
   ],
   callbacks: {
-    async jwt({ token, account }) {
+    async jwt({ token, account, profile }) {
       if (account) {
         token.accessToken = account.access_token;
+        token.scope = account.scope;
+      }
+      if (profile) {
+        token.login = (profile as { login?: string }).login;
       }
       return token;
     },
@@ -27,6 +61,8 @@ export const authOptions: AuthOptions = {
       if (token.accessToken) {
         session.accessToken = token.accessToken as string;
       }
+      session.login = token.login;
+      session.scopes = parseScopes(token.scope);
       return session;
     },
   },
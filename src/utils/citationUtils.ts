@@ -0,0 +1,188 @@
+import { CodeReference } from '@/types/github';
+
+/**
+ * Code citations - answers cite code inline as [[path/to/file.ts#L10-L42]].
+ * Citations are checked against the files the answer was generated from
+ * and turned into CodeReference objects with line-anchored permalinks.
+ */
+
+export interface Citation {
+  marker: string; // The literal text in the answer
+  path: string;
+  startLine: number;
+  endLine: number;
+}
+
+export const CITATION_INSTRUCTIONS = `Cite the code that supports each statement by placing a citation right after the sentence, in the form [[path/to/file.ts#L10-L42]] (or [[path/to/file.ts#L7]] for a single line). Use the exact file paths and the line numbers shown in the provided content, and only cite lines you have actually seen.`;
+
+export interface CitableRepository {
+  name: string; // owner/repo, the prefix of its paths in citations
+  files: Map<string, string>; // Keyed by path within the repository
+  blobBaseUrl: string;
+}
+
+// Longest snippet attached to a single citation
+const MAX_CITATION_LINES = 80;
+
+export function createCitationPattern(): RegExp {
+  return /\[\[([^\s#\]]+)#L(\d+)(?:-L?(\d+))?\]\]/g;
+}
+
+/**
+ * Prefix each line with its line number so the LLM can cite ranges
+ */
+export function addLineNumbers(content: string, startLine: number = 1): string {
+  return content
+    .split('\n')
+    .map((line, index) => `${startLine + index}: ${line}`)
+    .join('\n');
+}
+
+/**
+ * GitHub line anchor, e.g. "#L10-L42" or "#L7"
+ */
+export function formatLineAnchor(startLine: number, endLine: number): string {
+  return startLine === endLine
+    ? `#L${startLine}`
+    : `#L${startLine}-L${endLine}`;
+}
+
+/**
+ * Find all citation markers in an answer, in order of appearance
+ */
+export function parseCitations(text: string): Citation[] {
+  const citations: Citation[] = [];
+  const pattern = createCitationPattern();
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const startLine = Number(match[2]);
+    const endLine = match[3] ? Number(match[3]) : startLine;
+    citations.push({
+      marker: match[0],
+      path: match[1].replace(/^\/+/, ''),
+      startLine: Math.min(startLine, endLine),
+      endLine: Math.max(startLine, endLine),
+    });
+  }
+
+  return citations;
+}
+
+/**
+ * Check a citation against the fetched file content. Returns null if the
+ * file was not part of the context or the range lies outside the file;
+ * ranges running past the end of the file are clamped.
+ */
+export function validateCitation(
+  citation: Citation,
+  files: Map<string, string>
+): Citation | null {
+  const content = files.get(citation.path);
+  if (content === undefined || citation.startLine < 1) {
+    return null;
+  }
+
+  const lineCount = content.split('\n').length;
+  if (citation.startLine > lineCount) {
+    return null;
+  }
+
+  return {
+    ...citation,
+    endLine: Math.min(citation.endLine, lineCount),
+  };
+}
+
+/**
+ * Turn the valid citations in an answer into code references
+ */
+export function buildCitationReferences(
+  answer: string,
+  files: Map<string, string>,
+  // e.g. https://github.com/owner/repo/blob/<sha>, or a URL per cited path
+  blobBaseUrl: string | ((path: string) => string)
+): CodeReference[] {
+  const toFileUrl =
+    typeof blobBaseUrl === 'string'
+      ? (path: string) => `${blobBaseUrl}/${path}`
+      : blobBaseUrl;
+  const references: CodeReference[] = [];
+  const seen = new Set<string>();
+
+  parseCitations(answer).forEach(citation => {
+    const valid = validateCitation(citation, files);
+    if (!valid) {
+      console.warn(`Dropping unverifiable citation ${citation.marker}`);
+      return;
+    }
+
+    const key = `${valid.path}#${valid.startLine}-${valid.endLine}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const lines = files.get(valid.path)!.split('\n');
+    references.push({
+      file: valid.path,
+      startLine: valid.startLine,
+      endLine: valid.endLine,
+      content: lines
+        .slice(
+          valid.startLine - 1,
+          Math.min(valid.endLine, valid.startLine - 1 + MAX_CITATION_LINES)
+        )
+        .join('\n'),
+      url: `${toFileUrl(valid.path)}${formatLineAnchor(valid.startLine, valid.endLine)}`,
+    });
+  });
+
+  return references;
+}
+
+/**
+ * Turn citations of repository-prefixed paths, e.g.
+ * [[owner/repo/src/index.ts#L10-L42]], into code references for an answer
+ * drawn from several repositories
+ */
+export function buildRepositoryCitationReferences(
+  answer: string,
+  repositories: CitableRepository[]
+): CodeReference[] {
+  const files = new Map<string, string>();
+  const locations = new Map<string, { repository: string; url: string }>();
+
+  repositories.forEach(repository => {
+    repository.files.forEach((content, path) => {
+      const qualifiedPath = `${repository.name}/${path}`;
+      files.set(qualifiedPath, content);
+      locations.set(qualifiedPath, {
+        repository: repository.name,
+        url: `${repository.blobBaseUrl}/${path}`,
+      });
+    });
+  });
+
+  return buildCitationReferences(
+    answer,
+    files,
+    path => locations.get(path)!.url
+  ).map(reference => ({
+    ...reference,
+    repository: locations.get(reference.file)?.repository,
+  }));
+}
+
+/**
+ * Find the validated reference for a citation marker, if any
+ */
+export function findCitationReference(
+  citation: Citation,
+  references: CodeReference[]
+): CodeReference | undefined {
+  return references.find(
+    reference =>
+      reference.file === citation.path &&
+      reference.startLine === citation.startLine &&
+      reference.endLine <= citation.endLine
+  );
+}
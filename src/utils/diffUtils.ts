@@ -0,0 +1,63 @@
+/**
+ * Unified diff utilities - line numbers for pull request patches
+ *
+ * Patches are shown to the LLM with the line numbers of the new version
+ * of each file, so citations into a diff use the same [[path#L10-L42]]
+ * form as citations into whole files.
+ */
+
+const HUNK_HEADER_PATTERN = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * Prefix added and context lines with their line number in the new file.
+ * Removed lines have no new line number and are marked with "-" instead.
+ */
+export function addPatchLineNumbers(patch: string): string {
+  let newLine = 0;
+
+  return patch
+    .split('\n')
+    .map(line => {
+      const hunk = line.match(HUNK_HEADER_PATTERN);
+      if (hunk) {
+        newLine = Number(hunk[1]);
+        return line;
+      }
+      if (line.startsWith('-')) {
+        return `-: ${line}`;
+      }
+      if (line.startsWith('\\')) {
+        return line; // "\ No newline at end of file"
+      }
+      return `${newLine++}: ${line}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Rebuild the new version of a file from its patch. Lines outside the
+ * hunks are unknown and left empty, which is enough to validate and quote
+ * citations of changed code when the full file was not fetched.
+ */
+export function reconstructFromPatch(patch: string): string {
+  const lines: string[] = [];
+  let newLine = 0;
+
+  patch.split('\n').forEach(line => {
+    const hunk = line.match(HUNK_HEADER_PATTERN);
+    if (hunk) {
+      newLine = Number(hunk[1]);
+      return;
+    }
+    if (line.startsWith('-') || line.startsWith('\\')) {
+      return;
+    }
+    while (lines.length < newLine - 1) {
+      lines.push('');
+    }
+    lines[newLine - 1] = line.substring(1);
+    newLine++;
+  });
+
+  return lines.join('\n');
+}
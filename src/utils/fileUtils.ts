@@ -0,0 +1,178 @@
+/**
+ * File content utilities - decoding and spotting files not worth reading
+ *
+ * Binary files, lockfiles and minified or generated code waste the model's
+ * context, so they are replaced with a short marker instead.
+ */
+
+export type SkipReason = 'binary' | 'generated' | 'too-large';
+
+// Larger files are skipped rather than read into context
+export const MAX_TEXT_FILE_SIZE = 10 * 1024 * 1024;
+
+const BINARY_EXTENSIONS = [
+  '.png',
+  '.jpg',
+  '.jpeg',
+  '.gif',
+  '.bmp',
+  '.ico',
+  '.webp',
+  '.tiff',
+  '.psd',
+  '.pdf',
+  '.zip',
+  '.gz',
+  '.tgz',
+  '.bz2',
+  '.xz',
+  '.7z',
+  '.rar',
+  '.jar',
+  '.war',
+  '.exe',
+  '.dll',
+  '.so',
+  '.dylib',
+  '.a',
+  '.o',
+  '.class',
+  '.pyc',
+  '.wasm',
+  '.woff',
+  '.woff2',
+  '.ttf',
+  '.otf',
+  '.eot',
+  '.mp3',
+  '.mp4',
+  '.wav',
+  '.ogg',
+  '.mov',
+  '.avi',
+  '.webm',
+  '.sqlite',
+  '.db',
+];
+
+const GENERATED_FILE_NAMES = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  'Cargo.lock',
+  'Gemfile.lock',
+  'composer.lock',
+  'poetry.lock',
+  'Pipfile.lock',
+  'go.sum',
+  'mix.lock',
+  'pubspec.lock',
+  'Podfile.lock',
+];
+
+const GENERATED_PATH_PATTERNS = [/\.min\.(js|css)$/i, /\.(js|css)\.map$/i];
+
+// Markers tools put at the top of generated sources
+const GENERATED_HEADER_PATTERN =
+  /@generated|code generated .* do not edit|auto-generated|autogenerated/i;
+
+// Minified code has very long lines
+const MINIFIED_AVERAGE_LINE_LENGTH = 300;
+const MINIFIED_MIN_LENGTH = 5_000;
+
+// Bytes inspected when sniffing for binary content
+const BINARY_SNIFF_BYTES = 8_000;
+
+/**
+ * Classify a file by its path alone, before fetching it
+ */
+export function getSkipReasonForPath(filePath: string): SkipReason | null {
+  const lowerPath = filePath.toLowerCase();
+  const fileName = filePath.split('/').pop() || filePath;
+
+  if (BINARY_EXTENSIONS.some(ext => lowerPath.endsWith(ext))) {
+    return 'binary';
+  }
+  if (
+    GENERATED_FILE_NAMES.includes(fileName) ||
+    GENERATED_PATH_PATTERNS.some(pattern => pattern.test(filePath))
+  ) {
+    return 'generated';
+  }
+  return null;
+}
+
+/**
+ * Decode base64 into raw bytes
+ */
+export function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Decode bytes as UTF-8, keeping multi-byte characters intact
+ */
+export function decodeUtf8(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+/**
+ * Sniff for binary data: NUL bytes or many control characters
+ */
+export function isBinaryData(bytes: Uint8Array): boolean {
+  const sample = bytes.subarray(0, BINARY_SNIFF_BYTES);
+  let controlBytes = 0;
+
+  for (const byte of sample) {
+    if (byte === 0) return true;
+    // Control characters other than tab, newline, form feed and return
+    if (byte < 32 && ![9, 10, 12, 13].includes(byte)) {
+      controlBytes++;
+    }
+  }
+
+  return sample.length > 0 && controlBytes / sample.length > 0.1;
+}
+
+/**
+ * Spot minified or tool-generated source from its content
+ */
+export function looksGenerated(content: string): boolean {
+  if (GENERATED_HEADER_PATTERN.test(content.substring(0, 500))) {
+    return true;
+  }
+  if (content.length < MINIFIED_MIN_LENGTH) {
+    return false;
+  }
+  const lineCount = content.split('\n').length;
+  return content.length / lineCount > MINIFIED_AVERAGE_LINE_LENGTH;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} bytes`;
+}
+
+/**
+ * Placeholder used in place of a skipped file's content
+ */
+export function formatSkippedFileMarker(
+  filePath: string,
+  reason: SkipReason,
+  size?: number
+): string {
+  const labels: Record<SkipReason, string> = {
+    binary: 'binary file',
+    generated: 'generated or minified file',
+    'too-large': 'file too large to read',
+  };
+  return `[Skipped ${filePath}: ${labels[reason]}${size ? `, ${formatSize(size)}` : ''}]`;
+}
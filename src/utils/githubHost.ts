@@ -0,0 +1,76 @@
+/**
+ * GitHub host configuration - github.com or a GitHub Enterprise Server
+ *
+ * NEXT_PUBLIC_GITHUB_URL sets the web URL (it is read by the browser too,
+ * for links and URL validation). The API URL defaults to api.github.com for
+ * github.com and to `<web URL>/api/v3` for Enterprise Server; GITHUB_API_URL
+ * overrides it. OAuth endpoints always live on the web host.
+ */
+
+const GITHUB_DOT_COM_URL = 'https://github.com';
+const GITHUB_DOT_COM_API_URL = 'https://api.github.com';
+
+function trimTrailingSlash(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+export function getGitHubWebUrl(): string {
+  return trimTrailingSlash(
+    process.env.NEXT_PUBLIC_GITHUB_URL || GITHUB_DOT_COM_URL
+  );
+}
+
+/**
+ * Whether the configured host is github.com rather than Enterprise Server
+ */
+export function isGitHubDotCom(): boolean {
+  return getGitHubWebUrl() === GITHUB_DOT_COM_URL;
+}
+
+export function getGitHubApiUrl(): string {
+  if (process.env.GITHUB_API_URL) {
+    return trimTrailingSlash(process.env.GITHUB_API_URL);
+  }
+  return isGitHubDotCom()
+    ? GITHUB_DOT_COM_API_URL
+    : `${getGitHubWebUrl()}/api/v3`;
+}
+
+/**
+ * GraphQL endpoint; Enterprise Server serves it beside, not under, /api/v3
+ */
+export function getGitHubGraphQLUrl(): string {
+  return getGitHubApiUrl().replace(/\/v3$/, '') + '/graphql';
+}
+
+/**
+ * Host of the web URL, e.g. github.com or github.example.com
+ */
+export function getGitHubHost(): string {
+  return new URL(getGitHubWebUrl()).host;
+}
+
+export function getGitHubOAuthUrls(): {
+  authorization: string;
+  token: string;
+  userinfo: string;
+  emails: string;
+} {
+  const webUrl = getGitHubWebUrl();
+  const apiUrl = getGitHubApiUrl();
+  return {
+    authorization: `${webUrl}/login/oauth/authorize`,
+    token: `${webUrl}/login/oauth/access_token`,
+    userinfo: `${apiUrl}/user`,
+    emails: `${apiUrl}/user/emails`,
+  };
+}
+
+/**
+ * Page for installing a GitHub App; Enterprise Server serves these under
+ * /github-apps instead of /apps
+ */
+export function getGitHubAppInstallUrl(slug: string): string {
+  const appsPath = isGitHubDotCom() ? 'apps' : 'github-apps';
+  return `${getGitHubWebUrl()}/${appsPath}/${slug}/installations/new`;
+}
@@ -0,0 +1,23 @@
+/**
+ * GitHub OAuth scopes requested at sign-in
+ *
+ * Everyone signs in with the minimal profile scopes. Reading private
+ * repositories needs `repo`, which GitHub only offers with write access
+ * included, so it is requested separately after an explicit consent step.
+ */
+
+export const BASE_SCOPES = ['read:user', 'user:email'];
+
+export const PRIVATE_REPO_SCOPES = [...BASE_SCOPES, 'repo'];
+
+/**
+ * Split a granted scope string; GitHub separates scopes with commas,
+ * NextAuth with spaces
+ */
+export function parseScopes(scope?: string): string[] {
+  return (scope || '').split(/[\s,]+/).filter(Boolean);
+}
+
+export function hasPrivateRepoAccess(scopes?: string[]): boolean {
+  return !!scopes?.includes('repo');
+}
@@ -1,19 +1,75 @@
 /**
  * GitHub utility functions for URL parsing and validation
  */
+import { RepositoryFocus } from '@/types/github';
+
+import { getGitHubHost, getGitHubWebUrl } from './githubHost';
 
 export interface GitHubRepo {
   owner: string;
   repo: string;
+  pullNumber?: number; // Set when the URL points at a pull request
+  ref?: string; // From /blob/<ref>/ and /tree/<ref>/ URLs
+  focus?: RepositoryFocus; // The file or directory a deep link points at
+}
+
+// A thread's repository plus up to four linked ones
+export const MAX_THREAD_REPOSITORIES = 5;
+
+// Optional "/pull/123", "/blob/<ref>/<path>" or "/tree/<ref>/<path>"
+// suffix of a repository URL
+const DEEP_LINK_PATTERN =
+  '(?:\\/pull\\/(\\d+)|\\/(blob|tree)\\/([^\\/]+)(?:\\/(.+))?)?';
+
+// Line anchor of a file URL, e.g. "#L20-L40"
+const LINE_ANCHOR_PATTERN = /^L(\d+)(?:-L(\d+))?$/;
+
+function toRepo(match: RegExpMatchArray, anchor: string): GitHubRepo {
+  const repository = { owner: match[1], repo: match[2] };
+  if (match[3]) {
+    return { ...repository, pullNumber: Number(match[3]) };
+  }
+  if (!match[4]) {
+    return repository;
+  }
+
+  // The first segment is taken as the ref; refs containing slashes are
+  // told apart from the path by resolveRefAndPath
+  const ref = decodeURIComponent(match[5]);
+  const path = match[6] ? decodeURIComponent(match[6]) : undefined;
+  if (!path) {
+    return { ...repository, ref };
+  }
+
+  const focus: RepositoryFocus = {
+    path,
+    type: match[4] === 'blob' ? 'file' : 'directory',
+  };
+  const lines = anchor.match(LINE_ANCHOR_PATTERN);
+  if (focus.type === 'file' && lines) {
+    const startLine = Number(lines[1]);
+    const endLine = lines[2] ? Number(lines[2]) : startLine;
+    focus.startLine = Math.min(startLine, endLine);
+    focus.endLine = Math.max(startLine, endLine);
+  }
+  return { ...repository, ref, focus };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
 /**
  * Parse a GitHub URL and extract owner and repo information
- * Supports various GitHub URL formats:
+ * Supports various GitHub URL formats on the configured host:
  * - https://github.com/owner/repo
  * - https://github.com/owner/repo/
  * - https://github.com/owner/repo.git
+ * - https://github.com/owner/repo/pull/123
+ * - https://github.com/owner/repo/blob/main/src/index.ts#L20-L40
+ * - https://github.com/owner/repo/tree/main/src
  * - github.com/owner/repo
+ * - git@github.com:owner/repo.git
  * - owner/repo
  */
 export function parseGitHubUrl(url: string): GitHubRepo | null {
@@ -22,23 +78,40 @@ export function parseGitHubUrl(url: string): GitHubRepo | null {
   }
 
   try {
-    // Remove trailing slash and .git extension
-    const cleanUrl = url
-      .trim()
+    // Keep the line anchor; drop query string, trailing slash and .git
+    const [withoutAnchor, anchor = ''] = url.trim().split('#', 2);
+    const cleanUrl = withoutAnchor
+      .replace(/\?.*$/, '')
       .replace(/\/$/, '')
       .replace(/\.git$/, '');
 
     // Handle different URL formats
     let match: RegExpMatchArray | null = null;
+    const host = escapeRegExp(getGitHubHost());
 
     // Full GitHub URL: https://github.com/owner/repo
-    match = cleanUrl.match(/^https?:\/\/github\.com\/([^\/]+)\/([^\/]+)/);
+    match = cleanUrl.match(
+      new RegExp(
+        `^https?:\\/\\/${host}\\/([^\\/]+)\\/([^\\/]+)${DEEP_LINK_PATTERN}`,
+        'i'
+      )
+    );
     if (match) {
-      return { owner: match[1], repo: match[2] };
+      return toRepo(match, anchor);
     }
 
     // GitHub URL without protocol: github.com/owner/repo
-    match = cleanUrl.match(/^github\.com\/([^\/]+)\/([^\/]+)/);
+    match = cleanUrl.match(
+      new RegExp(`^${host}\\/([^\\/]+)\\/([^\\/]+)${DEEP_LINK_PATTERN}`, 'i')
+    );
+    if (match) {
+      return toRepo(match, anchor);
+    }
+
+    // SSH remote: git@github.com:owner/repo
+    match = cleanUrl.match(
+      new RegExp(`^git@${host}:([^\\/]+)\\/([^\\/]+)$`, 'i')
+    );
     if (match) {
       return { owner: match[1], repo: match[2] };
     }
@@ -85,7 +158,7 @@ export function isValidGitHubUrl(url: string): boolean {
  * Convert repository info to a standard GitHub URL
  */
 export function toGitHubUrl(repo: GitHubRepo): string {
-  return `https://github.com/${repo.owner}/${repo.repo}`;
+  return `${getGitHubWebUrl()}/${repo.owner}/${repo.repo}`;
 }
 
 /**
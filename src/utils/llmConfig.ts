@@ -1,4 +1,4 @@
-import { LLMProvider } from '@/types/llm';
+import { LLMModel, LLMProvider, LLMProviderInfo } from '@/types/llm';
 
 export interface LLMConfigData {
   provider: LLMProvider;
@@ -31,6 +31,20 @@ export async function getCurrentLLMConfig(): Promise<LLMConfigData | null> {
   }
 }
 
+/**
+ * The providers users can set up, from the server's registry
+ */
+export async function getLLMProviders(): Promise<LLMProviderInfo[]> {
+  try {
+    const response = await fetch('/api/llm-setup/providers');
+    const data = await response.json();
+    return data.providers || [];
+  } catch (error) {
+    console.error('Failed to get LLM providers:', error);
+    return [];
+  }
+}
+
 /**
  * Switch to a different provider and model
  */
@@ -57,17 +71,11 @@ export async function switchLLMConfig(
 /**
  * Format provider name for display
  */
-export function formatProviderName(provider: LLMProvider): string {
-  switch (provider) {
-    case 'openai':
-      return 'OpenAI';
-    case 'anthropic':
-      return 'Anthropic';
-    case 'openrouter':
-      return 'OpenRouter';
-    default:
-      return provider;
-  }
+export function formatProviderName(
+  provider: LLMProvider,
+  providers: LLMProviderInfo[]
+): string {
+  return providers.find(({ id }) => id === provider)?.shortName || provider;
 }
 
 /**
@@ -80,3 +88,16 @@ export function formatModelName(model: string): string {
   }
   return model;
 }
+
+/**
+ * Label of a model in a model picker, with its price where known
+ */
+export function formatModelOption(model: LLMModel): string {
+  if ('pricing' in model && model.pricing.prompt > 0) {
+    return `${model.name} - $${model.pricing.prompt}/1K tokens`;
+  }
+  if ('display_name' in model) {
+    return model.display_name;
+  }
+  return model.name || model.id;
+}
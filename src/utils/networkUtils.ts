@@ -0,0 +1,69 @@
+import { promises as dns } from 'dns';
+import net from 'net';
+
+// IPv4 ranges that are not the public internet: [first octets, prefix]
+const PRIVATE_IPV4_RANGES: Array<[number[], number]> = [
+  [[0], 8], // "This" network
+  [[10], 8],
+  [[100, 64], 10], // Carrier-grade NAT
+  [[127], 8], // Loopback
+  [[169, 254], 16], // Link-local, including cloud metadata services
+  [[172, 16], 12],
+  [[192, 0, 0], 24],
+  [[192, 168], 16],
+  [[198, 18], 15], // Benchmarking
+  [[224], 4], // Multicast
+  [[240], 4], // Reserved and broadcast
+];
+
+function ipv4ToNumber(address: string): number {
+  return address
+    .split('.')
+    .reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return PRIVATE_IPV4_RANGES.some(([octets, prefix]) => {
+    const base = ipv4ToNumber([...octets, 0, 0, 0].slice(0, 4).join('.'));
+    const mask = prefix === 0 ? 0 : 2 ** 32 - 2 ** (32 - prefix);
+    return (value & mask) >>> 0 === base;
+  });
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) return isPrivateIPv4(address);
+  if (!net.isIPv6(address)) return false;
+
+  const lower = address.toLowerCase();
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIPv4(mapped[1]);
+  return (
+    lower === '::' ||
+    lower === '::1' ||
+    /^f[cd]/.test(lower) || // Unique local
+    /^fe[89ab]/.test(lower) || // Link-local
+    lower.startsWith('ff') // Multicast
+  );
+}
+
+/**
+ * Whether a hostname is, or resolves to, a non-public address. Names that
+ * do not resolve are not private; requests to them fail anyway.
+ */
+export async function isPrivateHost(hostname: string): Promise<boolean> {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) return true;
+  if (net.isIP(host)) return isPrivateAddress(host);
+
+  try {
+    const addresses = await dns.lookup(host, { all: true });
+    return addresses.some(({ address }) => isPrivateAddress(address));
+  } catch {
+    return false;
+  }
+}
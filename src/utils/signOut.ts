@@ -0,0 +1,10 @@
+import { signOut } from 'next-auth/react';
+
+/**
+ * Sign out, first revoking the user's MCP access tokens, which act as them
+ * on GitHub and with their AI provider key
+ */
+export async function signOutAndRevokeAccess(): Promise<void> {
+  await fetch('/api/mcp/token', { method: 'DELETE' }).catch(() => undefined);
+  await signOut();
+}
@@ -0,0 +1,26 @@
+/**
+ * Token estimation utilities
+ *
+ * Providers use different tokenizers, so these helpers use the common
+ * ~4 characters per token heuristic. Good enough for budgeting prompts.
+ */
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Roughly estimate the number of tokens in a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Truncate text so that it fits within the given token budget
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = Math.max(0, maxTokens * CHARS_PER_TOKEN);
+  if (text.length <= maxChars) {
+    return text;
+  }
+  return `${text.substring(0, maxChars)}\n... (truncated)`;
+}